@@ -0,0 +1,15 @@
+CREATE TABLE `jobs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`dataset_id` integer NOT NULL,
+	`type` text NOT NULL,
+	`status` text DEFAULT 'queued' NOT NULL,
+	`payload` text NOT NULL,
+	`total_count` integer DEFAULT 0 NOT NULL,
+	`processed_count` integer DEFAULT 0 NOT NULL,
+	`failed_count` integer DEFAULT 0 NOT NULL,
+	`error` text,
+	`created_at` text NOT NULL,
+	`started_at` text,
+	`finished_at` text,
+	FOREIGN KEY (`dataset_id`) REFERENCES `datasets`(`id`) ON UPDATE no action ON DELETE no action
+);
@@ -0,0 +1,2 @@
+ALTER TABLE `videos` ADD `progress` real DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `videos` ADD `eta_seconds` real;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `clips` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`video_id` integer NOT NULL,
+	`start_time` real DEFAULT 0 NOT NULL,
+	`resolution` text DEFAULT '1280x720' NOT NULL,
+	`crop_x` integer DEFAULT 0 NOT NULL,
+	`crop_y` integer DEFAULT 0 NOT NULL,
+	`crop_width` integer NOT NULL,
+	`crop_height` integer NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`progress` real DEFAULT 0 NOT NULL,
+	`eta_seconds` real,
+	`created_at` text NOT NULL,
+	FOREIGN KEY (`video_id`) REFERENCES `videos`(`id`) ON UPDATE no action ON DELETE no action
+);
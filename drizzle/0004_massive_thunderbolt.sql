@@ -0,0 +1,2 @@
+ALTER TABLE `clips` ADD `caption` text DEFAULT '' NOT NULL;--> statement-breakpoint
+ALTER TABLE `datasets` ADD `trigger_word` text;
\ No newline at end of file
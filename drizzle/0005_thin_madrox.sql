@@ -0,0 +1 @@
+ALTER TABLE `datasets` ADD `resolutions` text;
\ No newline at end of file
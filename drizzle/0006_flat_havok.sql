@@ -0,0 +1,10 @@
+CREATE TABLE `processing_presets` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`settings` text NOT NULL,
+	`created_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `processing_presets_name_unique` ON `processing_presets` (`name`);--> statement-breakpoint
+ALTER TABLE `clips` ADD `output_settings` text;--> statement-breakpoint
+ALTER TABLE `datasets` ADD `processing_config` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `clips` ADD `crop_keyframes` text;
\ No newline at end of file
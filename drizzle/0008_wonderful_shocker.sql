@@ -0,0 +1 @@
+ALTER TABLE `videos` ADD `scene_cuts` text;
\ No newline at end of file
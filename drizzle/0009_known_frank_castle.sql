@@ -0,0 +1,2 @@
+ALTER TABLE `videos` ADD `thumbnail_path` text;--> statement-breakpoint
+ALTER TABLE `videos` ADD `filmstrip_path` text;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `videos` ADD `codec` text;--> statement-breakpoint
+ALTER TABLE `videos` ADD `proxy_status` text DEFAULT 'none' NOT NULL;--> statement-breakpoint
+ALTER TABLE `videos` ADD `proxy_path` text;
\ No newline at end of file
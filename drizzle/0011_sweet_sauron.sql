@@ -0,0 +1,10 @@
+CREATE TABLE `uploads` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`dataset_id` integer NOT NULL,
+	`filename` text NOT NULL,
+	`size` integer NOT NULL,
+	`received_bytes` integer DEFAULT 0 NOT NULL,
+	`temp_path` text NOT NULL,
+	`created_at` text NOT NULL,
+	FOREIGN KEY (`dataset_id`) REFERENCES `datasets`(`id`) ON UPDATE no action ON DELETE no action
+);
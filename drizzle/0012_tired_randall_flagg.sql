@@ -0,0 +1 @@
+ALTER TABLE `videos` ADD `is_external` integer DEFAULT false NOT NULL;
\ No newline at end of file
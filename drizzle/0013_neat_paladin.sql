@@ -0,0 +1,3 @@
+ALTER TABLE `videos` ADD `content_hash` text;--> statement-breakpoint
+ALTER TABLE `videos` ADD `fingerprint` text;--> statement-breakpoint
+ALTER TABLE `videos` ADD `ignored_duplicate_ids` text;
\ No newline at end of file
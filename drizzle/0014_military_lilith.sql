@@ -0,0 +1 @@
+ALTER TABLE `clips` ADD `quality` text;
\ No newline at end of file
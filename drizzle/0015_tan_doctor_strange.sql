@@ -0,0 +1 @@
+ALTER TABLE `videos` ADD `active_area` text;
\ No newline at end of file
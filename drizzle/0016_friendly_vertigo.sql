@@ -0,0 +1 @@
+ALTER TABLE `videos` ADD `motion_energy` text;
\ No newline at end of file
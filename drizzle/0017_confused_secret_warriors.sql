@@ -0,0 +1 @@
+ALTER TABLE `clips` ADD `output_name` text;
\ No newline at end of file
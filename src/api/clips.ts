@@ -0,0 +1,427 @@
+import { db } from '@/db';
+import { clips, videos, type Clip, type NewClip, type Video } from '@/db/schema';
+import { asc, desc, eq, count } from 'drizzle-orm';
+import { getDatasetResolutions } from '@/lib/resolutions';
+import { normalizeCropKeyframes } from '@/lib/crop-keyframes';
+import { resolveProcessingSettings } from '@/lib/processing-settings';
+import { enqueueJob, findJobs } from '@/lib/job-queue';
+import { centerCropInActiveArea, computeMaxCrop, getSceneRanges } from '@/lib/video-utils';
+import { publishDatasetEvent } from '@/lib/dataset-events';
+import { collectExportItems } from '@/lib/dataset-export';
+import { extractVideoMetadata } from '@/lib/video-metadata';
+import type { ClipOutputPreview, OutputMediaInfo } from '@/types';
+
+// Clip fields the client is allowed to change
+const EDITABLE_FIELDS = ['startTime', 'resolution', 'cropX', 'cropY', 'cropWidth', 'cropHeight', 'cropKeyframes', 'caption'] as const;
+
+// Fields that change which pixels a clip covers
+const WINDOW_FIELDS = ['startTime', 'cropX', 'cropY', 'cropWidth', 'cropHeight', 'cropKeyframes'] as const;
+
+const CROP_FIELDS = ['cropX', 'cropY', 'cropWidth', 'cropHeight'] as const;
+
+function pickEditableFields(body: Record<string, unknown>): Partial<NewClip> {
+  const updates: Record<string, unknown> = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] !== undefined) {
+      updates[field] = body[field];
+    }
+  }
+  return updates as Partial<NewClip>;
+}
+
+// Clips may only use one of their dataset's resolution presets
+async function checkDatasetResolution(videoId: number, resolution: unknown): Promise<string | null> {
+  if (typeof resolution !== 'string') {
+    return 'Resolution must be a string';
+  }
+
+  const video = await db.query.videos.findFirst({
+    where: eq(videos.id, videoId),
+    with: {
+      dataset: true,
+    },
+  });
+
+  if (video && !getDatasetResolutions(video.dataset).includes(resolution)) {
+    return `${resolution} is not one of this dataset's resolutions`;
+  }
+  return null;
+}
+
+// Check the types of the start time and crop, rounding the crop to whole pixels in place
+function normalizeWindowFields(fields: Partial<NewClip>): string | null {
+  const { startTime } = fields;
+  if (startTime !== undefined && (typeof startTime !== 'number' || !Number.isFinite(startTime) || startTime < 0)) {
+    return 'Start time must be a non-negative number of seconds';
+  }
+
+  for (const field of CROP_FIELDS) {
+    const value = fields[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      return `${field} must be a non-negative number of pixels`;
+    }
+    fields[field] = Math.round(value);
+  }
+
+  if (fields.cropWidth === 0 || fields.cropHeight === 0) {
+    return 'Crop size must be at least 1 pixel';
+  }
+  return null;
+}
+
+// The clip's start and every crop position (fixed and keyframed) must lie inside the video
+function checkClipWindow(
+  clip: Pick<Clip, 'startTime' | 'cropX' | 'cropY' | 'cropWidth' | 'cropHeight' | 'cropKeyframes'>,
+  video: Pick<Video, 'duration' | 'originalWidth' | 'originalHeight'>
+): string | null {
+  if (clip.startTime >= video.duration) {
+    return `Start time must be before the end of the video (${video.duration}s)`;
+  }
+  if (clip.cropWidth > video.originalWidth || clip.cropHeight > video.originalHeight) {
+    return `A ${clip.cropWidth}x${clip.cropHeight} crop doesn't fit the ${video.originalWidth}x${video.originalHeight} video`;
+  }
+
+  const positions = [{ x: clip.cropX, y: clip.cropY }, ...(clip.cropKeyframes ?? [])];
+  if (positions.some(({ x, y }) => x + clip.cropWidth > video.originalWidth || y + clip.cropHeight > video.originalHeight)) {
+    return 'The crop must stay inside the video frame';
+  }
+  return null;
+}
+
+// Validate and tidy crop keyframes in place; an empty list goes back to a fixed crop.
+// The fixed crop position follows the first keyframe so it stays a sensible still frame.
+function normalizeKeyframeField(fields: Partial<NewClip>): string | null {
+  if (fields.cropKeyframes === undefined || fields.cropKeyframes === null) return null;
+
+  const keyframes = normalizeCropKeyframes(fields.cropKeyframes);
+  if (typeof keyframes === 'string') return keyframes;
+
+  const first = keyframes[0];
+  fields.cropKeyframes = first ? keyframes : null;
+  if (first) {
+    fields.cropX = first.x;
+    fields.cropY = first.y;
+  }
+  return null;
+}
+
+export async function createClip(videoId: number, req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    const video = await db.query.videos.findFirst({
+      where: eq(videos.id, videoId),
+    });
+
+    if (!video) {
+      return Response.json({ error: 'Video not found' }, { status: 404 });
+    }
+
+    // New clips start from the latest clip's framing so only the start time needs changing
+    // (keyframes are timed from the clip start, so they are not copied)
+    const template = await db.query.clips.findFirst({
+      where: eq(clips.videoId, videoId),
+      orderBy: desc(clips.id),
+    });
+    const source = template ?? video;
+    const fields = pickEditableFields(body);
+
+    if (fields.resolution !== undefined) {
+      const error = await checkDatasetResolution(videoId, fields.resolution);
+      if (error) {
+        return Response.json({ error }, { status: 400 });
+      }
+    }
+
+    const fieldError = normalizeWindowFields(fields) ?? normalizeKeyframeField(fields);
+    if (fieldError) {
+      return Response.json({ error: fieldError }, { status: 400 });
+    }
+
+    const values = {
+      videoId,
+      startTime: source.startTime,
+      resolution: source.resolution,
+      cropX: source.cropX,
+      cropY: source.cropY,
+      cropWidth: source.cropWidth,
+      cropHeight: source.cropHeight,
+      ...fields,
+    };
+
+    const windowError = checkClipWindow({ cropKeyframes: null, ...values }, video);
+    if (windowError) {
+      return Response.json({ error: windowError }, { status: 400 });
+    }
+
+    const [newClip] = await db
+      .insert(clips)
+      .values(values)
+      .returning();
+
+    if (newClip) {
+      publishDatasetEvent(video.datasetId, { type: 'clip', clip: newClip });
+    }
+
+    return Response.json(newClip);
+  } catch (error) {
+    console.error('Error creating clip:', error);
+    return Response.json({ error: 'Failed to create clip' }, { status: 500 });
+  }
+}
+
+export async function splitVideoIntoScenes(videoId: number, req: Request) {
+  try {
+    const { replace = false } = await req.json().catch(() => ({}));
+
+    const video = await db.query.videos.findFirst({
+      where: eq(videos.id, videoId),
+      with: {
+        dataset: true,
+        clips: true,
+      },
+    });
+
+    if (!video) {
+      return Response.json({ error: 'Video not found' }, { status: 404 });
+    }
+
+    // Scene detection decodes the whole video, so it runs as a job rather than in this request
+    const { sceneCuts } = video;
+    if (!sceneCuts) {
+      const activeJobs = await findJobs({ datasetId: video.datasetId, activeOnly: true });
+      const detectJob = activeJobs.find(job =>
+        job.type === 'detect-scenes' && ((job.payload.videoIds as number[] | undefined) ?? []).includes(video.id)
+      ) ?? await enqueueJob('detect-scenes', video.datasetId, { videoIds: [video.id] }, { totalCount: 1 });
+
+      return Response.json(
+        { error: 'Scenes are still being detected for this video. Split it again once detection finishes.', job: detectJob },
+        { status: 409 }
+      );
+    }
+
+    const settings = resolveProcessingSettings(video.dataset.processingConfig);
+    const ranges = getSceneRanges(sceneCuts, video.duration, settings);
+
+    if (ranges.length === 0) {
+      return Response.json(
+        { error: `No scene is at least ${settings.frameCount / settings.fps}s long (${settings.frameCount} frames at ${settings.fps}fps)` },
+        { status: 400 }
+      );
+    }
+
+    // Without replace, scenes that already have a clip starting on them are skipped
+    const existingStarts = replace ? [] : video.clips.map(clip => clip.startTime);
+    const newRanges = ranges.filter(range =>
+      !existingStarts.some(startTime => Math.abs(startTime - range.start) < 0.5 / settings.fps)
+    );
+
+    // Every scene clip takes the framing of the latest clip (crop edits live on clips, not the
+    // video), centered in the picture (inside any black bars) since each scene is a new shot
+    const template = video.clips.reduce<Clip | undefined>(
+      (latest, clip) => (!latest || clip.id > latest.id ? clip : latest),
+      undefined
+    );
+    const framing = template
+      ? { resolution: template.resolution, width: template.cropWidth, height: template.cropHeight }
+      : { resolution: video.resolution, ...computeMaxCrop(video.resolution, video) };
+    const { x: cropX, y: cropY } = centerCropInActiveArea(framing.width, framing.height, video);
+    const sceneClips = newRanges.map(range => ({
+      videoId,
+      startTime: range.start,
+      resolution: framing.resolution,
+      cropX,
+      cropY,
+      cropWidth: framing.width,
+      cropHeight: framing.height,
+    }));
+
+    if (replace) {
+      await db
+        .delete(clips)
+        .where(eq(clips.videoId, videoId));
+      for (const clip of video.clips) {
+        publishDatasetEvent(video.datasetId, { type: 'clip-deleted', clipId: clip.id, videoId });
+      }
+    }
+    if (sceneClips.length > 0) {
+      const insertedClips = await db.insert(clips).values(sceneClips).returning();
+      for (const clip of insertedClips) {
+        publishDatasetEvent(video.datasetId, { type: 'clip', clip });
+      }
+    }
+
+    const videoClips = await db.query.clips.findMany({
+      where: eq(clips.videoId, videoId),
+      orderBy: asc(clips.id),
+    });
+
+    return Response.json(videoClips);
+  } catch (error) {
+    console.error('Error splitting video into scenes:', error);
+    return Response.json({ error: 'Failed to split video into scenes' }, { status: 500 });
+  }
+}
+
+// Differences between the settings a clip was processed with and its output file
+function compareOutputMedia(expected: Required<OutputMediaInfo>, actual: OutputMediaInfo): string[] {
+  const mismatches: string[] = [];
+  if (actual.width !== expected.width || actual.height !== expected.height) {
+    mismatches.push(`Resolution is ${actual.width}x${actual.height}, expected ${expected.width}x${expected.height}`);
+  }
+  if (actual.fps === undefined || Math.abs(actual.fps - expected.fps) > 0.01) {
+    mismatches.push(`FPS is ${actual.fps?.toFixed(2) ?? 'unknown'}, expected ${expected.fps}`);
+  }
+  if (actual.frameCount !== expected.frameCount) {
+    mismatches.push(`Frame count is ${actual.frameCount ?? 'unknown'}, expected ${expected.frameCount}`);
+  }
+  return mismatches;
+}
+
+export async function getClipOutput(id: number) {
+  try {
+    const clip = await db.query.clips.findFirst({
+      where: eq(clips.id, id),
+      with: {
+        video: true,
+      },
+    });
+
+    if (!clip) {
+      return Response.json({ error: 'Clip not found' }, { status: 404 });
+    }
+
+    // Resolved the way export does, so the preview shows exactly what a trainer would get
+    const collected = await collectExportItems(clip.video.datasetId);
+    const item = collected?.items.find(candidate => candidate.clipId === id);
+
+    if (!item) {
+      return Response.json({ error: 'Clip has no processed output' }, { status: 404 });
+    }
+
+    const expected = { width: item.width, height: item.height, fps: item.fps, frameCount: item.frameCount };
+    let actual: OutputMediaInfo | null = null;
+    let mismatches: string[];
+    try {
+      const { width, height, fps, frameCount } = await extractVideoMetadata(item.videoPath);
+      actual = { width, height, fps, frameCount };
+      mismatches = compareOutputMedia(expected, actual);
+    } catch (error) {
+      console.error(`Failed to read output metadata for clip ${id}:`, error);
+      mismatches = ['Could not read the output file metadata'];
+    }
+
+    const preview: ClipOutputPreview = {
+      name: item.name,
+      url: `/output/${clip.video.datasetId}/${item.name}.mp4`,
+      expected,
+      actual,
+      mismatches,
+    };
+    return Response.json(preview);
+  } catch (error) {
+    console.error('Error getting clip output:', error);
+    return Response.json({ error: 'Failed to get clip output' }, { status: 500 });
+  }
+}
+
+export async function updateClip(id: number, req: Request) {
+  try {
+    const updates = pickEditableFields(await req.json());
+
+    if (updates.caption !== undefined && typeof updates.caption !== 'string') {
+      return Response.json({ error: 'Caption must be a string' }, { status: 400 });
+    }
+
+    const fieldError = normalizeWindowFields(updates) ?? normalizeKeyframeField(updates);
+    if (fieldError) {
+      return Response.json({ error: fieldError }, { status: 400 });
+    }
+
+    const existingClip = await db.query.clips.findFirst({
+      where: eq(clips.id, id),
+    });
+
+    if (!existingClip) {
+      return Response.json({ error: 'Clip not found' }, { status: 404 });
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return Response.json(existingClip);
+    }
+
+    const video = await db.query.videos.findFirst({
+      where: eq(videos.id, existingClip.videoId),
+    });
+
+    if (video && WINDOW_FIELDS.some(field => updates[field] !== undefined)) {
+      const windowError = checkClipWindow({ ...existingClip, ...updates }, video);
+      if (windowError) {
+        return Response.json({ error: windowError }, { status: 400 });
+      }
+    }
+
+    if (updates.resolution !== undefined) {
+      const error = await checkDatasetResolution(existingClip.videoId, updates.resolution);
+      if (error) {
+        return Response.json({ error }, { status: 400 });
+      }
+    }
+
+    // A new window or crop makes the last quality check meaningless
+    if (WINDOW_FIELDS.some(field => updates[field] !== undefined)) {
+      updates.quality = null;
+    }
+
+    const [updatedClip] = await db
+      .update(clips)
+      .set(updates)
+      .where(eq(clips.id, id))
+      .returning();
+
+    if (video && updatedClip) {
+      publishDatasetEvent(video.datasetId, { type: 'clip', clip: updatedClip });
+    }
+
+    return Response.json(updatedClip);
+  } catch (error) {
+    console.error('Error updating clip:', error);
+    return Response.json({ error: 'Failed to update clip' }, { status: 500 });
+  }
+}
+
+export async function deleteClip(id: number) {
+  try {
+    const existingClip = await db.query.clips.findFirst({
+      where: eq(clips.id, id),
+      with: {
+        video: true,
+      },
+    });
+
+    if (!existingClip) {
+      return Response.json({ error: 'Clip not found' }, { status: 404 });
+    }
+
+    const [clipCount] = await db
+      .select({ value: count() })
+      .from(clips)
+      .where(eq(clips.videoId, existingClip.videoId));
+
+    if ((clipCount?.value ?? 0) <= 1) {
+      return Response.json({ error: 'A video must keep at least one clip' }, { status: 400 });
+    }
+
+    await db
+      .delete(clips)
+      .where(eq(clips.id, id));
+
+    publishDatasetEvent(existingClip.video.datasetId, { type: 'clip-deleted', clipId: id, videoId: existingClip.videoId });
+
+    return Response.json({ message: 'Clip deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting clip:', error);
+    return Response.json({ error: 'Failed to delete clip' }, { status: 500 });
+  }
+}
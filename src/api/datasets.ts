@@ -1,11 +1,47 @@
 import { db } from '@/db';
-import { datasets, videos, type Video } from '@/db/schema';
-import { eq, count } from 'drizzle-orm';
-import { mkdir, rmdir } from 'fs/promises';
-import { join, dirname } from 'path';
+import { datasets, videos, clips, uploads, type NewDataset } from '@/db/schema';
+import { eq, count, asc, inArray } from 'drizzle-orm';
+import { rmdir } from 'fs/promises';
+import { join } from 'path';
 import { existsSync } from 'fs';
+import { enqueueJob, findActiveJob, deleteDatasetJobs } from '@/lib/job-queue';
+import { getOutputDir } from '@/lib/output-paths';
+import { resolveStaticPath, serveStaticFile } from '@/lib/static-files';
+import { isExportLayoutId } from '@/lib/export-layouts';
+import { validateResolution } from '@/lib/resolutions';
+import { resolveProcessingSettings, validateProcessingSettings } from '@/lib/processing-settings';
+import { hasQualityIssues } from '@/lib/quality-checks';
 import type { ProcessingConfig } from '@/types';
 
+/**
+ * Merge a (partial) processing config from a request over `base` and validate it.
+ * Returns the complete config, or an error message.
+ */
+function parseProcessingConfig(input: Partial<ProcessingConfig>, base: ProcessingConfig | null): ProcessingConfig | string {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return 'Invalid processing config';
+  }
+  const exportLayout = input.exportLayout !== undefined ? input.exportLayout : base?.exportLayout;
+  if (exportLayout !== undefined && exportLayout !== null && !isExportLayoutId(exportLayout)) {
+    return 'Unknown export layout';
+  }
+
+  const skipQualityIssues = input.skipQualityIssues !== undefined ? input.skipQualityIssues : base?.skipQualityIssues;
+  if (skipQualityIssues !== undefined && typeof skipQualityIssues !== 'boolean') {
+    return 'skipQualityIssues must be true or false';
+  }
+
+  const settings = resolveProcessingSettings(input, resolveProcessingSettings(base));
+  const error = validateProcessingSettings(settings);
+  if (error) return error;
+
+  return {
+    ...settings,
+    ...(exportLayout ? { exportLayout } : {}),
+    ...(skipQualityIssues ? { skipQualityIssues } : {}),
+  };
+}
+
 export async function listDatasets() {
   try {
     // Get datasets with video count
@@ -32,7 +68,13 @@ export async function getDataset(id: number) {
     const dataset = await db.query.datasets.findFirst({
       where: eq(datasets.id, id),
       with: {
-        videos: true,
+        videos: {
+          with: {
+            clips: {
+              orderBy: asc(clips.id),
+            },
+          },
+        },
       },
     });
 
@@ -67,16 +109,142 @@ export async function createDataset(req: Request) {
   }
 }
 
+export async function updateDataset(id: number, req: Request) {
+  try {
+    const { triggerWord, resolutions, processingConfig } = await req.json();
+
+    if (triggerWord !== undefined && triggerWord !== null && typeof triggerWord !== 'string') {
+      return Response.json({ error: 'Trigger word must be a string' }, { status: 400 });
+    }
+
+    if (resolutions !== undefined) {
+      if (!Array.isArray(resolutions) || resolutions.length === 0) {
+        return Response.json({ error: 'At least one resolution is required' }, { status: 400 });
+      }
+      for (const resolution of resolutions) {
+        const error = typeof resolution === 'string' ? validateResolution(resolution) : 'Resolutions must be strings';
+        if (error) {
+          return Response.json({ error }, { status: 400 });
+        }
+      }
+    }
+
+    const existingDataset = await db.query.datasets.findFirst({
+      where: eq(datasets.id, id),
+    });
+
+    if (!existingDataset) {
+      return Response.json({ error: 'Dataset not found' }, { status: 404 });
+    }
+
+    const updates: Partial<NewDataset> = {};
+    if (triggerWord !== undefined) {
+      // An empty trigger word clears it
+      updates.triggerWord = triggerWord?.trim() || null;
+    }
+    if (resolutions !== undefined) {
+      updates.resolutions = [...new Set((resolutions as string[]).map(resolution => resolution.trim()))];
+    }
+    if (processingConfig === null) {
+      // Back to the defaults
+      updates.processingConfig = null;
+    } else if (processingConfig !== undefined) {
+      const config = parseProcessingConfig(processingConfig, existingDataset.processingConfig);
+      if (typeof config === 'string') {
+        return Response.json({ error: config }, { status: 400 });
+      }
+      updates.processingConfig = config;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return Response.json(existingDataset);
+    }
+
+    const [updatedDataset] = await db
+      .update(datasets)
+      .set(updates)
+      .where(eq(datasets.id, id))
+      .returning();
+
+    return Response.json(updatedDataset);
+  } catch (error) {
+    console.error('Error updating dataset:', error);
+    return Response.json({ error: 'Failed to update dataset' }, { status: 500 });
+  }
+}
+
 export async function processDataset(datasetId: number, req: Request) {
   try {
-    const config: ProcessingConfig = await req.json();
-    
-    // Validate config
-    if (!config.fps || !config.frameCount) {
-      return Response.json({ error: 'Invalid processing config' }, { status: 400 });
+    const body: Partial<ProcessingConfig> = await req.json();
+
+    // Get dataset with its videos and their clips
+    const dataset = await db.query.datasets.findFirst({
+      where: eq(datasets.id, datasetId),
+      with: {
+        videos: {
+          with: {
+            clips: true,
+          },
+        },
+      },
+    });
+
+    if (!dataset) {
+      return Response.json({ error: 'Dataset not found' }, { status: 404 });
+    }
+
+    // Settings left out of the request come from the dataset's saved config
+    const config = parseProcessingConfig(body, dataset.processingConfig);
+    if (typeof config === 'string') {
+      return Response.json({ error: config }, { status: 400 });
+    }
+
+    const activeJob = await findActiveJob(datasetId, 'process-dataset');
+    if (activeJob) {
+      return Response.json({ error: `Dataset is already being processed (job ${activeJob.id})` }, { status: 409 });
+    }
+
+    // Mark every video and clip as pending so the job picks them up
+    await db
+      .update(videos)
+      .set({ status: 'pending', progress: 0, etaSeconds: null })
+      .where(eq(videos.datasetId, datasetId));
+
+    const videoIds = dataset.videos.map(video => video.id);
+    if (videoIds.length > 0) {
+      await db
+        .update(clips)
+        .set({ status: 'pending', progress: 0, etaSeconds: null, outputSettings: null })
+        .where(inArray(clips.videoId, videoIds));
     }
 
-    // Get dataset with its videos
+    // The settings used for a run become the dataset's saved settings
+    await db
+      .update(datasets)
+      .set({ processingConfig: config })
+      .where(eq(datasets.id, datasetId));
+
+    // Clips failing their quality check are recorded on the job, which skips them, and aren't counted
+    const allClips = dataset.videos.flatMap(video => video.clips);
+    const skippedClipIds = config.skipQualityIssues
+      ? allClips.filter(clip => hasQualityIssues(clip)).map(clip => clip.id)
+      : [];
+    const job = await enqueueJob(
+      'process-dataset',
+      datasetId,
+      { ...config, skippedClipIds },
+      { totalCount: allClips.length - skippedClipIds.length }
+    );
+
+    return Response.json(job, { status: 202 });
+  } catch (error) {
+    console.error('Error processing dataset:', error);
+    return Response.json({ error: 'Failed to process dataset' }, { status: 500 });
+  }
+}
+
+export async function checkDatasetQuality(datasetId: number) {
+  try {
     const dataset = await db.query.datasets.findFirst({
       where: eq(datasets.id, datasetId),
       with: {
@@ -88,61 +256,78 @@ export async function processDataset(datasetId: number, req: Request) {
       return Response.json({ error: 'Dataset not found' }, { status: 404 });
     }
 
-    // Create output directory
-    const outputDir = join(process.cwd(), 'output', dataset.name);
-    await mkdir(outputDir, { recursive: true });
+    if (dataset.videos.length === 0) {
+      return Response.json({ error: 'Dataset has no videos to check' }, { status: 400 });
+    }
 
-    // Process each video
-    let processedCount = 0;
-    const totalVideos = dataset.videos.length;
+    const activeJob = await findActiveJob(datasetId, 'check-quality');
+    if (activeJob) {
+      return Response.json({ error: `Quality check already running (job ${activeJob.id})` }, { status: 409 });
+    }
 
-    for (let i = 0; i < dataset.videos.length; i++) {
-      const video = dataset.videos[i];
-      if (!video) continue;
-      
-      const outputFilename = `vid_${String(i + 1).padStart(4, '0')}.mp4`;
-      const outputPath = join(outputDir, outputFilename);
+    const videoIds = dataset.videos.map(video => video.id);
+    const job = await enqueueJob('check-quality', datasetId, { videoIds }, { totalCount: videoIds.length });
+    return Response.json(job, { status: 202 });
+  } catch (error) {
+    console.error('Error starting quality check:', error);
+    return Response.json({ error: 'Failed to start quality check' }, { status: 500 });
+  }
+}
 
-      try {
-        // Update video status to processing
-        await db
-          .update(videos)
-          .set({ status: 'pending' })
-          .where(eq(videos.id, video.id));
-
-        // Run FFMPEG processing
-        await processVideo(video, outputPath, config);
-
-        // Update video as processed
-        await db
-          .update(videos)
-          .set({ 
-            status: 'processed',
-            fps: config.fps,
-            frameCount: config.frameCount,
-          })
-          .where(eq(videos.id, video.id));
-
-        processedCount++;
-      } catch (error) {
-        console.error(`Error processing video ${video.id}:`, error);
-        
-        // Update video status to error
-        await db
-          .update(videos)
-          .set({ status: 'error' })
-          .where(eq(videos.id, video.id));
-      }
+export async function autoCropDataset(datasetId: number) {
+  try {
+    const dataset = await db.query.datasets.findFirst({
+      where: eq(datasets.id, datasetId),
+      with: {
+        videos: true,
+      },
+    });
+
+    if (!dataset) {
+      return Response.json({ error: 'Dataset not found' }, { status: 404 });
+    }
+
+    if (dataset.videos.length === 0) {
+      return Response.json({ error: 'Dataset has no videos to crop' }, { status: 400 });
     }
 
-    return Response.json({ 
-      message: `Processing completed. ${processedCount}/${totalVideos} videos processed successfully.`,
-      processedCount,
-      totalVideos 
+    const activeJob = await findActiveJob(datasetId, 'auto-crop');
+    if (activeJob) {
+      return Response.json({ error: `Auto-crop already running (job ${activeJob.id})` }, { status: 409 });
+    }
+
+    const videoIds = dataset.videos.map(video => video.id);
+    const job = await enqueueJob('auto-crop', datasetId, { videoIds }, { totalCount: videoIds.length });
+    return Response.json(job, { status: 202 });
+  } catch (error) {
+    console.error('Error starting auto-crop:', error);
+    return Response.json({ error: 'Failed to start auto-crop' }, { status: 500 });
+  }
+}
+
+// `encodedPath` is the URL path below /output/<datasetId>/
+export async function serveOutputFile(datasetId: number, encodedPath: string, req: Request) {
+  try {
+    const dataset = await db.query.datasets.findFirst({
+      where: eq(datasets.id, datasetId),
     });
+
+    if (!dataset) {
+      return new Response('Dataset not found', { status: 404 });
+    }
+
+    // Refuse anything that resolves outside the dataset's output directory
+    const filePath = resolveStaticPath(getOutputDir(dataset.name), encodedPath);
+    if (!filePath) {
+      return new Response('Invalid output path', { status: 400 });
+    }
+
+    // Reprocessing rewrites files under the same name
+    const response = await serveStaticFile(req, filePath, { headers: { 'Cache-Control': 'no-cache' } });
+    return response ?? new Response('Output file not found', { status: 404 });
   } catch (error) {
-    console.error('Error processing dataset:', error);
-    return Response.json({ error: 'Failed to process dataset' }, { status: 500 });
+    console.error('Error serving output file:', error);
+    return new Response('Error serving output file', { status: 500 });
   }
 }
 
@@ -160,8 +345,9 @@ export async function deleteDataset(id: number) {
       return Response.json({ error: 'Dataset not found' }, { status: 404 });
     }
 
-    // Delete video files from filesystem
+    // Delete video files from filesystem (files imported in place belong to the user)
     for (const video of dataset.videos) {
+      if (video.isExternal) continue;
       try {
         const file = Bun.file(video.filepath);
         await file.delete();
@@ -171,11 +357,27 @@ export async function deleteDataset(id: number) {
       }
     }
 
+    // Cancel running jobs and drop the job history for this dataset
+    await deleteDatasetJobs(id);
+
+    // Delete clips of the dataset's videos
+    const videoIds = dataset.videos.map(video => video.id);
+    if (videoIds.length > 0) {
+      await db
+        .delete(clips)
+        .where(inArray(clips.videoId, videoIds));
+    }
+
     // Delete videos from database (will be handled by foreign key cascade, but let's be explicit)
     await db
       .delete(videos)
       .where(eq(videos.datasetId, id));
 
+    // Drop unfinished chunked uploads (their partial files go with the uploads directory)
+    await db
+      .delete(uploads)
+      .where(eq(uploads.datasetId, id));
+
     // Delete the dataset from database
     await db
       .delete(datasets)
@@ -191,8 +393,18 @@ export async function deleteDataset(id: number) {
       console.warn('Could not delete uploads directory:', uploadsDir, dirError);
     }
 
+    // Delete thumbnails and filmstrips for this dataset
+    const previewsDir = join(process.cwd(), 'previews', id.toString());
+    try {
+      if (existsSync(previewsDir)) {
+        await rmdir(previewsDir, { recursive: true });
+      }
+    } catch (dirError) {
+      console.warn('Could not delete previews directory:', previewsDir, dirError);
+    }
+
     // Delete output directory for this dataset
-    const outputDir = join(process.cwd(), 'output', dataset.name);
+    const outputDir = getOutputDir(dataset.name);
     try {
       if (existsSync(outputDir)) {
         await rmdir(outputDir, { recursive: true });
@@ -207,64 +419,3 @@ export async function deleteDataset(id: number) {
     return Response.json({ error: 'Failed to delete dataset' }, { status: 500 });
   }
 }
-
-async function processVideo(video: Video, outputPath: string, config: ProcessingConfig): Promise<void> {
-  // Parse desired output resolution (fallback to crop dimensions if parse fails)
-  let outW: number | null = null;
-  let outH: number | null = null;
-  if (video.resolution) {
-    const parts = video.resolution.split('x');
-    if (parts.length === 2) {
-      const w = parseInt(parts[0] || '0', 10);
-      const h = parseInt(parts[1] || '0', 10);
-      if (w > 0 && h > 0) {
-        outW = w;
-        outH = h;
-      }
-    }
-  }
-  if (!outW || !outH) {
-    outW = video.cropWidth;
-    outH = video.cropHeight;
-  }
-
-  // Ensure crop region is inside source bounds
-  const cropX = Math.max(0, Math.min(video.originalWidth - 1, video.cropX));
-  const cropY = Math.max(0, Math.min(video.originalHeight - 1, video.cropY));
-  const cropW = Math.min(video.cropWidth, video.originalWidth - cropX);
-  const cropH = Math.min(video.cropHeight, video.originalHeight - cropY);
-
-  // Build filter chain: first crop the chosen region, then scale to requested output
-  // (If the crop already matches output size, scale is still explicit for consistency)
-  const filters = [`crop=${cropW}:${cropH}:${Math.round(cropX)}:${Math.round(cropY)}`];
-  if (outW && outH) {
-    filters.push(`scale=${outW}:${outH}`);
-  }
-  const filterStr = filters.join(',');
-
-  const ffmpegArgs = [
-    'ffmpeg',
-    '-i', video.filepath,
-    '-ss', video.startTime.toString(),
-    '-vf', filterStr,
-    '-r', config.fps.toString(),
-    '-frames:v', config.frameCount.toString(),
-    '-c:v', 'libx264',
-    '-preset', 'medium',
-    '-crf', '23',
-    '-y',
-    outputPath,
-  ];
-
-  console.log('Running FFMPEG with args:', ffmpegArgs);
-
-  const proc = Bun.spawn(ffmpegArgs, { stdout: 'pipe', stderr: 'pipe' });
-  const exitCode = await proc.exited;
-  if (exitCode === 0) {
-    console.log(`Successfully processed video: ${outputPath}`);
-  } else {
-    const stderr = await new Response(proc.stderr).text();
-    console.error(`FFMPEG failed with code ${exitCode}:`, stderr);
-    throw new Error(`FFMPEG processing failed with exit code ${exitCode}: ${stderr}`);
-  }
-}
@@ -0,0 +1,156 @@
+import { db } from '@/db';
+import { datasets, videos, clips, type Clip, type Video } from '@/db/schema';
+import { eq, isNotNull } from 'drizzle-orm';
+import { compareVideos } from '@/lib/video-fingerprint';
+import { constrainCrop } from '@/lib/video-utils';
+import { removeVideo } from './videos';
+
+// Clips closer than this (seconds) to an existing clip of the merge target count as the same clip
+const SAME_CLIP_TOLERANCE = 0.01;
+
+export async function getDatasetDuplicates(datasetId: number) {
+  try {
+    const dataset = await db.query.datasets.findFirst({
+      where: eq(datasets.id, datasetId),
+    });
+
+    if (!dataset) {
+      return Response.json({ error: 'Dataset not found' }, { status: 404 });
+    }
+
+    // Duplicates are looked for across all datasets, so the same footage isn't trained on twice
+    const fingerprinted = await db.query.videos.findMany({
+      where: isNotNull(videos.contentHash),
+    });
+    const datasetNames = new Map((await db.query.datasets.findMany()).map(d => [d.id, d.name]));
+
+    const results = fingerprinted
+      .filter(video => video.datasetId === datasetId)
+      .map(video => ({
+        videoId: video.id,
+        matches: fingerprinted.flatMap(other => {
+          if (other.id === video.id
+            || video.ignoredDuplicateIds?.includes(other.id)
+            || other.ignoredDuplicateIds?.includes(video.id)) {
+            return [];
+          }
+          const match = compareVideos(video, other);
+          return match ? [{
+            videoId: other.id,
+            datasetId: other.datasetId,
+            datasetName: datasetNames.get(other.datasetId) ?? '',
+            filename: other.filename,
+            ...match,
+          }] : [];
+        }),
+      }))
+      .filter(result => result.matches.length > 0);
+
+    return Response.json(results);
+  } catch (error) {
+    console.error('Error finding duplicates:', error);
+    return Response.json({ error: 'Failed to find duplicates' }, { status: 500 });
+  }
+}
+
+export async function ignoreDuplicate(id: number, req: Request) {
+  try {
+    const { videoId: otherId } = await req.json();
+
+    if (!Number.isInteger(otherId) || otherId === id) {
+      return Response.json({ error: 'videoId must be the ID of another video' }, { status: 400 });
+    }
+
+    const video = await db.query.videos.findFirst({ where: eq(videos.id, id) });
+    const other = await db.query.videos.findFirst({ where: eq(videos.id, otherId) });
+
+    if (!video || !other) {
+      return Response.json({ error: 'Video not found' }, { status: 404 });
+    }
+
+    // Recorded on both videos, so the pair stays dismissed from either dataset's point of view
+    const addIgnored = (target: Video, ignoredId: number) => db
+      .update(videos)
+      .set({ ignoredDuplicateIds: [...new Set([...(target.ignoredDuplicateIds ?? []), ignoredId])] })
+      .where(eq(videos.id, target.id))
+      .returning();
+
+    const [updatedVideo] = await addIgnored(video, other.id);
+    await addIgnored(other, video.id);
+
+    return Response.json(updatedVideo);
+  } catch (error) {
+    console.error('Error ignoring duplicate:', error);
+    return Response.json({ error: 'Failed to ignore duplicate' }, { status: 500 });
+  }
+}
+
+// Map a clip of one video onto a copy with different dimensions, keeping its aspect ratio
+function scaleClipToVideo(clip: Clip, from: Video, to: Video) {
+  const scale = Math.min(to.originalWidth / from.originalWidth, to.originalHeight / from.originalHeight);
+  const cropWidth = Math.min(to.originalWidth, Math.round(clip.cropWidth * scale));
+  const cropHeight = Math.min(to.originalHeight, Math.round(clip.cropHeight * scale));
+  const scalePosition = (x: number, y: number) =>
+    constrainCrop(Math.round(x * scale), Math.round(y * scale), cropWidth, cropHeight, to.originalWidth, to.originalHeight);
+
+  const { x: cropX, y: cropY } = scalePosition(clip.cropX, clip.cropY);
+  return {
+    startTime: Math.min(clip.startTime, to.duration),
+    resolution: clip.resolution,
+    cropX,
+    cropY,
+    cropWidth,
+    cropHeight,
+    cropKeyframes: clip.cropKeyframes?.map(keyframe => ({ ...keyframe, ...scalePosition(keyframe.x, keyframe.y) })) ?? null,
+    caption: clip.caption,
+  };
+}
+
+export async function mergeDuplicate(id: number, req: Request) {
+  try {
+    const { intoVideoId } = await req.json();
+
+    if (!Number.isInteger(intoVideoId) || intoVideoId === id) {
+      return Response.json({ error: 'intoVideoId must be the ID of another video' }, { status: 400 });
+    }
+
+    const video = await db.query.videos.findFirst({
+      where: eq(videos.id, id),
+      with: { clips: true },
+    });
+    const target = await db.query.videos.findFirst({
+      where: eq(videos.id, intoVideoId),
+      with: { clips: true },
+    });
+
+    if (!video || !target) {
+      return Response.json({ error: 'Video not found' }, { status: 404 });
+    }
+
+    if (video.datasetId !== target.datasetId) {
+      return Response.json({ error: 'Only videos in the same dataset can be merged' }, { status: 400 });
+    }
+
+    // The duplicate's clips move over (unless the target already has one at that start) and are
+    // processed again, since they now come from another file
+    const movedClips = video.clips
+      .filter(clip => !target.clips.some(existing => Math.abs(existing.startTime - clip.startTime) < SAME_CLIP_TOLERANCE))
+      .map(clip => ({ videoId: target.id, ...scaleClipToVideo(clip, video, target) }));
+
+    if (movedClips.length > 0) {
+      await db.insert(clips).values(movedClips);
+    }
+
+    await removeVideo(video);
+
+    const mergedVideo = await db.query.videos.findFirst({
+      where: eq(videos.id, target.id),
+      with: { clips: true },
+    });
+
+    return Response.json(mergedVideo);
+  } catch (error) {
+    console.error('Error merging duplicate:', error);
+    return Response.json({ error: 'Failed to merge duplicate' }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { db } from '@/db';
+import { datasets } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { subscribeToDataset } from '@/lib/dataset-events';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * Server-Sent Events stream of a dataset's processing updates
+ */
+export async function streamDatasetEvents(datasetId: number, req: Request) {
+  try {
+    const dataset = await db.query.datasets.findFirst({
+      where: eq(datasets.id, datasetId),
+    });
+
+    if (!dataset) {
+      return Response.json({ error: 'Dataset not found' }, { status: 404 });
+    }
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const write = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            // Stream already closed by the client
+            cleanup();
+          }
+        };
+
+        const unsubscribe = subscribeToDataset(datasetId, (event) => {
+          write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+        });
+
+        // Comment lines keep proxies from closing an idle connection
+        const heartbeat = setInterval(() => write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+        cleanup = () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+        };
+
+        req.signal.addEventListener('abort', () => {
+          cleanup();
+          try {
+            controller.close();
+          } catch {
+            // Already closed
+          }
+        });
+
+        write(`event: ready\ndata: ${JSON.stringify({ datasetId })}\n\n`);
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('Error opening dataset event stream:', error);
+    return Response.json({ error: 'Failed to open event stream' }, { status: 500 });
+  }
+}
@@ -0,0 +1,106 @@
+import { db } from '@/db';
+import { datasets } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { findActiveJob } from '@/lib/job-queue';
+import { exportDataset, collectExportItems } from '@/lib/dataset-export';
+import { checkZipLimits, createZipStream, type ZipEntry } from '@/lib/zip-stream';
+import { listExportLayouts, isExportLayoutId } from '@/lib/export-layouts';
+
+export async function listLayouts() {
+  const layouts = listExportLayouts().map(({ id, name, description }) => ({ id, name, description }));
+  return Response.json(layouts);
+}
+
+export async function exportDatasetLayout(datasetId: number, req: Request) {
+  try {
+    const { layout } = await req.json();
+
+    if (!isExportLayoutId(layout)) {
+      return Response.json({ error: 'Unknown export layout' }, { status: 400 });
+    }
+
+    const dataset = await db.query.datasets.findFirst({
+      where: eq(datasets.id, datasetId),
+    });
+
+    if (!dataset) {
+      return Response.json({ error: 'Dataset not found' }, { status: 404 });
+    }
+
+    // Output files are being rewritten while processing runs
+    const activeJob = await findActiveJob(datasetId, 'process-dataset');
+    if (activeJob) {
+      return Response.json({ error: `Dataset is being processed (job ${activeJob.id})` }, { status: 409 });
+    }
+
+    const result = await exportDataset(datasetId, layout);
+    return Response.json(result);
+  } catch (error) {
+    console.error('Error exporting dataset:', error);
+    return Response.json({ error: 'Failed to export dataset' }, { status: 500 });
+  }
+}
+
+export async function downloadDatasetZip(datasetId: number) {
+  try {
+    const collected = await collectExportItems(datasetId);
+
+    if (!collected) {
+      return Response.json({ error: 'Dataset not found' }, { status: 404 });
+    }
+
+    // Output files are being rewritten while processing runs
+    const activeJob = await findActiveJob(datasetId, 'process-dataset');
+    if (activeJob) {
+      return Response.json({ error: `Dataset is being processed (job ${activeJob.id})` }, { status: 409 });
+    }
+
+    const { dataset, items } = collected;
+    if (items.length === 0) {
+      return Response.json({ error: 'Dataset has no processed clips' }, { status: 404 });
+    }
+
+    const manifest = {
+      dataset: dataset.name,
+      triggerWord: dataset.triggerWord,
+      exportedAt: new Date().toISOString(),
+      clips: items.map(item => ({
+        video: `${item.name}.mp4`,
+        caption: `${item.name}.txt`,
+        text: item.caption,
+        width: item.width,
+        height: item.height,
+        fps: item.fps,
+        frameCount: item.frameCount,
+        source: item.sourceFilename,
+        startTime: item.startTime,
+        settings: item.settings,
+      })),
+    };
+
+    const entries: ZipEntry[] = [
+      ...items.flatMap(item => [
+        { name: `${item.name}.mp4`, filepath: item.videoPath },
+        { name: `${item.name}.txt`, data: item.caption },
+      ]),
+      { name: 'manifest.json', data: JSON.stringify(manifest, null, 2) },
+    ];
+
+    // Without ZIP64 an oversized archive would only fail halfway through the download
+    const limitError = checkZipLimits(entries);
+    if (limitError) {
+      return Response.json({ error: limitError }, { status: 413 });
+    }
+
+    const filename = `${dataset.name.replace(/[^\w.-]+/g, '_')}.zip`;
+    return new Response(createZipStream(entries), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error creating dataset archive:', error);
+    return Response.json({ error: 'Failed to create dataset archive' }, { status: 500 });
+  }
+}
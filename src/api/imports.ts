@@ -0,0 +1,130 @@
+import { db } from '@/db';
+import { datasets } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { resolve } from 'path';
+import { InvalidVideoError } from '@/lib/video-metadata';
+import { enqueueNewVideoJobs } from '@/lib/video-import';
+import {
+  IMPORT_EXTENSIONS,
+  IMPORT_MODES,
+  importVideoFile,
+  isDirectory,
+  normalizeExtensions,
+  scanVideoFolder,
+  type ImportMode,
+} from '@/lib/folder-import';
+
+interface FolderOptions {
+  path: string;
+  recursive: boolean;
+  extensions: string[];
+}
+
+// Validate the folder fields shared by scan and import; returns an error message or the options
+async function parseFolderOptions(body: unknown): Promise<FolderOptions | string> {
+  if (typeof body !== 'object' || body === null) {
+    return 'Request body must be a JSON object';
+  }
+
+  const { path: folderPath, recursive, extensions: requestedExtensions } = body as Record<string, unknown>;
+  if (typeof folderPath !== 'string' || !folderPath.trim()) {
+    return 'Folder path is required';
+  }
+
+  const path = resolve(folderPath.trim());
+  if (!(await isDirectory(path))) {
+    return `Not a folder on the server: ${path}`;
+  }
+
+  const extensions = requestedExtensions === undefined ? IMPORT_EXTENSIONS : normalizeExtensions(requestedExtensions);
+  if (!extensions || extensions.length === 0) {
+    return 'Extensions must be a non-empty list such as [".mp4", ".mov"]';
+  }
+
+  return { path, recursive: recursive !== false, extensions };
+}
+
+export async function scanFolder(req: Request) {
+  try {
+    const options = await parseFolderOptions(await req.json());
+    if (typeof options === 'string') {
+      return Response.json({ error: options }, { status: 400 });
+    }
+
+    const files = await scanVideoFolder(options.path, options);
+    return Response.json({ path: options.path, files });
+  } catch (error) {
+    console.error('Error scanning folder:', error);
+    return Response.json({ error: 'Failed to scan folder' }, { status: 500 });
+  }
+}
+
+export async function importFolder(datasetId: number, req: Request) {
+  try {
+    const body: unknown = await req.json();
+    const options = await parseFolderOptions(body);
+    if (typeof options === 'string') {
+      return Response.json({ error: options }, { status: 400 });
+    }
+
+    // parseFolderOptions has checked that the body is an object
+    const { mode = 'reference', files } = body as Record<string, unknown>;
+    if (!IMPORT_MODES.includes(mode as ImportMode)) {
+      return Response.json({ error: `Mode must be one of: ${IMPORT_MODES.join(', ')}` }, { status: 400 });
+    }
+    const importMode = mode as ImportMode;
+
+    if (files !== undefined && (!Array.isArray(files) || !files.every(file => typeof file === 'string'))) {
+      return Response.json({ error: 'Files must be a list of paths relative to the folder' }, { status: 400 });
+    }
+
+    const dataset = await db.query.datasets.findFirst({
+      where: eq(datasets.id, datasetId),
+    });
+
+    if (!dataset) {
+      return Response.json({ error: 'Dataset not found' }, { status: 404 });
+    }
+
+    // Only files the scan finds can be imported, so a selection can't reach outside the folder
+    const scannedFiles = await scanVideoFolder(options.path, options);
+    const selectedFiles = files
+      ? scannedFiles.filter(file => (files as string[]).includes(file.relativePath))
+      : scannedFiles;
+
+    if (selectedFiles.length === 0) {
+      return Response.json({ error: 'No matching video files in the folder' }, { status: 400 });
+    }
+
+    // One result per file, like uploads; a bad file doesn't stop the others
+    const results = [];
+    const newVideos = [];
+
+    for (const file of selectedFiles) {
+      try {
+        const newVideo = await importVideoFile(dataset, file, importMode);
+        newVideos.push(newVideo);
+        results.push({ filename: file.relativePath, status: 'accepted' as const, video: newVideo });
+      } catch (error) {
+        console.error(`Error importing ${file.path}:`, error);
+        const code = (error as NodeJS.ErrnoException).code;
+        results.push({
+          filename: file.relativePath,
+          status: 'rejected' as const,
+          error: error instanceof InvalidVideoError
+            ? error.message
+            : code === 'EXDEV'
+              ? 'Hardlinks only work on the same disk as uploads/, use copy instead'
+              : 'Failed to import video',
+        });
+      }
+    }
+
+    await enqueueNewVideoJobs(datasetId, newVideos);
+
+    return Response.json(results);
+  } catch (error) {
+    console.error('Error importing folder:', error);
+    return Response.json({ error: 'Failed to import folder' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { db } from '@/db';
+import { jobs } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { findJobs, cancelJob as cancelQueuedJob } from '@/lib/job-queue';
+
+export async function listJobs(req: Request) {
+  try {
+    const url = new URL(req.url);
+    const datasetIdParam = url.searchParams.get('datasetId');
+    const datasetId = datasetIdParam ? parseInt(datasetIdParam) : undefined;
+
+    if (datasetId !== undefined && isNaN(datasetId)) {
+      return Response.json({ error: 'Invalid dataset ID' }, { status: 400 });
+    }
+
+    const result = await findJobs({
+      datasetId,
+      activeOnly: url.searchParams.get('active') === 'true',
+    });
+
+    return Response.json(result);
+  } catch (error) {
+    console.error('Error listing jobs:', error);
+    return Response.json({ error: 'Failed to list jobs' }, { status: 500 });
+  }
+}
+
+export async function getJob(id: number) {
+  try {
+    const job = await db.query.jobs.findFirst({
+      where: eq(jobs.id, id),
+    });
+
+    if (!job) {
+      return Response.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    return Response.json(job);
+  } catch (error) {
+    console.error('Error getting job:', error);
+    return Response.json({ error: 'Failed to get job' }, { status: 500 });
+  }
+}
+
+export async function cancelJob(id: number) {
+  try {
+    const job = await cancelQueuedJob(id);
+
+    if (!job) {
+      return Response.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    if (job.status !== 'cancelled') {
+      return Response.json({ error: `Job is already ${job.status}` }, { status: 409 });
+    }
+
+    return Response.json(job);
+  } catch (error) {
+    console.error('Error cancelling job:', error);
+    return Response.json({ error: 'Failed to cancel job' }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { db } from '@/db';
+import { processingPresets } from '@/db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { resolveProcessingSettings, validateProcessingSettings } from '@/lib/processing-settings';
+import type { ProcessingSettings } from '@/types';
+
+export async function listPresets() {
+  try {
+    const result = await db.query.processingPresets.findMany({
+      orderBy: asc(processingPresets.id),
+    });
+
+    // Presets saved before a setting existed pick up its default
+    return Response.json(result.map(preset => ({ ...preset, settings: resolveProcessingSettings(preset.settings) })));
+  } catch (error) {
+    console.error('Error listing processing presets:', error);
+    return Response.json({ error: 'Failed to list processing presets' }, { status: 500 });
+  }
+}
+
+export async function createPreset(req: Request) {
+  try {
+    const { name, settings } = await req.json();
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return Response.json({ error: 'Preset name is required' }, { status: 400 });
+    }
+    if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+      return Response.json({ error: 'Preset settings are required' }, { status: 400 });
+    }
+
+    // Only the encoding settings are kept; anything left out falls back to the defaults
+    const presetSettings = resolveProcessingSettings(settings as Partial<ProcessingSettings>);
+    const error = validateProcessingSettings(presetSettings);
+    if (error) {
+      return Response.json({ error }, { status: 400 });
+    }
+
+    const existingPreset = await db.query.processingPresets.findFirst({
+      where: eq(processingPresets.name, name.trim()),
+    });
+
+    if (existingPreset) {
+      return Response.json({ error: `A preset named "${name.trim()}" already exists` }, { status: 409 });
+    }
+
+    const [newPreset] = await db
+      .insert(processingPresets)
+      .values({ name: name.trim(), settings: presetSettings })
+      .returning();
+
+    return Response.json(newPreset);
+  } catch (error) {
+    console.error('Error creating processing preset:', error);
+    return Response.json({ error: 'Failed to create processing preset' }, { status: 500 });
+  }
+}
+
+export async function deletePreset(id: number) {
+  try {
+    const [deletedPreset] = await db
+      .delete(processingPresets)
+      .where(eq(processingPresets.id, id))
+      .returning();
+
+    if (!deletedPreset) {
+      return Response.json({ error: 'Preset not found' }, { status: 404 });
+    }
+
+    return Response.json({ message: 'Preset deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting processing preset:', error);
+    return Response.json({ error: 'Failed to delete processing preset' }, { status: 500 });
+  }
+}
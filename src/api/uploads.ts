@@ -0,0 +1,195 @@
+import { db } from '@/db';
+import { datasets, uploads, type Upload } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { mkdir, open, rename, rm, truncate } from 'fs/promises';
+import { dirname } from 'path';
+import { InvalidVideoError } from '@/lib/video-metadata';
+import { createVideoFromFile, enqueueNewVideoJobs, getUploadPath } from '@/lib/video-import';
+
+// Clients send files in pieces of at most this size, well under the server's request body limit
+export const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024;
+
+// What clients see of an upload; the partial file's location stays on the server
+function toUploadStatus({ tempPath, ...upload }: Upload) {
+  return { ...upload, chunkSize: UPLOAD_CHUNK_SIZE };
+}
+
+export async function createUpload(datasetId: number, req: Request) {
+  try {
+    const { filename, size } = await req.json();
+
+    if (typeof filename !== 'string' || !filename.trim()) {
+      return Response.json({ error: 'Filename is required' }, { status: 400 });
+    }
+    if (!Number.isInteger(size) || size <= 0) {
+      return Response.json({ error: 'Size must be a positive number of bytes' }, { status: 400 });
+    }
+
+    const dataset = await db.query.datasets.findFirst({
+      where: eq(datasets.id, datasetId),
+    });
+
+    if (!dataset) {
+      return Response.json({ error: 'Dataset not found' }, { status: 404 });
+    }
+
+    // Partial files sit next to the dataset's uploads so finishing one is a rename on the same disk
+    const randomString = Math.random().toString(36).substring(2, 8);
+    const tempPath = `uploads/${datasetId}/.partial/${Date.now()}_${randomString}.part`;
+    await mkdir(dirname(tempPath), { recursive: true });
+    await Bun.write(tempPath, '');
+
+    const [upload] = await db
+      .insert(uploads)
+      .values({ datasetId, filename: filename.trim(), size, tempPath })
+      .returning();
+
+    return Response.json(toUploadStatus(upload!), { status: 201 });
+  } catch (error) {
+    console.error('Error creating upload:', error);
+    return Response.json({ error: 'Failed to create upload' }, { status: 500 });
+  }
+}
+
+export async function getUpload(id: number) {
+  try {
+    const upload = await db.query.uploads.findFirst({
+      where: eq(uploads.id, id),
+    });
+
+    if (!upload) {
+      return Response.json({ error: 'Upload not found' }, { status: 404 });
+    }
+
+    return Response.json(toUploadStatus(upload));
+  } catch (error) {
+    console.error('Error getting upload:', error);
+    return Response.json({ error: 'Failed to get upload' }, { status: 500 });
+  }
+}
+
+export async function uploadChunk(id: number, req: Request) {
+  try {
+    const upload = await db.query.uploads.findFirst({
+      where: eq(uploads.id, id),
+    });
+
+    if (!upload) {
+      return Response.json({ error: 'Upload not found' }, { status: 404 });
+    }
+
+    const offset = Number(new URL(req.url).searchParams.get('offset'));
+    if (!Number.isInteger(offset) || offset < 0) {
+      return Response.json({ error: 'Offset must be a non-negative integer' }, { status: 400 });
+    }
+
+    // Chunks are appended in order; a client that lost track (e.g. a response that never arrived)
+    // gets the current position back and continues from there
+    if (offset !== upload.receivedBytes) {
+      return Response.json(
+        { error: `Expected a chunk at offset ${upload.receivedBytes}`, receivedBytes: upload.receivedBytes },
+        { status: 409 }
+      );
+    }
+
+    const chunk = new Uint8Array(await req.arrayBuffer());
+    if (chunk.length === 0) {
+      return Response.json({ error: 'Chunk is empty' }, { status: 400 });
+    }
+    if (chunk.length > UPLOAD_CHUNK_SIZE) {
+      return Response.json({ error: `Chunks must be at most ${UPLOAD_CHUNK_SIZE} bytes` }, { status: 413 });
+    }
+    if (offset + chunk.length > upload.size) {
+      return Response.json({ error: 'Chunk runs past the end of the file' }, { status: 400 });
+    }
+
+    // Write at the offset rather than appending, so bytes left over from an interrupted write are overwritten
+    const handle = await open(upload.tempPath, 'r+');
+    try {
+      await handle.write(chunk, 0, chunk.length, offset);
+    } finally {
+      await handle.close();
+    }
+
+    const [updatedUpload] = await db
+      .update(uploads)
+      .set({ receivedBytes: offset + chunk.length })
+      .where(eq(uploads.id, id))
+      .returning();
+
+    return Response.json(toUploadStatus(updatedUpload!));
+  } catch (error) {
+    console.error('Error writing upload chunk:', error);
+    return Response.json({ error: 'Failed to write upload chunk' }, { status: 500 });
+  }
+}
+
+export async function finalizeUpload(id: number) {
+  try {
+    const upload = await db.query.uploads.findFirst({
+      where: eq(uploads.id, id),
+    });
+
+    if (!upload) {
+      return Response.json({ error: 'Upload not found' }, { status: 404 });
+    }
+
+    if (upload.receivedBytes < upload.size) {
+      return Response.json(
+        { error: `Upload is incomplete (${upload.receivedBytes} of ${upload.size} bytes)`, receivedBytes: upload.receivedBytes },
+        { status: 409 }
+      );
+    }
+
+    const dataset = await db.query.datasets.findFirst({
+      where: eq(datasets.id, upload.datasetId),
+    });
+
+    if (!dataset) {
+      return Response.json({ error: 'Dataset not found' }, { status: 404 });
+    }
+
+    // Drop anything an interrupted write left past the end, then move the file into place
+    const filepath = getUploadPath(upload.datasetId, upload.filename);
+    await truncate(upload.tempPath, upload.size);
+    await rename(upload.tempPath, filepath);
+    await db.delete(uploads).where(eq(uploads.id, id));
+
+    let newVideo;
+    try {
+      newVideo = await createVideoFromFile(dataset, upload.filename, filepath);
+    } catch (error) {
+      await rm(filepath, { force: true });
+      if (error instanceof InvalidVideoError) {
+        return Response.json({ error: error.message }, { status: 422 });
+      }
+      throw error;
+    }
+    await enqueueNewVideoJobs(upload.datasetId, [newVideo]);
+
+    return Response.json(newVideo, { status: 201 });
+  } catch (error) {
+    console.error('Error finalizing upload:', error);
+    return Response.json({ error: 'Failed to finalize upload' }, { status: 500 });
+  }
+}
+
+export async function cancelUpload(id: number) {
+  try {
+    const upload = await db.query.uploads.findFirst({
+      where: eq(uploads.id, id),
+    });
+
+    if (!upload) {
+      return Response.json({ error: 'Upload not found' }, { status: 404 });
+    }
+
+    await rm(upload.tempPath, { force: true });
+    await db.delete(uploads).where(eq(uploads.id, id));
+
+    return Response.json({ message: 'Upload cancelled' });
+  } catch (error) {
+    console.error('Error cancelling upload:', error);
+    return Response.json({ error: 'Failed to cancel upload' }, { status: 500 });
+  }
+}
@@ -1,13 +1,36 @@
 import { db } from '@/db';
-import { videos, datasets } from '@/db/schema';
+import { videos, datasets, clips, type NewVideo, type Video } from '@/db/schema';
 import { eq } from 'drizzle-orm';
-import { extractVideoMetadata } from '@/lib/video-metadata';
-import { computeCropSizeForResolution, centerCrop } from '@/lib/video-utils';
+import { rm } from 'fs/promises';
+import { validateResolution } from '@/lib/resolutions';
+import { enqueueJob } from '@/lib/job-queue';
+import { deleteVideoPreviews } from '@/lib/video-previews';
+import { InvalidVideoError } from '@/lib/video-metadata';
+import { serveStaticFile } from '@/lib/static-files';
+import { createVideoFromFile, enqueueNewVideoJobs, getUploadPath } from '@/lib/video-import';
+import { resolveProcessingSettings } from '@/lib/processing-settings';
+import { getClipEndTime, suggestClipStart } from '@/lib/video-utils';
+
+// Video fields the client is allowed to change; paths, flags and the dataset are server-owned
+const EDITABLE_FIELDS = ['startTime', 'resolution', 'cropX', 'cropY', 'cropWidth', 'cropHeight'] as const;
+
+function pickEditableFields(body: Record<string, unknown>): Partial<NewVideo> {
+  const updates: Record<string, unknown> = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] !== undefined) {
+      updates[field] = body[field];
+    }
+  }
+  return updates as Partial<NewVideo>;
+}
 
 export async function getVideo(id: number) {
   try {
     const video = await db.query.videos.findFirst({
       where: eq(videos.id, id),
+      with: {
+        clips: true,
+      },
     });
 
     if (!video) {
@@ -23,8 +46,8 @@ export async function getVideo(id: number) {
 
 export async function updateVideo(id: number, req: Request) {
   try {
-    const updates = await req.json();
-    
+    const updates = pickEditableFields(await req.json());
+
     // Validate that video exists
     const existingVideo = await db.query.videos.findFirst({
       where: eq(videos.id, id),
@@ -34,6 +57,17 @@ export async function updateVideo(id: number, req: Request) {
       return Response.json({ error: 'Video not found' }, { status: 404 });
     }
 
+    if (Object.keys(updates).length === 0) {
+      return Response.json(existingVideo);
+    }
+
+    if (updates.resolution !== undefined) {
+      const error = typeof updates.resolution === 'string' ? validateResolution(updates.resolution) : 'Resolution must be a string';
+      if (error) {
+        return Response.json({ error }, { status: 400 });
+      }
+    }
+
     // Update the video
     const [updatedVideo] = await db
       .update(videos)
@@ -48,6 +82,37 @@ export async function updateVideo(id: number, req: Request) {
   }
 }
 
+/**
+ * Delete a video with its file, previews and clips
+ */
+export async function removeVideo(video: Video) {
+  // Delete the video file from filesystem (files imported in place belong to the user)
+  if (!video.isExternal) {
+    try {
+      const file = Bun.file(video.filepath);
+      await file.delete();
+    } catch (fileError) {
+      console.warn('Could not delete video file:', video.filepath, fileError);
+      // Continue with database deletion even if file deletion fails
+    }
+  }
+
+  try {
+    await deleteVideoPreviews(video);
+  } catch (fileError) {
+    console.warn('Could not delete video previews:', video.id, fileError);
+  }
+
+  // Delete the video's clips, then the video itself
+  await db
+    .delete(clips)
+    .where(eq(clips.videoId, video.id));
+
+  await db
+    .delete(videos)
+    .where(eq(videos.id, video.id));
+}
+
 export async function deleteVideo(id: number) {
   try {
     // Get video details before deletion to access file path
@@ -59,19 +124,7 @@ export async function deleteVideo(id: number) {
       return Response.json({ error: 'Video not found' }, { status: 404 });
     }
 
-    // Delete the video file from filesystem
-    try {
-      const file = Bun.file(existingVideo.filepath);
-      await file.delete();
-    } catch (fileError) {
-      console.warn('Could not delete video file:', existingVideo.filepath, fileError);
-      // Continue with database deletion even if file deletion fails
-    }
-
-    // Delete the video from database
-    await db
-      .delete(videos)
-      .where(eq(videos.id, id));
+    await removeVideo(existingVideo);
 
     return Response.json({ message: 'Video deleted successfully' });
   } catch (error) {
@@ -80,6 +133,131 @@ export async function deleteVideo(id: number) {
   }
 }
 
+export async function serveVideoSource(id: number, req: Request) {
+  try {
+    const video = await db.query.videos.findFirst({
+      where: eq(videos.id, id),
+    });
+
+    if (!video) {
+      return Response.json({ error: 'Video not found' }, { status: 404 });
+    }
+
+    // Serves the file by its stored path, which is how videos imported from a folder outside uploads/ are played
+    const response = await serveStaticFile(req, video.filepath);
+    return response ?? Response.json({ error: 'Video file not found' }, { status: 404 });
+  } catch (error) {
+    console.error('Error serving video source:', error);
+    return Response.json({ error: 'Failed to serve video' }, { status: 500 });
+  }
+}
+
+export async function detectVideoScenes(id: number) {
+  try {
+    // Clear the old cuts so the player shows the video as not analysed until the job finishes
+    const [video] = await db
+      .update(videos)
+      .set({ sceneCuts: null })
+      .where(eq(videos.id, id))
+      .returning();
+
+    if (!video) {
+      return Response.json({ error: 'Video not found' }, { status: 404 });
+    }
+
+    const job = await enqueueJob('detect-scenes', video.datasetId, { videoIds: [video.id] }, { totalCount: 1 });
+    return Response.json(job);
+  } catch (error) {
+    console.error('Error starting scene detection:', error);
+    return Response.json({ error: 'Failed to start scene detection' }, { status: 500 });
+  }
+}
+
+export async function analyzeVideoMotion(id: number) {
+  try {
+    // Clear the old energy so the player shows the video as not analysed until the job finishes
+    const [video] = await db
+      .update(videos)
+      .set({ motionEnergy: null })
+      .where(eq(videos.id, id))
+      .returning();
+
+    if (!video) {
+      return Response.json({ error: 'Video not found' }, { status: 404 });
+    }
+
+    const job = await enqueueJob('analyze-motion', video.datasetId, { videoIds: [video.id] }, { totalCount: 1 });
+    return Response.json(job);
+  } catch (error) {
+    console.error('Error starting motion analysis:', error);
+    return Response.json({ error: 'Failed to start motion analysis' }, { status: 500 });
+  }
+}
+
+export async function getVideoMotion(id: number) {
+  try {
+    const video = await db.query.videos.findFirst({
+      where: eq(videos.id, id),
+      with: {
+        dataset: true,
+      },
+    });
+
+    if (!video) {
+      return Response.json({ error: 'Video not found' }, { status: 404 });
+    }
+
+    // The window length comes from the dataset's processing settings
+    const settings = resolveProcessingSettings(video.dataset.processingConfig);
+    const suggestion = suggestClipStart(video.motionEnergy, video.sceneCuts, video.duration, settings);
+
+    return Response.json({
+      motionEnergy: video.motionEnergy,
+      sceneCuts: video.sceneCuts,
+      suggestion: suggestion && { ...suggestion, endTime: getClipEndTime(suggestion, settings) },
+    });
+  } catch (error) {
+    console.error('Error getting video motion:', error);
+    return Response.json({ error: 'Failed to get video motion' }, { status: 500 });
+  }
+}
+
+export async function checkVideoQuality(id: number) {
+  try {
+    const video = await db.query.videos.findFirst({
+      where: eq(videos.id, id),
+    });
+
+    if (!video) {
+      return Response.json({ error: 'Video not found' }, { status: 404 });
+    }
+
+    const job = await enqueueJob('check-quality', video.datasetId, { videoIds: [video.id] }, { totalCount: 1 });
+    return Response.json(job);
+  } catch (error) {
+    console.error('Error starting quality check:', error);
+    return Response.json({ error: 'Failed to start quality check' }, { status: 500 });
+  }
+}
+
+export async function autoCropVideo(id: number) {
+  try {
+    const video = await db.query.videos.findFirst({
+      where: eq(videos.id, id),
+    });
+
+    if (!video) {
+      return Response.json({ error: 'Video not found' }, { status: 404 });
+    }
+
+    const job = await enqueueJob('auto-crop', video.datasetId, { videoIds: [video.id] }, { totalCount: 1 });
+    return Response.json(job);
+  } catch (error) {
+    console.error('Error starting auto-crop:', error);
+    return Response.json({ error: 'Failed to start auto-crop' }, { status: 500 });
+  }
+}
+
 export async function uploadVideos(datasetId: number, req: Request) {
   try {
     const formData = await req.formData();
@@ -102,106 +280,33 @@ export async function uploadVideos(datasetId: number, req: Request) {
     const uploadsDir = `uploads/${datasetId}`;
     await Bun.write(`${uploadsDir}/.keep`, ''); // Ensure directory exists
 
+    // One result per file, in upload order; a bad file doesn't stop the others
+    const results = [];
     const newVideos = [];
     
     for (const file of files) {
-      // Generate unique filename to avoid conflicts
-      const timestamp = Date.now();
-      const randomString = Math.random().toString(36).substring(2, 8);
-      const extension = file.name.split('.').pop() || 'mp4';
-      const uniqueFilename = `${timestamp}_${randomString}.${extension}`;
-      const filepath = `uploads/${datasetId}/${uniqueFilename}`;
-      
-      // Save the file to disk
-      await Bun.write(filepath, file);
-      
-      // Extract real video metadata using ffprobe
-      let duration = 16.0; // Default fallback
-      let originalWidth = 1920; // Default fallback
-      let originalHeight = 1080; // Default fallback
-      let fps: number | undefined;
-      let frameCount: number | undefined;
-      
+      // Save the file to disk under a unique name to avoid conflicts
+      const filepath = getUploadPath(datasetId, file.name);
       try {
-        const metadata = await extractVideoMetadata(filepath);
-        duration = metadata.duration;
-        originalWidth = metadata.width;
-        originalHeight = metadata.height;
-        fps = metadata.fps;
-        frameCount = metadata.frameCount;
-        
-        console.log(`Extracted metadata for ${file.name}:`, {
-          duration,
-          originalWidth,
-          originalHeight,
-          fps,
-          frameCount,
-          aspectRatio: originalWidth / originalHeight
-        });
+        await Bun.write(filepath, file);
+        const newVideo = await createVideoFromFile(dataset, file.name, filepath);
+        newVideos.push(newVideo);
+        results.push({ filename: file.name, status: 'accepted' as const, video: newVideo });
       } catch (error) {
-        console.error(`Failed to extract metadata for ${file.name}:`, error);
-        // Continue with default values as fallback
+        console.error(`Error uploading ${file.name}:`, error);
+        await rm(filepath, { force: true });
+        results.push({
+          filename: file.name,
+          status: 'rejected' as const,
+          error: error instanceof InvalidVideoError ? error.message : 'Failed to save video',
+        });
       }
+    }
 
-      const aspectRatio = originalWidth / originalHeight;
-      let resolution: '1280x720' | '720x1280' | '768x768' = '720x1280'; // Default to portrait
-      
-      if (Math.abs(aspectRatio - 1) < 0.2) {
-        // Square-ish (within 20% of 1:1)
-        resolution = '768x768';
-      } else if (aspectRatio > 1) {
-        // Landscape (wider than tall)
-        resolution = '1280x720';
-      }
-      // Portrait videos (aspectRatio < 1) keep the default values above
-      
-      console.log(`Resolution assignment for ${file.name}:`, {
-        aspectRatio,
-        resolution,
-        originalDimensions: `${originalWidth}x${originalHeight}`
-      });
-      
-      // Calculate correct crop dimensions for the chosen resolution
-      const { width: cropWidth, height: cropHeight } = computeCropSizeForResolution(
-        resolution,
-        originalWidth,
-        originalHeight
-      );
-      
-      // Calculate centered crop position
-      const { x: cropX, y: cropY } = centerCrop(cropWidth, cropHeight, originalWidth, originalHeight);
-
-      console.log(`Computed crop for ${file.name}:`, {
-        cropWidth,
-        cropHeight,
-        cropX,
-        cropY
-      });
-
-      const [newVideo] = await db
-        .insert(videos)
-        .values({
-          datasetId,
-          filename: file.name,
-          filepath: filepath,
-          duration,
-          originalWidth,
-          originalHeight,
-          resolution,
-          cropX,
-          cropY,
-          cropWidth,
-          cropHeight,
-          fps,
-          frameCount,
-          status: 'pending',
-        })
-        .returning();
-      
-      newVideos.push(newVideo);
-    }
-
-    return Response.json(newVideos);
+    // Previews and scene cuts are made in the background so the upload returns as soon as the files are saved
+    await enqueueNewVideoJobs(datasetId, newVideos);
+
+    return Response.json(results);
   } catch (error) {
     console.error('Error uploading videos:', error);
     return Response.json({ error: 'Failed to upload videos' }, { status: 500 });
@@ -0,0 +1,210 @@
+import { useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, ArrowLeft, CheckCircle, Pause, Play } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatTime, getPlaybackPath, getVideoUrl } from '@/lib/video-utils';
+import { interpolateCropPosition } from '@/lib/crop-keyframes';
+import { useClipOutput } from '@/hooks/useQueries';
+import type { Clip, Video } from '@/types';
+
+interface ClipOutputPreviewProps {
+  video: Video;
+  clip: Clip;
+  onClose: () => void;
+}
+
+// Source playback is nudged back into step once it drifts further than this (seconds)
+const MAX_DRIFT = 0.1;
+
+export function ClipOutputPreview({ video, clip, onClose }: ClipOutputPreviewProps) {
+  const { data: output, isLoading, error } = useClipOutput(clip.id);
+  const sourceRef = useRef<HTMLVideoElement>(null);
+  const outputRef = useRef<HTMLVideoElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [outputTime, setOutputTime] = useState(0);
+
+  // Keyframed crops move, so the source outline follows the output's playhead
+  const cropPosition = clip.cropKeyframes
+    ? interpolateCropPosition(clip.cropKeyframes, outputTime) ?? { x: clip.cropX, y: clip.cropY }
+    : { x: clip.cropX, y: clip.cropY };
+
+  const syncSource = (time: number) => {
+    const source = sourceRef.current;
+    if (source && Math.abs(source.currentTime - (clip.startTime + time)) > MAX_DRIFT) {
+      source.currentTime = clip.startTime + time;
+    }
+  };
+
+  const handleOutputTimeUpdate = () => {
+    const time = outputRef.current?.currentTime ?? 0;
+    setOutputTime(time);
+    syncSource(time);
+  };
+
+  const togglePlayPause = async () => {
+    const source = sourceRef.current;
+    const outputVideo = outputRef.current;
+    if (!source || !outputVideo) return;
+
+    if (isPlaying) {
+      source.pause();
+      outputVideo.pause();
+      setIsPlaying(false);
+      return;
+    }
+
+    syncSource(outputVideo.currentTime);
+    try {
+      await Promise.all([outputVideo.play(), source.play()]);
+      setIsPlaying(true);
+    } catch (playError) {
+      console.error('Failed to play preview:', playError);
+    }
+  };
+
+  const handleEnded = () => {
+    sourceRef.current?.pause();
+    if (outputRef.current) outputRef.current.currentTime = 0;
+    syncSource(0);
+    setIsPlaying(false);
+  };
+
+  const rows = output
+    ? [
+        {
+          label: 'Resolution',
+          expected: `${output.expected.width}×${output.expected.height}`,
+          actual: output.actual ? `${output.actual.width}×${output.actual.height}` : '—',
+        },
+        {
+          label: 'FPS',
+          expected: String(output.expected.fps),
+          actual: output.actual?.fps !== undefined ? String(Math.round(output.actual.fps * 100) / 100) : '—',
+        },
+        {
+          label: 'Frames',
+          expected: String(output.expected.frameCount),
+          actual: output.actual?.frameCount !== undefined ? String(output.actual.frameCount) : '—',
+        },
+      ]
+    : [];
+
+  return (
+    <Card className="flex-grow" data-testid="clip-output-preview">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Output preview{output && ` • ${output.name}.mp4`}</CardTitle>
+            <CardDescription>
+              {video.filename} from {formatTime(clip.startTime)}
+            </CardDescription>
+          </div>
+          <Button size="sm" variant="outline" onClick={onClose}>
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Editor
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <p className="text-sm text-muted-foreground">Loading output...</p>}
+        {error && <p className="text-sm text-red-600">Error: {error.message}</p>}
+
+        {output && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <p className="text-xs font-medium text-muted-foreground">Source window</p>
+                <div className="relative bg-black rounded-lg overflow-hidden">
+                  <video
+                    ref={sourceRef}
+                    src={getVideoUrl(getPlaybackPath(video))}
+                    muted
+                    className="w-full h-72 object-contain"
+                    onLoadedMetadata={() => syncSource(outputTime)}
+                  />
+                  {/* Same aspect fit as the video, so the rectangle lands on the cropped area */}
+                  <svg
+                    className="absolute inset-0 w-full h-full pointer-events-none"
+                    viewBox={`0 0 ${video.originalWidth} ${video.originalHeight}`}
+                    preserveAspectRatio="xMidYMid meet"
+                  >
+                    <rect
+                      x={cropPosition.x}
+                      y={cropPosition.y}
+                      width={clip.cropWidth}
+                      height={clip.cropHeight}
+                      fill="none"
+                      stroke="white"
+                      strokeWidth={Math.max(2, video.originalWidth / 400)}
+                      strokeDasharray="8 6"
+                    />
+                  </svg>
+                </div>
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs font-medium text-muted-foreground">Processed output</p>
+                <div className="bg-black rounded-lg overflow-hidden">
+                  <video
+                    key={output.url}
+                    ref={outputRef}
+                    src={getVideoUrl(output.url)}
+                    className="w-full h-72 object-contain"
+                    onTimeUpdate={handleOutputTimeUpdate}
+                    onEnded={handleEnded}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-4">
+              <Button size="sm" onClick={togglePlayPause}>
+                {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                {formatTime(outputTime)} / {formatTime(output.expected.frameCount / output.expected.fps)}
+              </span>
+            </div>
+
+            <table className="w-full text-sm" data-testid="output-metadata">
+              <thead>
+                <tr className="text-left text-xs text-muted-foreground">
+                  <th className="font-medium py-1"></th>
+                  <th className="font-medium py-1">Configured</th>
+                  <th className="font-medium py-1">Output file</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.label} className="border-t border-border/50">
+                    <td className="py-1 text-muted-foreground">{row.label}</td>
+                    <td className="py-1 font-mono">{row.expected}</td>
+                    <td className={cn("py-1 font-mono", row.actual !== row.expected && "text-yellow-600 dark:text-yellow-400")}>
+                      {row.actual}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {output.mismatches.length === 0 ? (
+              <p className="flex items-center gap-1 text-xs text-green-600 dark:text-green-400">
+                <CheckCircle className="h-3 w-3" />
+                Output matches the processing settings
+              </p>
+            ) : (
+              <div className="space-y-1">
+                {output.mismatches.map(mismatch => (
+                  <p key={mismatch} className="flex items-start gap-1 text-xs text-yellow-600 dark:text-yellow-400">
+                    <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                    {mismatch}
+                  </p>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
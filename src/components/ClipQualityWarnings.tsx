@@ -0,0 +1,56 @@
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, CheckCircle, Gauge } from 'lucide-react';
+import { QUALITY_CHECKS } from '@/lib/quality-checks';
+import { formatTime } from '@/lib/video-utils';
+import type { Clip } from '@/types';
+
+interface ClipQualityWarningsProps {
+  clip: Clip;
+  isChecking: boolean;
+  // Queue a quality check of every clip of the video
+  onCheck: () => void;
+}
+
+export function ClipQualityWarnings({ clip, isChecking, onCheck }: ClipQualityWarningsProps) {
+  const { quality } = clip;
+  const failedChecks = quality ? QUALITY_CHECKS.filter(check => quality.issues.includes(check.id)) : [];
+
+  return (
+    <div className="space-y-1 text-xs" data-testid="clip-quality">
+      <div className="flex items-center justify-between text-muted-foreground">
+        <span>
+          {quality
+            ? `Quality checked for ${formatTime(quality.startTime)}–${formatTime(quality.startTime + quality.duration)}`
+            : 'Quality not checked yet'}
+        </span>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-6 px-2 text-xs"
+          onClick={onCheck}
+          disabled={isChecking}
+          title="Check this video's clips for black, frozen, static, interlaced, blurry, letterboxed or low-bitrate footage"
+        >
+          <Gauge className="h-3 w-3 mr-1" />
+          {isChecking ? 'Queuing...' : quality ? 'Check again' : 'Check'}
+        </Button>
+      </div>
+      {quality && failedChecks.length === 0 && (
+        <p className="flex items-center gap-1 text-green-600 dark:text-green-400">
+          <CheckCircle className="h-3 w-3 shrink-0" />
+          No quality problems found
+        </p>
+      )}
+      {failedChecks.map(check => (
+        <p
+          key={check.id}
+          className="flex items-start gap-1 text-yellow-600 dark:text-yellow-400"
+          data-testid={`quality-issue-${check.id}`}
+        >
+          <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+          {check.describe(quality!)}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { Button } from '@/components/ui/button';
+import { Plus, Scissors, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatTime, getClipEndTime, getStatusColor, isClipTruncated } from '@/lib/video-utils';
+import type { Clip, ProcessingSettings } from '@/types';
+
+interface ClipTimelineProps {
+  clips: Clip[];
+  duration: number;
+  processingSettings: ProcessingSettings;
+  currentTime: number;
+  selectedClipId: number;
+  isBusy: boolean;
+  onSelectClip: (clip: Clip) => void;
+  onAddClip: () => void;
+  onRemoveClip: (clip: Clip) => void;
+  onSplitScenes: () => void;
+}
+
+export function ClipTimeline({
+  clips,
+  duration,
+  processingSettings,
+  currentTime,
+  selectedClipId,
+  isBusy,
+  onSelectClip,
+  onAddClip,
+  onRemoveClip,
+  onSplitScenes
+}: ClipTimelineProps) {
+  const toPercent = (time: number) => (duration > 0 ? Math.min(100, (time / duration) * 100) : 0);
+  const selectedClip = clips.find(clip => clip.id === selectedClipId);
+
+  return (
+    <div className="space-y-2" data-testid="clip-timeline">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">
+          Clips <span className="text-muted-foreground font-normal">({clips.length})</span>
+        </span>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={onSplitScenes}
+            disabled={isBusy}
+            title="Replace the clips with one clip per scene"
+          >
+            <Scissors className="h-4 w-4 mr-1" />
+            Split into scenes
+          </Button>
+          <Button size="sm" variant="outline" onClick={onAddClip} disabled={isBusy}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add at {formatTime(currentTime)}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => selectedClip && onRemoveClip(selectedClip)}
+            disabled={isBusy || !selectedClip || clips.length <= 1}
+            className="text-destructive hover:text-destructive"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Each clip is drawn as a segment covering the frames it will produce */}
+      <div className="relative h-8 rounded-md bg-muted">
+        {clips.map((clip, index) => {
+          const endTime = getClipEndTime(clip, processingSettings);
+          const left = toPercent(clip.startTime);
+          const width = Math.max(0.5, toPercent(endTime) - left);
+          const isSelected = clip.id === selectedClipId;
+          const isShort = isClipTruncated(clip, duration, processingSettings);
+          return (
+            <button
+              key={clip.id}
+              type="button"
+              title={`Clip ${index + 1}: ${formatTime(clip.startTime)} – ${formatTime(Math.min(duration, endTime))}${isShort ? ' (runs past the end of the video)' : ''}`}
+              onClick={() => onSelectClip(clip)}
+              className={cn(
+                "absolute top-1 bottom-1 rounded-sm border text-[10px] font-medium overflow-hidden transition-colors",
+                isSelected
+                  ? "bg-primary/40 border-primary text-primary-foreground z-10"
+                  : "bg-primary/15 border-primary/30 hover:bg-primary/25",
+                isShort && "border-yellow-500 border-dashed"
+              )}
+              style={{ left: `${left}%`, width: `${width}%` }}
+            >
+              <span className={cn("px-1", getStatusColor(clip.status))}>{index + 1}</span>
+            </button>
+          );
+        })}
+
+        {/* Playhead */}
+        <div
+          className="absolute top-0 bottom-0 w-px bg-foreground/70 pointer-events-none z-20"
+          style={{ left: `${toPercent(currentTime)}%` }}
+        />
+      </div>
+    </div>
+  );
+}
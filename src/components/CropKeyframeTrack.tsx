@@ -0,0 +1,119 @@
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Diamond, Trash2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatTime } from '@/lib/video-utils';
+import { CROP_EASINGS, findKeyframeAt } from '@/lib/crop-keyframes';
+import type { CropEasing, CropKeyframe } from '@/types';
+
+interface CropKeyframeTrackProps {
+  keyframes: CropKeyframe[];
+  // Selected clip's window in the source video
+  clipStart: number;
+  clipDuration: number;
+  currentTime: number;
+  onSeek: (time: number) => void;
+  onAddKeyframe: () => void;
+  onRemoveKeyframe: (index: number) => void;
+  onEasingChange: (index: number, easing: CropEasing) => void;
+  onClearKeyframes: () => void;
+}
+
+export function CropKeyframeTrack({
+  keyframes,
+  clipStart,
+  clipDuration,
+  currentTime,
+  onSeek,
+  onAddKeyframe,
+  onRemoveKeyframe,
+  onEasingChange,
+  onClearKeyframes
+}: CropKeyframeTrackProps) {
+  const clipTime = currentTime - clipStart;
+  const isInsideClip = clipTime >= 0 && clipTime <= clipDuration;
+  const selectedIndex = findKeyframeAt(keyframes, clipTime);
+  const selectedKeyframe = keyframes[selectedIndex];
+  const toPercent = (time: number) => (clipDuration > 0 ? Math.max(0, Math.min(100, (time / clipDuration) * 100)) : 0);
+
+  return (
+    <div className="space-y-2" data-testid="crop-keyframe-track">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium">
+          Crop keyframes <span className="text-muted-foreground font-normal">({keyframes.length})</span>
+        </span>
+        <div className="flex items-center gap-2">
+          {selectedKeyframe && (
+            <>
+              <Select
+                value={selectedKeyframe.easing}
+                onValueChange={(easing) => onEasingChange(selectedIndex, easing as CropEasing)}
+              >
+                <SelectTrigger className="h-8 w-32" title="Easing towards the next keyframe">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CROP_EASINGS.map(easing => (
+                    <SelectItem key={easing.id} value={easing.id}>{easing.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onRemoveKeyframe(selectedIndex)}
+                className="text-destructive hover:text-destructive"
+                title="Remove this keyframe"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+          {!selectedKeyframe && (
+            <Button size="sm" variant="outline" onClick={onAddKeyframe} disabled={!isInsideClip}>
+              <Diamond className="h-4 w-4 mr-1" />
+              Key at {formatTime(Math.max(0, clipTime))}
+            </Button>
+          )}
+          {keyframes.length > 0 && (
+            <Button size="sm" variant="ghost" onClick={onClearKeyframes} title="Remove all keyframes (fixed crop)">
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Spans the selected clip only; keyframe times are relative to its start */}
+      <div className="relative h-6 rounded-md bg-muted">
+        {keyframes.map((keyframe, index) => (
+          <button
+            key={`${keyframe.time}-${index}`}
+            type="button"
+            title={`${formatTime(keyframe.time)} • ${keyframe.x}, ${keyframe.y} • ${keyframe.easing}`}
+            onClick={() => onSeek(clipStart + keyframe.time)}
+            className={cn(
+              "absolute top-1/2 h-3 w-3 -translate-x-1/2 -translate-y-1/2 rotate-45 border transition-colors",
+              index === selectedIndex
+                ? "bg-primary border-primary z-10"
+                : "bg-primary/30 border-primary/60 hover:bg-primary/60"
+            )}
+            style={{ left: `${toPercent(keyframe.time)}%` }}
+          />
+        ))}
+
+        {/* Playhead */}
+        {isInsideClip && (
+          <div
+            className="absolute top-0 bottom-0 w-px bg-foreground/70 pointer-events-none z-20"
+            style={{ left: `${toPercent(clipTime)}%` }}
+          />
+        )}
+      </div>
+      {keyframes.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          Add keyframes to animate the crop; dragging the crop then moves the keyframe at the playhead.
+        </p>
+      )}
+    </div>
+  );
+}
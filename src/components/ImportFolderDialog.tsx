@@ -0,0 +1,238 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, CheckCircle, FolderSearch } from 'lucide-react';
+import { useImportFolder, useScanFolder } from '@/hooks/useQueries';
+import { formatFileSize } from '@/lib/video-utils';
+import type { FolderScanResult, ImportMode, UploadResult } from '@/types';
+
+const DEFAULT_EXTENSIONS = '.mp4, .m4v, .mov, .mkv, .webm, .avi';
+
+const IMPORT_MODES: { id: ImportMode; name: string; description: string }[] = [
+  { id: 'reference', name: 'Reference in place', description: 'no copy; files must stay where they are' },
+  { id: 'hardlink', name: 'Hardlink', description: 'into uploads/, no extra space; same disk only' },
+  { id: 'copy', name: 'Copy', description: 'into uploads/, uses disk space' },
+];
+
+interface ImportFolderDialogProps {
+  open: boolean;
+  datasetId: number;
+  onOpenChange: (open: boolean) => void;
+  // Called with the import results once every selected file made it in
+  onImported: (results: UploadResult[]) => void;
+}
+
+export function ImportFolderDialog({ open, datasetId, onOpenChange, onImported }: ImportFolderDialogProps) {
+  const [path, setPath] = useState('');
+  const [extensions, setExtensions] = useState(DEFAULT_EXTENSIONS);
+  const [recursive, setRecursive] = useState(true);
+  const [mode, setMode] = useState<ImportMode>('reference');
+  const [scan, setScan] = useState<FolderScanResult | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [results, setResults] = useState<Map<string, UploadResult>>(new Map());
+  const scanMutation = useScanFolder();
+  const importMutation = useImportFolder();
+
+  // Start over every time the dialog opens, keeping the last folder for convenience
+  useEffect(() => {
+    if (open) {
+      setScan(null);
+      setSelected(new Set());
+      setResults(new Map());
+      scanMutation.reset();
+      importMutation.reset();
+    }
+  }, [open]);
+
+  const folderOptions = () => ({
+    path,
+    recursive,
+    extensions: extensions.split(',').map(extension => extension.trim()).filter(Boolean),
+  });
+
+  const handleScan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const result = await scanMutation.mutateAsync(folderOptions());
+      setScan(result);
+      setSelected(new Set(result.files.map(file => file.relativePath)));
+      setResults(new Map());
+    } catch (error) {
+      console.error('Failed to scan folder:', error);
+    }
+  };
+
+  const toggleFile = (relativePath: string) => {
+    const next = new Set(selected);
+    if (next.has(relativePath)) {
+      next.delete(relativePath);
+    } else {
+      next.add(relativePath);
+    }
+    setSelected(next);
+  };
+
+  const handleImport = async () => {
+    if (!scan) return;
+    try {
+      // Import the folder that was scanned, even if the path field was edited since
+      const importResults = await importMutation.mutateAsync({
+        datasetId,
+        options: { ...folderOptions(), path: scan.path, mode, files: [...selected] },
+      });
+      setResults(new Map(importResults.map(result => [result.filename, result])));
+
+      // Imported files are done; leave only the failures selected so they can be retried
+      const failed = importResults.filter(result => result.status === 'rejected').map(result => result.filename);
+      setSelected(new Set(failed));
+      if (failed.length === 0) {
+        onImported(importResults);
+      }
+    } catch (error) {
+      console.error('Failed to import folder:', error);
+    }
+  };
+
+  const error = scanMutation.error ?? importMutation.error;
+  const isBusy = scanMutation.isPending || importMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import from Server Folder</DialogTitle>
+          <DialogDescription>
+            Add videos that are already on the server without uploading them through the browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleScan} className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="import-folder-path">Folder path</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="import-folder-path"
+                data-testid="import-folder-path"
+                value={path}
+                onChange={(e) => setPath(e.target.value)}
+                placeholder="/data/footage"
+              />
+              <Button type="submit" variant="outline" disabled={!path.trim() || isBusy}>
+                <FolderSearch className="h-4 w-4 mr-1" />
+                {scanMutation.isPending ? 'Scanning...' : 'Scan'}
+              </Button>
+            </div>
+          </div>
+          <div className="flex items-end gap-4">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="import-extensions">Extensions</Label>
+              <Input
+                id="import-extensions"
+                value={extensions}
+                onChange={(e) => setExtensions(e.target.value)}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm h-9">
+              <input
+                type="checkbox"
+                className="h-4 w-4 accent-primary"
+                checked={recursive}
+                onChange={(e) => setRecursive(e.target.checked)}
+              />
+              Include subfolders
+            </label>
+          </div>
+        </form>
+
+        {error && (
+          <p className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            {error.message}
+          </p>
+        )}
+
+        {scan && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">
+                {scan.files.length} video{scan.files.length !== 1 ? 's' : ''} in {scan.path}
+              </span>
+              {scan.files.length > 0 && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setSelected(
+                    selected.size === scan.files.length ? new Set() : new Set(scan.files.map(file => file.relativePath))
+                  )}
+                >
+                  {selected.size === scan.files.length ? 'Select none' : 'Select all'}
+                </Button>
+              )}
+            </div>
+            <div className="max-h-64 overflow-y-auto rounded-md border divide-y" data-testid="import-file-list">
+              {scan.files.map(file => {
+                const result = results.get(file.relativePath);
+                return (
+                  <label key={file.relativePath} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-primary"
+                      checked={selected.has(file.relativePath)}
+                      disabled={result?.status === 'accepted'}
+                      onChange={() => toggleFile(file.relativePath)}
+                    />
+                    <span className="flex-1 min-w-0">
+                      <span className="block truncate" title={file.path}>{file.relativePath}</span>
+                      {result?.status === 'rejected' && (
+                        <span className="block text-xs text-destructive">{result.error}</span>
+                      )}
+                    </span>
+                    {result?.status === 'accepted' ? (
+                      <CheckCircle className="h-4 w-4 text-green-600 dark:text-green-400" />
+                    ) : (
+                      <span className="text-xs text-muted-foreground">{formatFileSize(file.size)}</span>
+                    )}
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:items-center">
+          <Select value={mode} onValueChange={(value) => setMode(value as ImportMode)}>
+            <SelectTrigger className="sm:w-72" data-testid="import-mode-select">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {IMPORT_MODES.map(option => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.name} <span className="text-muted-foreground">– {option.description}</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={handleImport}
+            disabled={!scan || selected.size === 0 || isBusy}
+            data-testid="import-folder-submit"
+          >
+            {importMutation.isPending
+              ? 'Importing...'
+              : `Import ${selected.size} Video${selected.size !== 1 ? 's' : ''}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
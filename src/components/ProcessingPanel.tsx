@@ -3,40 +3,136 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Progress } from '@/components/ui/progress';
-import { Play, AlertCircle, CheckCircle, Clock, Wrench } from 'lucide-react';
+import { Play, AlertCircle, AlertTriangle, CheckCircle, Clock, Wrench, Square, FolderOutput, Save, Trash2, Gauge } from 'lucide-react';
 import { useProcessing } from '@/hooks/useProcessing';
-import type { Video, ProcessingConfig } from '@/types';
+import { formatEta, getAvailableFrameCount } from '@/lib/video-utils';
+import { FRAME_COUNT_RULES, snapFrameCount } from '@/lib/frame-constraints';
+import { describeQualityIssues, hasQualityIssues } from '@/lib/quality-checks';
+import {
+  resolveProcessingSettings,
+  validateProcessingSettings,
+  isSameProcessingSettings,
+  VIDEO_CODECS,
+  ENCODER_PRESETS,
+  PIXEL_FORMATS,
+  MIN_CRF,
+  MAX_CRF,
+} from '@/lib/processing-settings';
+import type { Video, ProcessingConfig, ProcessingSettings, ProcessingProgress, ExportLayoutId, FrameCountRule } from '@/types';
 import { Input } from './ui/input';
 
 interface ProcessingPanelProps {
   datasetId: number;
   videos: Video[];
+  // Settings saved on the dataset (null until it has saved any)
+  processingConfig: ProcessingConfig | null;
 }
 
-export function ProcessingPanel({ datasetId, videos }: ProcessingPanelProps) {
-  const [fps, setFps] = useState<number>(16);
-  const [frameCount, setFrameCount] = useState<number>(81);
+export function ProcessingPanel({ datasetId, videos, processingConfig }: ProcessingPanelProps) {
+  const [settings, setSettings] = useState<ProcessingSettings>(() => resolveProcessingSettings(processingConfig));
+  const [exportLayout, setExportLayout] = useState<ExportLayoutId | 'none'>(processingConfig?.exportLayout ?? 'none');
+  const [skipQualityIssues, setSkipQualityIssues] = useState(processingConfig?.skipQualityIssues ?? false);
+  const [presetName, setPresetName] = useState('');
 
   const {
     isProcessing,
     processingProgress,
+    overallProgress,
+    skippedClipCount,
+    activeJob,
+    logs,
     getConfiguredVideosCount,
     getProcessedVideosCount,
     startProcessing,
+    cancelProcessing,
     canProcess,
-    cleanup,
+    exportLayouts,
+    exportDataset,
+    exportResult,
+    isExporting,
+    checkQuality,
+    isCheckingQuality,
+    saveConfig,
+    presets,
+    savePreset,
+    deletePreset,
+    isSavingPreset,
     error
   } = useProcessing({ datasetId, videos });
 
-  const handleStartProcessing = () => {
-    const config: ProcessingConfig = { fps, frameCount };
-    startProcessing(config);
+  // Pick up settings saved elsewhere (another tab, or the run that just started)
+  useEffect(() => {
+    setSettings(resolveProcessingSettings(processingConfig));
+    setExportLayout(processingConfig?.exportLayout ?? 'none');
+    setSkipQualityIssues(processingConfig?.skipQualityIssues ?? false);
+  }, [processingConfig]);
+
+  const activePreset = presets.find(preset => isSameProcessingSettings(preset.settings, settings));
+  const settingsError = validateProcessingSettings(settings);
+
+  // Clips that start too late to fill the requested frame count
+  const shortClips = settings.fps > 0 && settings.frameCount > 0
+    ? videos.flatMap(video => (video.clips || []).flatMap((clip, index) => {
+        const availableFrames = getAvailableFrameCount(clip, video.duration, settings);
+        return availableFrames < settings.frameCount
+          ? [{ video, clip, index, availableFrames }]
+          : [];
+      }))
+    : [];
+
+  // Clips whose last quality check found problems
+  const flaggedClips = videos.flatMap(video => (video.clips || []).flatMap((clip, index) =>
+    hasQualityIssues(clip) ? [{ video, clip, index }] : []
+  ));
+
+  // Half-typed values are kept locally until they are valid
+  const persist = (next: ProcessingSettings, layout: ExportLayoutId | 'none', skip = skipQualityIssues) => {
+    if (validateProcessingSettings(next)) return;
+    saveConfig({ ...next, exportLayout: layout !== 'none' ? layout : null, skipQualityIssues: skip });
   };
 
-  // Cleanup polling when component unmounts
-  useEffect(() => {
-    return cleanup;
-  }, [cleanup]);
+  // Selects save straight away; number inputs save when they lose focus
+  const updateSettings = (changes: Partial<ProcessingSettings>, save = true) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    if (save) {
+      persist(next, exportLayout);
+    }
+  };
+
+  const handleExportLayoutChange = (layout: ExportLayoutId | 'none') => {
+    setExportLayout(layout);
+    persist(settings, layout);
+  };
+
+  const handleSkipQualityIssuesChange = (skip: boolean) => {
+    setSkipQualityIssues(skip);
+    persist(settings, exportLayout, skip);
+  };
+
+  // Changing the rule moves the frame count to the nearest count the model accepts
+  const handleFrameCountRuleChange = (frameCountRule: FrameCountRule) => {
+    updateSettings({ frameCountRule, frameCount: snapFrameCount(settings.frameCount, frameCountRule) });
+  };
+
+  const handleApplyPreset = (presetId: string) => {
+    const preset = presets.find(p => p.id === parseInt(presetId));
+    if (preset) {
+      updateSettings(resolveProcessingSettings(preset.settings));
+    }
+  };
+
+  const handleSavePreset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!presetName.trim()) return;
+    if (await savePreset(presetName.trim(), settings)) {
+      setPresetName('');
+    }
+  };
+
+  const handleStartProcessing = () => {
+    startProcessing({ ...settings, exportLayout: exportLayout !== 'none' ? exportLayout : null, skipQualityIssues });
+  };
 
   const getStatusIcon = (status: string) => {
     switch (status) {
@@ -70,15 +166,55 @@ export function ProcessingPanel({ datasetId, videos }: ProcessingPanelProps) {
           </div>
         )}
 
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Preset</label>
+          <div className="flex gap-2">
+            <Select value={activePreset ? activePreset.id.toString() : ''} onValueChange={handleApplyPreset}>
+              <SelectTrigger className="flex-1" data-testid="processing-preset-select">
+                <SelectValue placeholder="Custom settings" />
+              </SelectTrigger>
+              <SelectContent>
+                {presets.map(preset => (
+                  <SelectItem key={preset.id} value={preset.id.toString()}>{preset.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {activePreset && (
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => deletePreset(activePreset.id)}
+                title={`Delete preset "${activePreset.name}"`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          {!activePreset && (
+            <form onSubmit={handleSavePreset} className="flex gap-2">
+              <Input
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                placeholder="Save current settings as..."
+              />
+              <Button type="submit" variant="outline" disabled={!presetName.trim() || isSavingPreset}>
+                <Save className="h-4 w-4 mr-2" />
+                Save
+              </Button>
+            </form>
+          )}
+        </div>
+
         <div className="grid grid-cols-2 gap-4">
           <div className="space-y-2">
             <label className="text-sm font-medium">FPS</label>
             <Input
               type="number"
-              value={fps}
-              onChange={(e) => setFps(parseInt(e.target.value))}
+              value={settings.fps}
+              onChange={(e) => updateSettings({ fps: parseInt(e.target.value) }, false)}
+              onBlur={() => persist(settings, exportLayout)}
               min={1}
-              max={60}
+              max={120}
             />
           </div>
 
@@ -86,39 +222,243 @@ export function ProcessingPanel({ datasetId, videos }: ProcessingPanelProps) {
             <label className="text-sm font-medium">Frame Count</label>
             <Input
               type="number"
-              value={frameCount}
-              onChange={(e) => setFrameCount(parseInt(e.target.value))}
+              value={settings.frameCount}
+              onChange={(e) => updateSettings({ frameCount: parseInt(e.target.value) }, false)}
+              onBlur={() => updateSettings({ frameCount: snapFrameCount(settings.frameCount, settings.frameCountRule) })}
               min={1}
               max={10000}
+              step={settings.frameCountRule === '4n+1' ? 4 : settings.frameCountRule === '8n+1' ? 8 : 1}
+              data-testid="frame-count-input"
+            />
+          </div>
+
+          <div className="space-y-2 col-span-2">
+            <label className="text-sm font-medium">Frame Count Rule</label>
+            <Select value={settings.frameCountRule} onValueChange={(rule) => handleFrameCountRuleChange(rule as FrameCountRule)}>
+              <SelectTrigger data-testid="frame-count-rule-select">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FRAME_COUNT_RULES.map(rule => (
+                  <SelectItem key={rule.id} value={rule.id}>
+                    {rule.name} <span className="text-muted-foreground">– {rule.description}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Codec</label>
+            <Select value={settings.codec} onValueChange={(codec) => updateSettings({ codec: codec as ProcessingSettings['codec'] })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VIDEO_CODECS.map(codec => (
+                  <SelectItem key={codec} value={codec}>{codec}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">CRF</label>
+            <Input
+              type="number"
+              value={settings.crf}
+              onChange={(e) => updateSettings({ crf: parseInt(e.target.value) }, false)}
+              onBlur={() => persist(settings, exportLayout)}
+              min={MIN_CRF}
+              max={MAX_CRF}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Encoder Preset</label>
+            <Select value={settings.preset} onValueChange={(preset) => updateSettings({ preset: preset as ProcessingSettings['preset'] })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ENCODER_PRESETS.map(preset => (
+                  <SelectItem key={preset} value={preset}>{preset}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Pixel Format</label>
+            <Select value={settings.pixelFormat} onValueChange={(pixelFormat) => updateSettings({ pixelFormat: pixelFormat as ProcessingSettings['pixelFormat'] })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PIXEL_FORMATS.map(format => (
+                  <SelectItem key={format} value={format}>{format}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        {settingsError && <p className="text-xs text-destructive">{settingsError}</p>}
+
+        {shortClips.length > 0 && (
+          <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md space-y-1 dark:bg-yellow-950/30 dark:border-yellow-900" data-testid="short-clip-warning">
+            <p className="flex items-center gap-2 text-sm text-yellow-700 dark:text-yellow-400">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              {shortClips.length} {shortClips.length === 1 ? 'clip runs' : 'clips run'} past the end of the video
+            </p>
+            <ul className="text-xs text-muted-foreground space-y-0.5">
+              {shortClips.map(({ video, clip, index, availableFrames }) => (
+                <li key={clip.id} className="truncate">
+                  {video.filename}
+                  {(video.clips?.length ?? 1) > 1 && ` • clip ${index + 1}`}
+                  {`: only ${availableFrames} of ${settings.frameCount} frames`}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium">Quality Checks</label>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={checkQuality}
+              disabled={isCheckingQuality || videos.length === 0}
+              title="Check every clip for black, frozen, static, interlaced, blurry, letterboxed or low-bitrate footage"
+            >
+              <Gauge className="h-4 w-4 mr-2" />
+              {isCheckingQuality ? 'Checking...' : 'Check All Clips'}
+            </Button>
+          </div>
+          {flaggedClips.length > 0 && (
+            <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md space-y-1 dark:bg-yellow-950/30 dark:border-yellow-900" data-testid="quality-warning">
+              <p className="flex items-center gap-2 text-sm text-yellow-700 dark:text-yellow-400">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                {flaggedClips.length} {flaggedClips.length === 1 ? 'clip has' : 'clips have'} quality problems
+              </p>
+              <ul className="text-xs text-muted-foreground space-y-0.5">
+                {flaggedClips.map(({ video, clip, index }) => (
+                  <li key={clip.id} className="truncate">
+                    {video.filename}
+                    {(video.clips?.length ?? 1) > 1 && ` • clip ${index + 1}`}
+                    {`: ${describeQualityIssues(clip.quality?.issues ?? [])}`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              className="h-4 w-4 accent-primary"
+              checked={skipQualityIssues}
+              onChange={(e) => handleSkipQualityIssuesChange(e.target.checked)}
+              data-testid="skip-quality-issues"
             />
+            Skip clips with quality problems when processing
+          </label>
+        </div>
 
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Export Layout</label>
+          <div className="flex gap-2">
+            <Select value={exportLayout} onValueChange={(value) => handleExportLayoutChange(value as ExportLayoutId | 'none')}>
+              <SelectTrigger className="flex-1" data-testid="export-layout-select">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Flat folder only</SelectItem>
+                {exportLayouts.map(layout => (
+                  <SelectItem key={layout.id} value={layout.id}>{layout.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={() => exportLayout !== 'none' && exportDataset(exportLayout)}
+              disabled={exportLayout === 'none' || isProcessing || isExporting || getProcessedVideosCount() === 0}
+              title="Export already processed clips in this layout"
+            >
+              <FolderOutput className="h-4 w-4 mr-2" />
+              {isExporting ? 'Exporting...' : 'Export'}
+            </Button>
           </div>
+          <p className="text-xs text-muted-foreground">
+            {exportLayouts.find(layout => layout.id === exportLayout)?.description
+              ?? 'Clips and captions are written to output/<dataset>/ only'}
+          </p>
+          {exportResult && (
+            <p className="text-xs text-green-600 dark:text-green-400 break-all">
+              Exported {exportResult.clipCount} clips to {exportResult.directory}
+            </p>
+          )}
         </div>
 
-        <Button
-          onClick={handleStartProcessing}
-          disabled={!canProcess}
-          className="w-full"
-        >
-          {isProcessing ? 'Processing...' : 'Start Processing'}
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            onClick={handleStartProcessing}
+            disabled={!canProcess || !!settingsError}
+            className="flex-1"
+          >
+            {isProcessing ? 'Processing...' : 'Start Processing'}
+          </Button>
+          {activeJob && (
+            <Button variant="outline" onClick={cancelProcessing}>
+              <Square className="h-4 w-4 mr-2" />
+              Cancel
+            </Button>
+          )}
+        </div>
+
+        {activeJob && (
+          <div className="text-xs text-muted-foreground">
+            Job #{activeJob.id} {activeJob.status} • {activeJob.processedCount + activeJob.failedCount} of {activeJob.totalCount} clips done
+          </div>
+        )}
 
         {processingProgress.length > 0 && (
           <div className="space-y-3">
             <h4 className="text-sm font-medium">Processing Progress</h4>
-            {processingProgress.map((progress: any) => {
+            {skippedClipCount > 0 && (
+              <p className="text-xs text-muted-foreground" data-testid="skipped-clips">
+                {skippedClipCount} {skippedClipCount === 1 ? 'clip was' : 'clips were'} skipped for quality problems
+              </p>
+            )}
+            {overallProgress && (
+              <div className="space-y-2 pb-2 border-b">
+                <div className="flex items-center justify-between text-sm font-medium">
+                  <span>All videos</span>
+                  <span className="text-muted-foreground">
+                    {Math.round(overallProgress.progress)}%
+                    {overallProgress.etaSeconds !== null && ` • ${formatEta(overallProgress.etaSeconds)} left`}
+                  </span>
+                </div>
+                <Progress value={overallProgress.progress} className="h-2" />
+              </div>
+            )}
+            {processingProgress.map((progress: ProcessingProgress) => {
               const video = videos.find(v => v.id === progress.videoId);
+              const clipIndex = video?.clips?.findIndex(c => c.id === progress.clipId) ?? -1;
+              const clipCount = video?.clips?.length ?? 0;
               return (
-                <div key={progress.videoId} className="space-y-2">
+                <div key={progress.clipId} className="space-y-2">
                   <div className="flex items-center justify-between text-sm">
                     <div className="flex items-center gap-2">
                       {getStatusIcon(progress.status)}
                       <span className="truncate">
                         {video?.filename || `Video ${progress.videoId}`}
+                        {clipCount > 1 && ` • clip ${clipIndex + 1}`}
                       </span>
                     </div>
                     <span className="text-muted-foreground">
-                      {progress.progress}%
+                      {Math.round(progress.progress)}%
+                      {progress.etaSeconds != null && ` • ${formatEta(progress.etaSeconds)} left`}
                     </span>
                   </div>
                   <Progress value={progress.progress} className="h-2" />
@@ -130,6 +470,17 @@ export function ProcessingPanel({ datasetId, videos }: ProcessingPanelProps) {
             })}
           </div>
         )}
+
+        {logs.length > 0 && (
+          <details className="text-xs">
+            <summary className="cursor-pointer text-muted-foreground">
+              FFMPEG log ({logs.length} lines)
+            </summary>
+            <pre className="mt-2 max-h-48 overflow-y-auto rounded-md bg-muted/50 p-2 font-mono whitespace-pre-wrap">
+              {logs.map(log => log.line).join('\n')}
+            </pre>
+          </details>
+        )}
       </CardContent>
     </Card>
   );
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -23,20 +23,15 @@ export function ProcessingPanelSimple({ datasetId, videos }: ProcessingPanelProp
     getProcessedVideosCount,
     startProcessing,
     canProcess,
-    cleanup,
     error
   } = useProcessing({ datasetId, videos });
 
   const handleStartProcessing = () => {
-    const config: ProcessingConfig = { fps, frameCount };
+    // Encoder settings come from the dataset's saved config
+    const config: Partial<ProcessingConfig> = { fps, frameCount };
     startProcessing(config);
   };
 
-  // Cleanup polling when component unmounts
-  useEffect(() => {
-    return cleanup;
-  }, [cleanup]);
-
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'completed':
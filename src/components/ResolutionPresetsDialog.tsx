@@ -0,0 +1,141 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Plus, X, AlertTriangle } from 'lucide-react';
+import {
+  describeResolution,
+  isRecommendedResolution,
+  validateResolution,
+  DEFAULT_RESOLUTIONS,
+  RECOMMENDED_MULTIPLE,
+} from '@/lib/resolutions';
+
+interface ResolutionPresetsDialogProps {
+  open: boolean;
+  resolutions: string[];
+  isSaving: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (resolutions: string[]) => void;
+}
+
+export function ResolutionPresetsDialog({ open, resolutions, isSaving, onOpenChange, onSave }: ResolutionPresetsDialogProps) {
+  const [presets, setPresets] = useState<string[]>(resolutions);
+  const [width, setWidth] = useState('');
+  const [height, setHeight] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the saved presets every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setPresets(resolutions);
+      setError(null);
+    }
+  }, [open, resolutions]);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const resolution = `${width.trim()}x${height.trim()}`;
+
+    const validationError = validateResolution(resolution);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    if (presets.includes(resolution)) {
+      setError(`${resolution} is already in the list`);
+      return;
+    }
+
+    setPresets([...presets, resolution]);
+    setWidth('');
+    setHeight('');
+    setError(null);
+  };
+
+  const handleRemove = (resolution: string) => {
+    setPresets(presets.filter(preset => preset !== resolution));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Output Resolutions</DialogTitle>
+          <DialogDescription>
+            Presets offered for every clip in this dataset. Dimensions must be divisible by 8;
+            most video models expect multiples of {RECOMMENDED_MULTIPLE}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2" data-testid="resolution-presets">
+          {presets.map(resolution => (
+            <div key={resolution} className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+              <span className="flex items-center gap-2">
+                {describeResolution(resolution)}
+                {!isRecommendedResolution(resolution) && (
+                  <span title={`Not a multiple of ${RECOMMENDED_MULTIPLE}`}>
+                    <AlertTriangle className="h-4 w-4 text-yellow-500" />
+                  </span>
+                )}
+              </span>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => handleRemove(resolution)}
+                disabled={presets.length <= 1}
+                aria-label={`Remove ${resolution}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleAdd} className="space-y-2">
+          <Label>Add resolution</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              value={width}
+              onChange={(e) => setWidth(e.target.value)}
+              placeholder="Width"
+              min={8}
+              step={8}
+            />
+            <span className="text-muted-foreground">×</span>
+            <Input
+              type="number"
+              value={height}
+              onChange={(e) => setHeight(e.target.value)}
+              placeholder="Height"
+              min={8}
+              step={8}
+            />
+            <Button type="submit" variant="outline" size="sm" disabled={!width || !height}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+          {error && <p className="text-xs text-destructive">{error}</p>}
+        </form>
+
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" onClick={() => setPresets(DEFAULT_RESOLUTIONS)}>
+            Reset to defaults
+          </Button>
+          <Button onClick={() => onSave(presets)} disabled={isSaving || presets.length === 0}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
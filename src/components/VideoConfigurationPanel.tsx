@@ -2,24 +2,38 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Trash2 } from 'lucide-react';
-import { formatTime, computeCropSizeForResolution } from '@/lib/video-utils';
-import type { Video } from '@/types';
+import { Trash2, AlertTriangle, ScanSearch, Focus } from 'lucide-react';
+import { formatTime, computeMaxCrop, getAvailableFrameCount, getCrossedSceneCuts } from '@/lib/video-utils';
+import { buildCaption, estimateTokenCount } from '@/lib/captions';
+import { describeResolution } from '@/lib/resolutions';
+import type { ProcessingSettings, Video } from '@/types';
 
 interface VideoConfigurationPanelProps {
   video: Video;
   startTime: number;
   currentTime: number;
   resolution: Video['resolution'];
+  resolutions: string[];
+  processingSettings: ProcessingSettings;
   cropWidth: number;
   cropHeight: number;
+  caption: string;
+  triggerWord: string | null;
   isDeleting: boolean;
+  isDetectingScenes: boolean;
+  isAutoCropping: boolean;
   onStartTimeChange: (startTime: number) => void;
   onCurrentAsStart: () => void;
   onResolutionChange: (resolution: Video['resolution']) => void;
   onCropSizeChange: (scale: number) => void;
   onResetCropToMax: () => void;
+  // Queue moving each clip's crop onto the subject of its window
+  onAutoCrop: () => void;
+  onCaptionChange: (caption: string) => void;
+  onCaptionBlur: () => void;
+  onDetectScenes: () => void;
   onDeleteVideo: () => void;
 }
 
@@ -28,14 +42,24 @@ export function VideoConfigurationPanel({
   startTime,
   currentTime,
   resolution,
+  resolutions,
+  processingSettings,
   cropWidth,
   cropHeight,
+  caption,
+  triggerWord,
   isDeleting,
+  isDetectingScenes,
+  isAutoCropping,
   onStartTimeChange,
   onCurrentAsStart,
   onResolutionChange,
   onCropSizeChange,
   onResetCropToMax,
+  onAutoCrop,
+  onCaptionChange,
+  onCaptionBlur,
+  onDetectScenes,
   onDeleteVideo
 }: VideoConfigurationPanelProps) {
   const handleStartTimeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -48,23 +72,38 @@ export function VideoConfigurationPanel({
   };
 
   const getCropSizePercentage = () => {
-    const { width: maxW, height: maxH } = computeCropSizeForResolution(
-      resolution, 
-      video.originalWidth, 
-      video.originalHeight
-    );
+    // 100% is the largest crop that stays clear of black bars, as in updateCropSize
+    const { width: maxW, height: maxH } = computeMaxCrop(resolution, video);
     if (maxW === 0 || maxH === 0) return 100;
     const scaleW = (cropWidth / maxW) * 100;
     const scaleH = (cropHeight / maxH) * 100;
     return Math.min(scaleW, scaleH);
   };
 
+  // Keep a clip's current value selectable even if it was removed from the dataset presets
+  const resolutionOptions = resolutions.includes(resolution) ? resolutions : [resolution, ...resolutions];
+
+  // Warn before processing when the clip would come out short
+  const availableFrames = getAvailableFrameCount({ startTime }, video.duration, processingSettings);
+  const latestStartTime = Math.max(0, video.duration - processingSettings.frameCount / processingSettings.fps);
+
+  // A hard cut inside the window mixes two shots in one training clip
+  const crossedCuts = getCrossedSceneCuts({ startTime }, video.sceneCuts, processingSettings);
+  const lastCrossedCut = crossedCuts[crossedCuts.length - 1];
+
+  // Letterbox/pillarbox bars found on upload
+  const hasBlackBars = !!video.activeArea
+    && (video.activeArea.width < video.originalWidth || video.activeArea.height < video.originalHeight);
+
+  // Counts cover the text actually written to the .txt file, trigger word included
+  const fullCaption = buildCaption(caption, triggerWord);
+
   return (
     <Card  className="lg:min-w-86">
       <CardHeader>
-        <CardTitle>Video Configuration</CardTitle>
+        <CardTitle>Clip Configuration</CardTitle>
         <CardDescription>
-          Configure start time, resolution, and crop settings
+          Configure start time, resolution, and crop settings for the selected clip
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
@@ -86,6 +125,48 @@ export function VideoConfigurationPanel({
               Use Current ({formatTime(currentTime)})
             </Button>
           </div>
+          {availableFrames < processingSettings.frameCount && (
+            <p className="flex items-start gap-1 text-xs text-yellow-600 dark:text-yellow-400" data-testid="short-clip-warning">
+              <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+              Only {availableFrames} of {processingSettings.frameCount} frames fit before the video ends.
+              Start at {formatTime(latestStartTime)} or earlier.
+            </p>
+          )}
+          {lastCrossedCut !== undefined && (
+            <div className="flex items-start gap-1 text-xs text-yellow-600 dark:text-yellow-400" data-testid="scene-cut-warning">
+              <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+              <span className="flex-1">
+                The clip crosses {crossedCuts.length === 1 ? 'a scene cut' : `${crossedCuts.length} scene cuts`} at{' '}
+                {crossedCuts.map(formatTime).join(', ')}.
+              </span>
+              <Button
+                size="sm"
+                variant="link"
+                className="h-auto p-0 text-xs"
+                onClick={() => onStartTimeChange(lastCrossedCut)}
+              >
+                Start after cut
+              </Button>
+            </div>
+          )}
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>
+              {video.sceneCuts
+                ? `${video.sceneCuts.length} scene ${video.sceneCuts.length === 1 ? 'cut' : 'cuts'} detected`
+                : 'Scene cuts not detected yet'}
+            </span>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 px-2 text-xs"
+              onClick={onDetectScenes}
+              disabled={isDetectingScenes}
+              title="Run scene detection again"
+            >
+              <ScanSearch className="h-3 w-3 mr-1" />
+              {isDetectingScenes ? 'Queuing...' : 'Detect'}
+            </Button>
+          </div>
         </div>
 
         {/* Resolution */}
@@ -96,9 +177,9 @@ export function VideoConfigurationPanel({
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="1280x720">1280×720 (16:9 Landscape)</SelectItem>
-              <SelectItem value="720x1280">720×1280 (9:16 Portrait)</SelectItem>
-              <SelectItem value="768x768">768×768 (1:1 Square)</SelectItem>
+              {resolutionOptions.map(option => (
+                <SelectItem key={option} value={option}>{describeResolution(option)}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -107,16 +188,37 @@ export function VideoConfigurationPanel({
         <div className="space-y-4">
           <div className="flex justify-between items-center">
             <Label>Crop Size</Label>
-            <Button 
-              size="sm" 
-              variant="outline" 
-              onClick={onResetCropToMax}
-              className="text-xs"
-            >
-              Reset to Max
-            </Button>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={onAutoCrop}
+                disabled={isAutoCropping}
+                className="text-xs"
+                title="Center each clip's crop on the moving or detailed part of its frames"
+                data-testid="auto-crop-button"
+              >
+                <Focus className="h-3 w-3 mr-1" />
+                {isAutoCropping ? 'Queuing...' : 'Auto-crop'}
+              </Button>
+              <Button 
+                size="sm" 
+                variant="outline" 
+                onClick={onResetCropToMax}
+                className="text-xs"
+              >
+                Reset to Max
+              </Button>
+            </div>
           </div>
           
+          {hasBlackBars && video.activeArea && (
+            <p className="text-xs text-muted-foreground" data-testid="active-area-note">
+              Black bars detected; the picture is {video.activeArea.width}×{video.activeArea.height}px and
+              Reset to Max stays inside it.
+            </p>
+          )}
+
           <div className="space-y-2">
             <div className="flex justify-between items-center">
               <span className="text-sm text-muted-foreground">Size</span>
@@ -138,6 +240,28 @@ export function VideoConfigurationPanel({
           </div>
         </div>
 
+        {/* Caption */}
+        <div className="space-y-2">
+          <Label htmlFor="clip-caption">Caption</Label>
+          <Textarea
+            id="clip-caption"
+            value={caption}
+            onChange={(e) => onCaptionChange(e.target.value)}
+            onBlur={onCaptionBlur}
+            placeholder="Describe what happens in this clip..."
+            className="min-h-24"
+            data-testid="caption-input"
+          />
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span className="truncate">
+              {triggerWord ? `Prefixed with "${triggerWord}"` : 'No trigger word'}
+            </span>
+            <span className="font-mono shrink-0">
+              {fullCaption.length} chars • ~{estimateTokenCount(fullCaption)} tokens
+            </span>
+          </div>
+        </div>
+
         {/* Delete Video */}
         <Button 
           variant="destructive" 
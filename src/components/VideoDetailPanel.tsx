@@ -2,30 +2,66 @@ import { useState, useEffect, useRef } from 'react';
 import { VideoPlayer } from '@/components/VideoPlayer';
 import { VideoConfigurationPanel } from '@/components/VideoConfigurationPanel';
 import { CropOverlay } from '@/components/CropOverlay';
+import { ClipTimeline } from '@/components/ClipTimeline';
+import { CropKeyframeTrack } from '@/components/CropKeyframeTrack';
+import { ClipOutputPreview } from '@/components/ClipOutputPreview';
+import { ClipQualityWarnings } from '@/components/ClipQualityWarnings';
+import { Button } from '@/components/ui/button';
+import { MonitorPlay } from 'lucide-react';
 import { useVideoPlayer } from '@/hooks/useVideoPlayer';
 import { useCropManagement } from '@/hooks/useCropManagement';
+import { useCaptionEditor } from '@/hooks/useCaptionEditor';
 import { useVideoDisplay } from '@/hooks/useVideoDisplay';
 import { useDrag } from '@/hooks/useDrag';
-import { useUpdateVideo, useDeleteVideo } from '@/hooks/useQueries';
-import type { Video } from '@/types';
+import { useDeleteVideo, useCreateClip, useUpdateClip, useDeleteClip, useDetectScenes, useSplitScenes, useCheckVideoQuality, useAnalyzeMotion, useAutoCropVideo } from '@/hooks/useQueries';
+import { getClipEndTime, suggestClipStart } from '@/lib/video-utils';
+import type { Clip, ProcessingSettings, Video } from '@/types';
 
 interface VideoDetailPanelProps {
   video: Video;
+  triggerWord: string | null;
+  resolutions: string[];
+  processingSettings: ProcessingSettings;
   onVideoUpdate: (video: Video) => void;
   onVideoDelete: (videoId: number) => void;
 }
 
-export function VideoDetailPanel({ video, onVideoUpdate, onVideoDelete }: VideoDetailPanelProps) {
-  const [startTime, setStartTime] = useState(video.startTime);
+export function VideoDetailPanel(props: VideoDetailPanelProps) {
+  const [selectedClipId, setSelectedClipId] = useState<number | null>(null);
+
+  // Fall back to the first clip when nothing (or a clip of another video) is selected
+  const clips = props.video.clips || [];
+  const clip = clips.find(c => c.id === selectedClipId) ?? clips[0];
+  if (!clip) return null;
+
+  return <ClipDetailPanel {...props} clip={clip} onClipSelect={setSelectedClipId} />;
+}
+
+interface ClipDetailPanelProps extends VideoDetailPanelProps {
+  clip: Clip;
+  onClipSelect: (clipId: number) => void;
+}
+
+function ClipDetailPanel({ video, clip, triggerWord, resolutions, processingSettings, onClipSelect, onVideoDelete }: ClipDetailPanelProps) {
+  const [startTime, setStartTime] = useState(clip.startTime);
   const [videoLoaded, setVideoLoaded] = useState(false);
+  const [isPreviewingOutput, setIsPreviewingOutput] = useState(false);
   const prevVideoIdRef = useRef<number>(video.id);
   
-  const updateVideoMutation = useUpdateVideo();
   const deleteVideoMutation = useDeleteVideo();
+  const createClipMutation = useCreateClip();
+  const updateClipMutation = useUpdateClip();
+  const deleteClipMutation = useDeleteClip();
+  const detectScenesMutation = useDetectScenes();
+  const splitScenesMutation = useSplitScenes();
+  const checkQualityMutation = useCheckVideoQuality();
+  const analyzeMotionMutation = useAnalyzeMotion();
+  const autoCropMutation = useAutoCropVideo();
 
   // Custom hooks for video functionality
   const videoPlayer = useVideoPlayer();
-  const cropManagement = useCropManagement({ video });
+  const cropManagement = useCropManagement({ video, clip, clipTime: videoPlayer.currentTime - clip.startTime });
+  const captionEditor = useCaptionEditor({ clip });
   const videoDisplay = useVideoDisplay({
     originalWidth: video.originalWidth,
     originalHeight: video.originalHeight,
@@ -43,15 +79,15 @@ export function VideoDetailPanel({ video, onVideoUpdate, onVideoDelete }: VideoD
     cropHeight: cropManagement.cropHeight
   });
 
-  // Reset local state when video changes
+  // Reset local state when the video or clip changes
   useEffect(() => {
-    setStartTime(video.startTime);
+    setStartTime(clip.startTime);
     // Only reset videoLoaded when video ID changes (new video)
     if (video.id !== prevVideoIdRef.current) {
       setVideoLoaded(false);
       prevVideoIdRef.current = video.id;
     }
-  }, [video.id, video.startTime]);
+  }, [video.id, clip.id, clip.startTime]);
 
   // Handle video loading and resizing
   useEffect(() => {
@@ -63,22 +99,71 @@ export function VideoDetailPanel({ video, onVideoUpdate, onVideoDelete }: VideoD
   const handleStartTimeChange = (newStartTime: number) => {
     setStartTime(newStartTime);
     // Update via mutation
-    updateVideoMutation.mutate({
-      id: video.id,
+    updateClipMutation.mutate({
+      id: clip.id,
       data: { startTime: newStartTime }
     });
   };
 
+  const handleUseSuggestedStart = (suggestedStart: number) => {
+    handleStartTimeChange(suggestedStart);
+    videoPlayer.seekTo(suggestedStart);
+  };
+
   const handleCurrentAsStart = () => {
     const newStartTime = videoPlayer.currentTime;
     setStartTime(newStartTime);
     // Immediate save
-    updateVideoMutation.mutate({
-      id: video.id,
+    updateClipMutation.mutate({
+      id: clip.id,
       data: { startTime: newStartTime }
     });
   };
 
+  const handleSelectClip = (selected: Clip) => {
+    onClipSelect(selected.id);
+    videoPlayer.seekTo(selected.startTime);
+  };
+
+  const handleAddClip = async () => {
+    try {
+      // The new clip copies the current framing and starts at the playhead
+      const newClip = await createClipMutation.mutateAsync({
+        videoId: video.id,
+        data: { startTime: videoPlayer.currentTime },
+      });
+      onClipSelect(newClip.id);
+    } catch (error) {
+      console.error('Failed to add clip:', error);
+      alert('Failed to add clip. Please try again.');
+    }
+  };
+
+  const handleRemoveClip = async (removed: Clip) => {
+    try {
+      await deleteClipMutation.mutateAsync({ id: removed.id, videoId: video.id });
+    } catch (error) {
+      console.error('Failed to remove clip:', error);
+      alert('Failed to remove clip. Please try again.');
+    }
+  };
+
+  const handleSplitScenes = async () => {
+    if (!confirm(`Split "${video.filename}" into one clip per scene? Its current clips, including captions and crops, will be replaced.`)) {
+      return;
+    }
+
+    try {
+      const sceneClips = await splitScenesMutation.mutateAsync({ videoId: video.id, replace: true });
+      if (sceneClips[0]) {
+        handleSelectClip(sceneClips[0]);
+      }
+    } catch (error) {
+      console.error('Failed to split video into scenes:', error);
+      alert(error instanceof Error ? error.message : 'Failed to split video into scenes. Please try again.');
+    }
+  };
+
   const handleDeleteVideo = async () => {
     if (!confirm(`Are you sure you want to delete "${video.filename}"? This action cannot be undone.`)) {
       return;
@@ -93,6 +178,42 @@ export function VideoDetailPanel({ video, onVideoUpdate, onVideoDelete }: VideoD
     }
   };
 
+  const handleDetectScenes = async () => {
+    try {
+      await detectScenesMutation.mutateAsync({ id: video.id, datasetId: video.datasetId });
+    } catch (error) {
+      console.error('Failed to start scene detection:', error);
+      alert('Failed to start scene detection. Please try again.');
+    }
+  };
+
+  const handleCheckQuality = async () => {
+    try {
+      await checkQualityMutation.mutateAsync({ id: video.id, datasetId: video.datasetId });
+    } catch (error) {
+      console.error('Failed to start quality check:', error);
+      alert('Failed to start quality check. Please try again.');
+    }
+  };
+
+  const handleAnalyzeMotion = async () => {
+    try {
+      await analyzeMotionMutation.mutateAsync({ id: video.id, datasetId: video.datasetId });
+    } catch (error) {
+      console.error('Failed to start motion analysis:', error);
+      alert('Failed to start motion analysis. Please try again.');
+    }
+  };
+
+  const handleAutoCrop = async () => {
+    try {
+      await autoCropMutation.mutateAsync({ id: video.id, datasetId: video.datasetId });
+    } catch (error) {
+      console.error('Failed to start auto-crop:', error);
+      alert('Failed to start auto-crop. Please try again.');
+    }
+  };
+
   const handleCropMouseDown = (e: React.MouseEvent) => {
     drag.handleMouseDown(e, cropManagement.cropX, cropManagement.cropY);
   };
@@ -101,15 +222,15 @@ export function VideoDetailPanel({ video, onVideoUpdate, onVideoDelete }: VideoD
     setVideoLoaded(true);
     videoDisplay.handleVideoLoad();
     // Automatically seek to start time when video loads
-    if (video.startTime > 0) {
-      videoPlayer.seekTo(video.startTime);
+    if (clip.startTime > 0) {
+      videoPlayer.seekTo(clip.startTime);
     }
   };
 
   const handleVideoEnded = () => {
     // Return to start time when video ends
-    if (video.startTime > 0) {
-      videoPlayer.seekTo(video.startTime);
+    if (clip.startTime > 0) {
+      videoPlayer.seekTo(clip.startTime);
     }
   };
 
@@ -117,55 +238,119 @@ export function VideoDetailPanel({ video, onVideoUpdate, onVideoDelete }: VideoD
     videoPlayer.seekTo(time);
   };
 
+  const motionSuggestion = suggestClipStart(video.motionEnergy, video.sceneCuts, video.duration, processingSettings);
+
+  // Only processed clips have an output file to compare against
+  const showOutputPreview = isPreviewingOutput && clip.status === 'processed';
+
   return (
     <div className="flex flex-col xl:flex-row gap-6">
-      <VideoPlayer
-        video={video}
-        isPlaying={videoPlayer.isPlaying}
-        currentTime={videoPlayer.currentTime}
-        videoError={null}
-        videoLoaded={videoLoaded}
-        videoRef={videoPlayer.videoRef}
-        videoContainerRef={videoDisplay.videoContainerRef}
-        onPlayPause={videoPlayer.togglePlayPause}
-        onTimeUpdate={videoPlayer.handleTimeUpdate}
-        onSeek={handleSeek}
-        onLoadedMetadata={() => {
-          videoPlayer.handleLoadedMetadata();
-          handleVideoLoad();
-        }}
-        onVideoError={() => {}}
-        onVideoEnded={handleVideoEnded}
-      >
-        <CropOverlay
-          cropX={cropManagement.cropX}
-          cropY={cropManagement.cropY}
-          cropWidth={cropManagement.cropWidth}
-          cropHeight={cropManagement.cropHeight}
-          originalWidth={video.originalWidth}
-          originalHeight={video.originalHeight}
-          videoDisplayDimensions={videoDisplay.videoDisplayDimensions}
-          isDragging={drag.isDragging}
-          onMouseDown={handleCropMouseDown}
-          videoId={video.id}
+      {showOutputPreview ? (
+        <ClipOutputPreview video={video} clip={clip} onClose={() => setIsPreviewingOutput(false)} />
+      ) : (
+        <VideoPlayer
+          video={video}
+          isPlaying={videoPlayer.isPlaying}
+          currentTime={videoPlayer.currentTime}
+          videoError={null}
           videoLoaded={videoLoaded}
-          tempPosition={drag.tempPosition}
-        />
-      </VideoPlayer>
+          videoRef={videoPlayer.videoRef}
+          videoContainerRef={videoDisplay.videoContainerRef}
+          onPlayPause={videoPlayer.togglePlayPause}
+          onTimeUpdate={videoPlayer.handleTimeUpdate}
+          onSeek={handleSeek}
+          onLoadedMetadata={() => {
+            videoPlayer.handleLoadedMetadata();
+            handleVideoLoad();
+          }}
+          onVideoError={() => {}}
+          onVideoEnded={handleVideoEnded}
+          motionSuggestion={motionSuggestion && {
+            startTime: motionSuggestion.startTime,
+            endTime: getClipEndTime(motionSuggestion, processingSettings),
+          }}
+          onUseSuggestedStart={handleUseSuggestedStart}
+          onAnalyzeMotion={handleAnalyzeMotion}
+          isAnalyzingMotion={analyzeMotionMutation.isPending}
+          headerAction={clip.status === 'processed' && (
+            <Button size="sm" variant="outline" onClick={() => setIsPreviewingOutput(true)}>
+              <MonitorPlay className="h-4 w-4 mr-1" />
+              Preview output
+            </Button>
+          )}
+          timeline={
+            <div className="space-y-3">
+              <ClipTimeline
+                clips={video.clips || [clip]}
+                duration={video.duration}
+                processingSettings={processingSettings}
+                currentTime={videoPlayer.currentTime}
+                selectedClipId={clip.id}
+                isBusy={createClipMutation.isPending || deleteClipMutation.isPending || splitScenesMutation.isPending}
+                onSelectClip={handleSelectClip}
+                onAddClip={handleAddClip}
+                onRemoveClip={handleRemoveClip}
+                onSplitScenes={handleSplitScenes}
+              />
+              <CropKeyframeTrack
+                keyframes={cropManagement.cropKeyframes}
+                clipStart={clip.startTime}
+                clipDuration={processingSettings.frameCount / processingSettings.fps}
+                currentTime={videoPlayer.currentTime}
+                onSeek={handleSeek}
+                onAddKeyframe={cropManagement.addKeyframe}
+                onRemoveKeyframe={cropManagement.removeKeyframe}
+                onEasingChange={cropManagement.setKeyframeEasing}
+                onClearKeyframes={cropManagement.clearKeyframes}
+              />
+              <ClipQualityWarnings
+                clip={clip}
+                isChecking={checkQualityMutation.isPending}
+                onCheck={handleCheckQuality}
+              />
+            </div>
+          }
+        >
+          <CropOverlay
+            cropX={cropManagement.cropX}
+            cropY={cropManagement.cropY}
+            cropWidth={cropManagement.cropWidth}
+            cropHeight={cropManagement.cropHeight}
+            originalWidth={video.originalWidth}
+            originalHeight={video.originalHeight}
+            videoDisplayDimensions={videoDisplay.videoDisplayDimensions}
+            isDragging={drag.isDragging}
+            onMouseDown={handleCropMouseDown}
+            videoId={video.id}
+            videoLoaded={videoLoaded}
+            tempPosition={drag.tempPosition}
+          />
+        </VideoPlayer>
+      )}
 
       <VideoConfigurationPanel
         video={video}
         startTime={startTime}
         currentTime={videoPlayer.currentTime}
         resolution={cropManagement.resolution}
+        resolutions={resolutions}
+        processingSettings={processingSettings}
         cropWidth={cropManagement.cropWidth}
         cropHeight={cropManagement.cropHeight}
         isDeleting={deleteVideoMutation.isPending}
+        isDetectingScenes={detectScenesMutation.isPending}
+        isAutoCropping={autoCropMutation.isPending}
         onStartTimeChange={handleStartTimeChange}
         onCurrentAsStart={handleCurrentAsStart}
         onResolutionChange={cropManagement.handleResolutionChange}
         onCropSizeChange={cropManagement.updateCropSize}
         onResetCropToMax={cropManagement.resetCropToMax}
+        onAutoCrop={handleAutoCrop}
+        caption={captionEditor.caption}
+        triggerWord={triggerWord}
+        onCaptionChange={captionEditor.updateCaption}
+        onCaptionBlur={captionEditor.saveImmediately}
+        onDetectScenes={handleDetectScenes}
         onDeleteVideo={handleDeleteVideo}
       />
     </div>
@@ -1,15 +1,32 @@
 import { cn } from '@/lib/utils';
-import { Play, Video } from 'lucide-react';
-import { formatDuration, getStatusIcon, getStatusColor, getStatusBorderColor } from '@/lib/video-utils';
-import type { Video as VideoType } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Play, Video, AlertTriangle, Copy } from 'lucide-react';
+import { formatDuration, getStatusIcon, getStatusColor, getStatusBorderColor, getVideoUrl, isClipTruncated } from '@/lib/video-utils';
+import type { DuplicateMatch, ProcessingSettings, Video as VideoType, VideoDuplicates } from '@/types';
 
 interface VideoListProps {
   videos: VideoType[];
+  // Used to flag clips that run past the end of their video
+  processingSettings: ProcessingSettings;
   selectedVideo: VideoType | null;
   onVideoSelect: (video: VideoType) => void;
+  // Videos that look like copies of others, in this dataset or another
+  duplicates?: VideoDuplicates[];
+  // Move a duplicate's clips into the video it copies and delete it
+  onMergeDuplicate?: (video: VideoType, match: DuplicateMatch) => void;
+  // Keep both videos and stop flagging the pair
+  onIgnoreDuplicate?: (video: VideoType, match: DuplicateMatch) => void;
 }
 
-export function VideoList({ videos, selectedVideo, onVideoSelect }: VideoListProps) {
+export function VideoList({
+  videos,
+  processingSettings,
+  selectedVideo,
+  onVideoSelect,
+  duplicates = [],
+  onMergeDuplicate,
+  onIgnoreDuplicate,
+}: VideoListProps) {
   if (videos.length === 0) {
     return (
       <div className="p-8 text-center text-muted-foreground space-y-3">
@@ -29,6 +46,11 @@ export function VideoList({ videos, selectedVideo, onVideoSelect }: VideoListPro
       {videos.map((video) => {
         const StatusIcon = getStatusIcon(video.status);
         const isSelected = selectedVideo?.id === video.id;
+        const clipCount = video.clips?.length ?? 1;
+        const firstClip = video.clips?.[0] ?? video;
+        const shortClipCount = (video.clips ?? [firstClip])
+          .filter(clip => isClipTruncated(clip, video.duration, processingSettings)).length;
+        const duplicateMatches = duplicates.find(entry => entry.videoId === video.id)?.matches ?? [];
         
         return (
           <div
@@ -43,15 +65,28 @@ export function VideoList({ videos, selectedVideo, onVideoSelect }: VideoListPro
           >
             <div className="flex items-start justify-between mb-3">
               <div className="flex items-center gap-3 min-w-0 flex-1">
-                <div className={cn(
-                  "w-8 h-8 rounded-md flex items-center justify-center transition-colors",
-                  isSelected ? "bg-primary/10" : "bg-muted/30 group-hover:bg-primary/5"
-                )}>
-                  <Play className={cn(
-                    "h-4 w-4 transition-colors",
-                    isSelected ? "text-primary" : "text-muted-foreground group-hover:text-primary"
-                  )} />
-                </div>
+                {video.thumbnailPath ? (
+                  <img
+                    src={getVideoUrl(video.thumbnailPath)}
+                    alt=""
+                    loading="lazy"
+                    className={cn(
+                      "w-16 h-9 shrink-0 rounded-md object-cover bg-muted/30 ring-1 transition-all",
+                      isSelected ? "ring-primary/50" : "ring-border/50 group-hover:ring-primary/30"
+                    )}
+                    data-testid="video-thumbnail"
+                  />
+                ) : (
+                  <div className={cn(
+                    "w-8 h-8 rounded-md flex items-center justify-center transition-colors",
+                    isSelected ? "bg-primary/10" : "bg-muted/30 group-hover:bg-primary/5"
+                  )}>
+                    <Play className={cn(
+                      "h-4 w-4 transition-colors",
+                      isSelected ? "text-primary" : "text-muted-foreground group-hover:text-primary"
+                    )} />
+                  </div>
+                )}
                 <div className="min-w-0 flex-1">
                   <p className={cn(
                     "text-sm font-medium truncate transition-colors",
@@ -67,16 +102,76 @@ export function VideoList({ videos, selectedVideo, onVideoSelect }: VideoListPro
                 </div>
               </div>
               <div className="flex flex-col items-end gap-1">
-                <StatusIcon className={cn("h-4 w-4", getStatusColor(video.status))} />
-                <span className="text-xs text-muted-foreground">{video.resolution}</span>
+                <div className="flex items-center gap-1">
+                  {duplicateMatches.length > 0 && (
+                    <span title="Looks like a duplicate">
+                      <Copy className="h-4 w-4 text-orange-500" data-testid="duplicate-icon" />
+                    </span>
+                  )}
+                  {shortClipCount > 0 && (
+                    <span title={`${shortClipCount === 1 ? 'A clip runs' : `${shortClipCount} clips run`} past the end of the video`}>
+                      <AlertTriangle className="h-4 w-4 text-yellow-500" data-testid="short-clip-icon" />
+                    </span>
+                  )}
+                  <StatusIcon className={cn("h-4 w-4", getStatusColor(video.status))} />
+                </div>
+                <span className="text-xs text-muted-foreground">{firstClip.resolution}</span>
               </div>
             </div>
             <div className="flex items-center justify-between text-xs text-muted-foreground">
-              <span>Start: {video.startTime.toFixed(1)}s</span>
+              <span>
+                Start: {firstClip.startTime.toFixed(1)}s
+                {clipCount > 1 && ` • ${clipCount} clips`}
+              </span>
               {video.status === 'processed' && (
                 <span className="text-green-600 dark:text-green-400 font-medium">✓ Ready</span>
               )}
             </div>
+            {duplicateMatches.length > 0 && (
+              <div className="mt-3 space-y-2 border-t border-border/50 pt-2" data-testid="duplicate-matches">
+                {duplicateMatches.map(match => {
+                  const sameDataset = match.datasetId === video.datasetId;
+                  return (
+                    <div key={match.videoId} className="space-y-1 text-xs">
+                      <p className="text-orange-600 dark:text-orange-400">
+                        {match.kind === 'exact' ? 'Exact copy of' : 'Looks like'}{' '}
+                        <span className="font-medium">{match.filename}</span>
+                        {!sameDataset && ` in ${match.datasetName}`}
+                      </p>
+                      <div className="flex gap-2">
+                        {sameDataset && onMergeDuplicate && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-6 px-2 text-xs"
+                            title={`Move this video's clips to ${match.filename} and delete this video`}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onMergeDuplicate(video, match);
+                            }}
+                          >
+                            Merge
+                          </Button>
+                        )}
+                        {onIgnoreDuplicate && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-6 px-2 text-xs"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onIgnoreDuplicate(video, match);
+                            }}
+                          >
+                            Keep both
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
           </div>
         );
       })}
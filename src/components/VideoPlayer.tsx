@@ -1,7 +1,7 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Play, Pause } from 'lucide-react';
-import { formatTime } from '@/lib/video-utils';
+import { Play, Pause, Activity } from 'lucide-react';
+import { formatTime, getPlaybackPath, getVideoUrl } from '@/lib/video-utils';
 import type { Video } from '@/types';
 
 interface VideoPlayerProps {
@@ -18,6 +18,13 @@ interface VideoPlayerProps {
   onLoadedMetadata: () => void;
   onVideoError: (e: React.SyntheticEvent<HTMLVideoElement, Event>) => void;
   onVideoEnded: () => void;
+  // Window with the most sustained motion, from the video's motion energy
+  motionSuggestion?: { startTime: number; endTime: number } | null;
+  onUseSuggestedStart?: (startTime: number) => void;
+  onAnalyzeMotion?: () => void;
+  isAnalyzingMotion?: boolean;
+  timeline?: React.ReactNode; // Shown under the playback controls
+  headerAction?: React.ReactNode; // Shown next to the title
   children?: React.ReactNode; // For crop overlay
 }
 
@@ -35,38 +42,65 @@ export function VideoPlayer({
   onLoadedMetadata,
   onVideoError,
   onVideoEnded,
+  motionSuggestion,
+  onUseSuggestedStart,
+  onAnalyzeMotion,
+  isAnalyzingMotion = false,
+  timeline,
+  headerAction,
   children
 }: VideoPlayerProps) {
-  const videoUrl = `http://localhost:3000/${video.filepath.replace(/^\/+/, '')}`;
+  // Unplayable codecs are previewed through an H.264 proxy; processing still reads the original
+  const playbackPath = getPlaybackPath(video);
+  const videoUrl = getVideoUrl(playbackPath);
+  const isPreparingProxy = video.proxyStatus === 'pending';
+  const errorMessage = videoError ?? (video.proxyStatus === 'error'
+    ? `The browser can't play this ${video.codec ?? 'video'} file and the preview transcode failed. Processing still uses the original.`
+    : null);
+
+  const heatmap = getHeatmapSegments(video.motionEnergy);
 
   const handleSeekChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const time = parseFloat(e.target.value);
     onSeek(time);
   };
 
+  // The filmstrip tiles are evenly spaced, so a click position maps straight to a time
+  const handleFilmstripClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+    onSeek(fraction * video.duration);
+  };
+
   return (
     <Card className="flex-grow">
       <CardHeader>
-        <CardTitle>{video.filename}</CardTitle>
-        <CardDescription>
-          {video.originalWidth}×{video.originalHeight} • {formatTime(video.duration)}
-        </CardDescription>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5 min-w-0">
+            <CardTitle>{video.filename}</CardTitle>
+            <CardDescription>
+              {video.originalWidth}×{video.originalHeight} • {formatTime(video.duration)}
+              {video.sceneCuts && ` • ${video.sceneCuts.length} scene ${video.sceneCuts.length === 1 ? 'cut' : 'cuts'}`}
+            </CardDescription>
+          </div>
+          {headerAction}
+        </div>
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
           {/* Video Element */}
           <div ref={videoContainerRef} className="relative bg-black rounded-lg overflow-hidden">
-            {videoError && (
+            {errorMessage && (
               <div className="absolute inset-0 z-10 bg-red-900/80 flex items-center justify-center">
                 <div className="text-white text-center p-4">
                   <p className="text-sm font-medium mb-2">Video Error</p>
-                  <p className="text-xs opacity-75">{videoError}</p>
+                  <p className="text-xs opacity-75">{errorMessage}</p>
                 </div>
               </div>
             )}
             
             <video
-              key={`${video.id}-${video.filepath}`}
+              key={`${video.id}-${playbackPath}`}
               ref={videoRef}
               className="w-full h-120 object-contain"
               onTimeUpdate={onTimeUpdate}
@@ -86,15 +120,17 @@ export function VideoPlayer({
               onEnded={onVideoEnded}
               controls={false}
             >
-              <source src={videoUrl} type="video/mp4" />
+              {!isPreparingProxy && <source src={videoUrl} type="video/mp4" />}
               Your browser does not support the video tag.
             </video>
             
-            {!videoLoaded && !videoError && (
+            {!videoLoaded && !errorMessage && (
               <div className="absolute inset-0 flex items-center justify-center bg-gray-900">
                 <div className="text-white text-center">
                   <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mx-auto mb-2"></div>
-                  <p className="text-sm opacity-75">Loading video...</p>
+                  <p className="text-sm opacity-75">
+                    {isPreparingProxy ? `Preparing a browser preview of this ${video.codec ?? 'video'} file...` : 'Loading video...'}
+                  </p>
                   <p className="text-xs opacity-50 mt-1">{video.filename}</p>
                 </div>
               </div>
@@ -111,11 +147,11 @@ export function VideoPlayer({
                 size="sm" 
                 onClick={onPlayPause}
                 disabled={!videoLoaded}
-                variant={videoError ? "destructive" : "default"}
+                variant={errorMessage ? "destructive" : "default"}
               >
                 {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
               </Button>
-              <div className="flex-1">
+              <div className="flex-1 relative">
                 <input
                   type="range"
                   min="0"
@@ -125,14 +161,120 @@ export function VideoPlayer({
                   onChange={handleSeekChange}
                   className="w-full"
                 />
+                {/* Scene cut markers, drawn over the track without blocking it */}
+                {video.duration > 0 && video.sceneCuts?.map(cut => (
+                  <div
+                    key={cut}
+                    className="absolute top-0 bottom-1 w-0.5 -translate-x-1/2 bg-red-500/80 pointer-events-none"
+                    style={{ left: `${(cut / video.duration) * 100}%` }}
+                    data-testid="scene-cut-marker"
+                  />
+                ))}
               </div>
               <span className="text-sm text-muted-foreground min-w-0">
                 {formatTime(currentTime)} / {formatTime(video.duration)}
               </span>
             </div>
+            {heatmap.length > 0 && video.duration > 0 && (
+              <div
+                className="relative flex h-2 rounded-sm overflow-hidden bg-muted"
+                title="Motion energy per second"
+                data-testid="motion-heatmap"
+              >
+                {heatmap.map((level, i) => (
+                  <div key={i} className="flex-1 bg-orange-500" style={{ opacity: 0.1 + level * 0.9 }} />
+                ))}
+                {motionSuggestion && (
+                  <div
+                    className="absolute inset-y-0 border-2 border-primary rounded-sm pointer-events-none"
+                    style={{
+                      left: `${(motionSuggestion.startTime / video.duration) * 100}%`,
+                      width: `${(Math.min(motionSuggestion.endTime, video.duration) - motionSuggestion.startTime) / video.duration * 100}%`,
+                    }}
+                  />
+                )}
+              </div>
+            )}
+            {onAnalyzeMotion && (
+              <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                <span>
+                  {motionSuggestion
+                    ? `Most motion: ${formatTime(motionSuggestion.startTime)}–${formatTime(motionSuggestion.endTime)}`
+                    : video.motionEnergy
+                      ? 'No window without a scene cut fits this video'
+                      : 'Motion not analysed yet'}
+                </span>
+                <div className="flex gap-1">
+                  {motionSuggestion && onUseSuggestedStart && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => onUseSuggestedStart(motionSuggestion.startTime)}
+                      data-testid="use-suggested-start"
+                    >
+                      Use suggested start
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2 text-xs"
+                    onClick={onAnalyzeMotion}
+                    disabled={isAnalyzingMotion}
+                    title="Measure how much the picture changes each second"
+                  >
+                    <Activity className="h-3 w-3 mr-1" />
+                    {isAnalyzingMotion ? 'Queuing...' : video.motionEnergy ? 'Analyze again' : 'Analyze motion'}
+                  </Button>
+                </div>
+              </div>
+            )}
+            {video.filmstripPath && video.duration > 0 && (
+              <div
+                className="relative h-10 rounded-md overflow-hidden bg-muted cursor-pointer"
+                onClick={handleFilmstripClick}
+                title="Click to seek"
+                data-testid="video-filmstrip"
+              >
+                <img
+                  src={getVideoUrl(video.filmstripPath)}
+                  alt=""
+                  draggable={false}
+                  className="absolute inset-0 w-full h-full object-fill select-none"
+                />
+                <div
+                  className="absolute top-0 bottom-0 w-0.5 -translate-x-1/2 bg-white shadow pointer-events-none"
+                  style={{ left: `${Math.min(100, (currentTime / video.duration) * 100)}%` }}
+                />
+              </div>
+            )}
+            {timeline}
           </div>
         </div>
       </CardContent>
     </Card>
   );
 }
+
+// Wide enough for a smooth strip without one element per second on long videos
+const MAX_HEATMAP_SEGMENTS = 200;
+
+/**
+ * Motion energy averaged into at most MAX_HEATMAP_SEGMENTS segments, scaled to 0-1 by the busiest one
+ */
+function getHeatmapSegments(motionEnergy: number[] | null): number[] {
+  if (!motionEnergy || motionEnergy.length === 0) return [];
+
+  const segmentCount = Math.min(motionEnergy.length, MAX_HEATMAP_SEGMENTS);
+  const segments = Array.from({ length: segmentCount }, (_, i) => {
+    const seconds = motionEnergy.slice(
+      Math.floor((i * motionEnergy.length) / segmentCount),
+      Math.floor(((i + 1) * motionEnergy.length) / segmentCount)
+    );
+    return seconds.reduce((sum, value) => sum + value, 0) / seconds.length;
+  });
+
+  const max = Math.max(...segments);
+  return max > 0 ? segments.map(value => value / max) : segments;
+}
@@ -1,7 +1,7 @@
-import { useCallback } from 'react';
-import { useDropzone } from 'react-dropzone';
+import { ErrorCode, useDropzone, type FileRejection } from 'react-dropzone';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
 import {
   Dialog,
   DialogContent,
@@ -9,24 +9,42 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import { Upload, X, File, AlertCircle, Video, Sparkles } from 'lucide-react';
+import { Upload, X, File, AlertCircle, Video, Sparkles, CheckCircle } from 'lucide-react';
+import { formatFileSize } from '@/lib/video-utils';
+import type { UploadResult } from '@/types';
+
+// Files are sent in chunks, so the server's request size limit doesn't apply
+const MAX_FILE_SIZE = 1024 * 1024 * 1024 * 10;
 
 interface VideoUploadZoneProps {
   onUpload: (files: File[]) => void;
   onClose: () => void;
+  // Fraction of each file the server has received (0-1)
+  progress?: Map<File, number>;
+  // Outcome of each file uploaded so far
+  results?: Map<File, UploadResult>;
+  isUploading?: boolean;
 }
 
-export function VideoUploadZone({ onUpload, onClose }: VideoUploadZoneProps) {
-  const onDrop = useCallback((acceptedFiles: File[], rejectedFiles: any[]) => {
-    if (rejectedFiles.length > 0) {
-      console.error('Some files were rejected:', rejectedFiles);
-    }
-    
-    if (acceptedFiles.length > 0) {
-      onUpload([...acceptedFiles]);
-    }
-  }, [onUpload]);
+// Why the dropzone refused a file, in the words of the upload list
+function describeRejection(rejection: FileRejection): string {
+  return rejection.errors
+    .map(error => {
+      switch (error.code) {
+        case ErrorCode.FileTooLarge:
+          return `Larger than the ${formatFileSize(MAX_FILE_SIZE)} limit`;
+        case ErrorCode.FileInvalidType:
+          return 'Not a supported video format';
+        default:
+          return error.message;
+      }
+    })
+    .join(', ');
+}
 
+export function VideoUploadZone({ onUpload, onClose, progress, results, isUploading = false }: VideoUploadZoneProps) {
+  // Dropped files are listed first and only uploaded from the submit button, so each is sent once.
+  // Files the dropzone refuses are listed too, as rejected rows with the reason.
   const {
     getRootProps,
     getInputProps,
@@ -34,21 +52,17 @@ export function VideoUploadZone({ onUpload, onClose }: VideoUploadZoneProps) {
     acceptedFiles,
     fileRejections
   } = useDropzone({
-    onDrop,
     accept: {
       'video/*': ['.mp4', '.avi', '.mov', '.mkv', '.webm']
     },
     multiple: true,
-    maxSize: 1024 * 1024 * 1024 * 2 // 2GB max file size
+    maxSize: MAX_FILE_SIZE,
+    disabled: isUploading
   });
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  };
+  // Files already added are never sent again, so the button retries only what failed
+  const remainingFiles = acceptedFiles.filter(file => results?.get(file)?.status !== 'accepted');
+  const failedFiles = remainingFiles.filter(file => results?.get(file)?.status === 'rejected');
 
   const formatDuration = async (file: File): Promise<string> => {
     return new Promise((resolve) => {
@@ -131,7 +145,7 @@ export function VideoUploadZone({ onUpload, onClose }: VideoUploadZoneProps) {
                     </p>
                     <div className="inline-flex items-center gap-2 px-4 py-2 bg-muted/50 rounded-full text-xs text-muted-foreground">
                       <AlertCircle className="h-3 w-3" />
-                      Maximum file size: 2GB per video
+                      Maximum file size: 10GB per video • interrupted uploads resume
                     </div>
                   </div>
                 )}
@@ -140,28 +154,88 @@ export function VideoUploadZone({ onUpload, onClose }: VideoUploadZoneProps) {
           </Card>
 
           {/* Accepted Files */}
-          {acceptedFiles.length > 0 && (
+          {(acceptedFiles.length > 0 || fileRejections.length > 0) && (
             <div className="space-y-4">
               <div className="flex items-center gap-2">
                 <div className="w-2 h-2 bg-green-500 rounded-full"></div>
                 <h4 className="font-semibold">Ready to Upload ({acceptedFiles.length})</h4>
+                {fileRejections.length > 0 && (
+                  <span className="text-sm text-destructive">• {fileRejections.length} not added</span>
+                )}
               </div>
               <div className="space-y-3 max-h-48 overflow-y-auto">
-                {acceptedFiles.map((file, index) => (
-                  <div key={index} className="flex items-center gap-4 p-4 bg-gradient-to-r from-green-50 to-green-50/50 dark:from-green-950/20 dark:to-green-950/10 rounded-lg border border-green-200/50 dark:border-green-800/50">
-                    <div className="w-10 h-10 bg-green-100 dark:bg-green-900/30 rounded-lg flex items-center justify-center">
-                      <Video className="h-5 w-5 text-green-600 dark:text-green-400" />
+                {acceptedFiles.map((file, index) => {
+                  const fileProgress = progress?.get(file);
+                  const result = results?.get(file);
+                  const isRejected = result?.status === 'rejected';
+                  return (
+                    <div
+                      key={index}
+                      data-testid="upload-file-row"
+                      className={isRejected
+                        ? 'flex items-center gap-4 p-4 bg-gradient-to-r from-destructive/5 to-destructive/10 rounded-lg border border-destructive/20'
+                        : 'flex items-center gap-4 p-4 bg-gradient-to-r from-green-50 to-green-50/50 dark:from-green-950/20 dark:to-green-950/10 rounded-lg border border-green-200/50 dark:border-green-800/50'}
+                    >
+                      <div className={isRejected
+                        ? 'w-10 h-10 bg-destructive/10 rounded-lg flex items-center justify-center'
+                        : 'w-10 h-10 bg-green-100 dark:bg-green-900/30 rounded-lg flex items-center justify-center'}
+                      >
+                        {isRejected
+                          ? <AlertCircle className="h-5 w-5 text-destructive" />
+                          : <Video className="h-5 w-5 text-green-600 dark:text-green-400" />}
+                      </div>
+                      <div className="flex-1 min-w-0 space-y-1">
+                        <p className="text-sm font-medium truncate" title={file.name}>
+                          {file.name}
+                        </p>
+                        {result?.status === 'rejected' ? (
+                          <p className="text-xs text-destructive" data-testid="upload-file-error">{result.error}</p>
+                        ) : (
+                          <p className="text-xs text-muted-foreground">
+                            {result?.status === 'accepted'
+                              ? `${formatFileSize(file.size)} • added to the dataset`
+                              : fileProgress !== undefined
+                                ? `${formatFileSize(file.size * fileProgress)} of ${formatFileSize(file.size)}`
+                                : formatFileSize(file.size)}
+                          </p>
+                        )}
+                        {fileProgress !== undefined && !result && (
+                          <Progress value={fileProgress * 100} className="h-1.5" data-testid="upload-file-progress" />
+                        )}
+                      </div>
+                      <div className={isRejected ? 'text-destructive' : 'text-green-600 dark:text-green-400'}>
+                        {result?.status === 'accepted' ? (
+                          <CheckCircle className="h-4 w-4" />
+                        ) : isRejected ? (
+                          <span className="text-xs font-medium">Failed</span>
+                        ) : fileProgress !== undefined ? (
+                          <span className="text-xs font-mono">{Math.floor(fileProgress * 100)}%</span>
+                        ) : (
+                          <Sparkles className="h-4 w-4" />
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+                {fileRejections.map((rejection, index) => (
+                  <div
+                    key={`rejected-${index}`}
+                    data-testid="upload-file-row"
+                    className="flex items-center gap-4 p-4 bg-gradient-to-r from-destructive/5 to-destructive/10 rounded-lg border border-destructive/20"
+                  >
+                    <div className="w-10 h-10 bg-destructive/10 rounded-lg flex items-center justify-center">
+                      <AlertCircle className="h-5 w-5 text-destructive" />
                     </div>
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm font-medium truncate" title={file.name}>
-                        {file.name}
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <p className="text-sm font-medium truncate" title={rejection.file.name}>
+                        {rejection.file.name}
                       </p>
-                      <p className="text-xs text-muted-foreground">
-                        {formatFileSize(file.size)}
+                      <p className="text-xs text-destructive" data-testid="upload-file-error">
+                        {describeRejection(rejection)}
                       </p>
                     </div>
-                    <div className="text-green-600 dark:text-green-400">
-                      <Sparkles className="h-4 w-4" />
+                    <div className="text-destructive">
+                      <span className="text-xs font-medium">Not added</span>
                     </div>
                   </div>
                 ))}
@@ -169,31 +243,11 @@ export function VideoUploadZone({ onUpload, onClose }: VideoUploadZoneProps) {
             </div>
           )}
 
-          {/* Rejected Files */}
-          {fileRejections.length > 0 && (
-            <div className="space-y-4">
-              <div className="flex items-center gap-2">
-                <AlertCircle className="h-4 w-4 text-destructive" />
-                <h4 className="font-semibold text-destructive">
-                  Issues Found ({fileRejections.length})
-                </h4>
-              </div>
-              <div className="space-y-3 max-h-32 overflow-y-auto">
-                {fileRejections.map((rejection: any, index: number) => (
-                  <div key={index} className="flex items-center gap-4 p-4 bg-gradient-to-r from-destructive/5 to-destructive/10 rounded-lg border border-destructive/20">
-                    <div className="w-10 h-10 bg-destructive/10 rounded-lg flex items-center justify-center">
-                      <AlertCircle className="h-5 w-5 text-destructive" />
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm font-medium truncate">{rejection.file.name}</p>
-                      <p className="text-xs text-destructive">
-                        {rejection.errors.map((e: any) => e.message).join(', ')}
-                      </p>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </div>
+          {failedFiles.length > 0 && !isUploading && (
+            <p className="flex items-center gap-2 text-sm text-destructive">
+              <AlertCircle className="h-4 w-4 shrink-0" />
+              {failedFiles.length} of {acceptedFiles.length} file{acceptedFiles.length !== 1 ? 's' : ''} failed. Retrying sends only those; interrupted transfers resume where they stopped.
+            </p>
           )}
 
           {/* Actions */}
@@ -203,12 +257,16 @@ export function VideoUploadZone({ onUpload, onClose }: VideoUploadZoneProps) {
             </Button>
             <Button 
               data-testid="upload-submit-button"
-              onClick={() => onUpload([...acceptedFiles])}
-              disabled={acceptedFiles.length === 0}
+              onClick={() => onUpload(remainingFiles)}
+              disabled={remainingFiles.length === 0 || isUploading}
               className="bg-gradient-to-r from-primary to-primary/80 hover:from-primary/90 hover:to-primary/70"
             >
               <Upload className="mr-2 h-4 w-4" />
-              Upload {acceptedFiles.length} Video{acceptedFiles.length !== 1 ? 's' : ''}
+              {isUploading
+                ? 'Uploading...'
+                : failedFiles.length > 0
+                  ? `Retry ${failedFiles.length} Failed`
+                  : `Upload ${remainingFiles.length} Video${remainingFiles.length !== 1 ? 's' : ''}`}
             </Button>
           </div>
         </div>
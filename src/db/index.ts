@@ -1,6 +1,7 @@
 import { drizzle } from 'drizzle-orm/bun-sqlite';
 import { Database } from 'bun:sqlite';
 import * as schema from './schema';
+import { BUILT_IN_PROCESSING_PRESETS } from '@/lib/processing-settings';
 
 const sqlite = new Database('database.sqlite');
 export const db = drizzle({ client: sqlite, schema });
@@ -8,6 +9,15 @@ export const db = drizzle({ client: sqlite, schema });
 // Enable foreign keys
 sqlite.run('PRAGMA foreign_keys = ON');
 
+// Add a column to an existing table (CREATE TABLE IF NOT EXISTS won't alter older databases).
+// Returns whether the column was added.
+function addColumnIfMissing(table: string, column: string, definition: string): boolean {
+  const columns = sqlite.query(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (columns.some(c => c.name === column)) return false;
+  sqlite.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  return true;
+}
+
 // Initialize database with tables if they don't exist
 try {
   // Create datasets table
@@ -19,6 +29,11 @@ try {
     )
   `);
 
+  // Columns added to datasets after the initial schema
+  addColumnIfMissing('datasets', 'trigger_word', 'TEXT');
+  addColumnIfMissing('datasets', 'resolutions', 'TEXT');
+  addColumnIfMissing('datasets', 'processing_config', 'TEXT');
+
   // Create videos table
   sqlite.run(`
     CREATE TABLE IF NOT EXISTS videos (
@@ -30,7 +45,7 @@ try {
       original_width INTEGER NOT NULL,
       original_height INTEGER NOT NULL,
       start_time REAL NOT NULL DEFAULT 0.0,
-      resolution TEXT NOT NULL DEFAULT '1280x720' CHECK (resolution IN ('1280x720', '720x1280', '768x768')),
+      resolution TEXT NOT NULL DEFAULT '1280x720',
       crop_x INTEGER NOT NULL DEFAULT 0,
       crop_y INTEGER NOT NULL DEFAULT 0,
       crop_width INTEGER NOT NULL,
@@ -40,6 +55,131 @@ try {
       status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processed', 'error'))
     )
   `);
+
+  // Older databases restrict videos.resolution to three presets; SQLite can't drop a CHECK,
+  // so rebuild the table without it
+  const videosTable = sqlite.query(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'videos'`).get() as { sql: string } | null;
+  if (videosTable?.sql.includes('CHECK (resolution IN')) {
+    sqlite.run('PRAGMA foreign_keys = OFF');
+    sqlite.transaction(() => {
+      sqlite.run(`CREATE TABLE videos_new (${videosTable.sql.slice(videosTable.sql.indexOf('(') + 1, videosTable.sql.lastIndexOf(')'))
+        .replace(/\s*CHECK \(resolution IN \([^)]*\)\)/, '')})`);
+      sqlite.run('INSERT INTO videos_new SELECT * FROM videos');
+      sqlite.run('DROP TABLE videos');
+      sqlite.run('ALTER TABLE videos_new RENAME TO videos');
+    })();
+    sqlite.run('PRAGMA foreign_keys = ON');
+  }
+
+  // Columns added to videos after the initial schema
+  addColumnIfMissing('videos', 'progress', 'REAL NOT NULL DEFAULT 0');
+  addColumnIfMissing('videos', 'eta_seconds', 'REAL');
+  addColumnIfMissing('videos', 'scene_cuts', 'TEXT');
+  addColumnIfMissing('videos', 'thumbnail_path', 'TEXT');
+  addColumnIfMissing('videos', 'filmstrip_path', 'TEXT');
+  addColumnIfMissing('videos', 'codec', 'TEXT');
+  addColumnIfMissing('videos', 'proxy_status', "TEXT NOT NULL DEFAULT 'none'");
+  addColumnIfMissing('videos', 'proxy_path', 'TEXT');
+  addColumnIfMissing('videos', 'is_external', 'INTEGER NOT NULL DEFAULT 0');
+  addColumnIfMissing('videos', 'content_hash', 'TEXT');
+  addColumnIfMissing('videos', 'fingerprint', 'TEXT');
+  addColumnIfMissing('videos', 'ignored_duplicate_ids', 'TEXT');
+  addColumnIfMissing('videos', 'active_area', 'TEXT');
+  addColumnIfMissing('videos', 'motion_energy', 'TEXT');
+
+  // Create clips table
+  sqlite.run(`
+    CREATE TABLE IF NOT EXISTS clips (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      video_id INTEGER NOT NULL REFERENCES videos(id),
+      start_time REAL NOT NULL DEFAULT 0.0,
+      resolution TEXT NOT NULL DEFAULT '1280x720',
+      crop_x INTEGER NOT NULL DEFAULT 0,
+      crop_y INTEGER NOT NULL DEFAULT 0,
+      crop_width INTEGER NOT NULL,
+      crop_height INTEGER NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processed', 'error')),
+      progress REAL NOT NULL DEFAULT 0,
+      eta_seconds REAL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `);
+
+  // Columns added to clips after they were introduced
+  addColumnIfMissing('clips', 'caption', "TEXT NOT NULL DEFAULT ''");
+  addColumnIfMissing('clips', 'output_settings', 'TEXT');
+  addColumnIfMissing('clips', 'crop_keyframes', 'TEXT');
+  addColumnIfMissing('clips', 'quality', 'TEXT');
+  if (addColumnIfMissing('clips', 'output_name', 'TEXT')) {
+    // Outputs used to be found by each clip's position in the dataset; pin that numbering now
+    sqlite.run(`
+      UPDATE clips SET output_name = (
+        SELECT 'vid_' || printf('%04d', numbered.position)
+        FROM (
+          SELECT c.id, ROW_NUMBER() OVER (PARTITION BY v.dataset_id ORDER BY v.id, c.id) AS position
+          FROM clips c JOIN videos v ON v.id = c.video_id
+        ) numbered
+        WHERE numbered.id = clips.id
+      )
+      WHERE status = 'processed'
+    `);
+  }
+
+  // Videos created before clips existed get one clip carrying their own settings
+  sqlite.run(`
+    INSERT INTO clips (video_id, start_time, resolution, crop_x, crop_y, crop_width, crop_height, status)
+    SELECT id, start_time, resolution, crop_x, crop_y, crop_width, crop_height, status
+    FROM videos
+    WHERE id NOT IN (SELECT video_id FROM clips)
+  `);
+
+  // Create jobs table
+  sqlite.run(`
+    CREATE TABLE IF NOT EXISTS jobs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      dataset_id INTEGER NOT NULL REFERENCES datasets(id),
+      type TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+      payload TEXT NOT NULL,
+      total_count INTEGER NOT NULL DEFAULT 0,
+      processed_count INTEGER NOT NULL DEFAULT 0,
+      failed_count INTEGER NOT NULL DEFAULT 0,
+      error TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      started_at TEXT,
+      finished_at TEXT
+    )
+  `);
+
+  // Create chunked uploads table
+  sqlite.run(`
+    CREATE TABLE IF NOT EXISTS uploads (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      dataset_id INTEGER NOT NULL REFERENCES datasets(id),
+      filename TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      received_bytes INTEGER NOT NULL DEFAULT 0,
+      temp_path TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `);
+
+  // Create processing presets table, seeding the built-in presets the first time
+  const hasPresetsTable = sqlite.query(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'processing_presets'`).get();
+  sqlite.run(`
+    CREATE TABLE IF NOT EXISTS processing_presets (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      settings TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `);
+  if (!hasPresetsTable) {
+    const insertPreset = sqlite.prepare('INSERT INTO processing_presets (name, settings) VALUES (?, ?)');
+    for (const preset of BUILT_IN_PROCESSING_PRESETS) {
+      insertPreset.run(preset.name, JSON.stringify(preset.settings));
+    }
+  }
   
   console.log('Database initialized successfully');
 } catch (error) {
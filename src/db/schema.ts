@@ -1,10 +1,17 @@
 import { sqliteTable, integer, text, real } from 'drizzle-orm/sqlite-core';
 import { relations } from 'drizzle-orm';
+import type { ActiveArea, ClipQuality, CropKeyframe, ProcessingConfig, ProcessingSettings } from '@/types';
 
 // Datasets table
 export const datasets = sqliteTable('datasets', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   name: text('name').notNull(),
+  // Prepended to every clip caption when writing sidecar .txt files
+  triggerWord: text('trigger_word'),
+  // Output resolution presets ("WIDTHxHEIGHT"); null means the defaults
+  resolutions: text('resolutions', { mode: 'json' }).$type<string[]>(),
+  // Processing settings last saved for the dataset; null means the defaults
+  processingConfig: text('processing_config', { mode: 'json' }).$type<ProcessingConfig>(),
   createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
 });
 
@@ -18,7 +25,7 @@ export const videos = sqliteTable('videos', {
   originalWidth: integer('original_width').notNull(),
   originalHeight: integer('original_height').notNull(),
   startTime: real('start_time').notNull().default(0.0),
-  resolution: text('resolution', { enum: ['1280x720', '720x1280', '768x768'] }).notNull().default('1280x720'),
+  resolution: text('resolution').notNull().default('1280x720'),
   cropX: integer('crop_x').notNull().default(0),
   cropY: integer('crop_y').notNull().default(0),
   cropWidth: integer('crop_width').notNull(),
@@ -26,21 +33,130 @@ export const videos = sqliteTable('videos', {
   fps: integer('fps'),
   frameCount: integer('frame_count'),
   status: text('status', { enum: ['pending', 'processed', 'error'] }).notNull().default('pending'),
+  progress: real('progress').notNull().default(0),
+  etaSeconds: real('eta_seconds'),
+  // Hard-cut timestamps (seconds) found by scene detection; null until the video has been analysed
+  sceneCuts: text('scene_cuts', { mode: 'json' }).$type<number[]>(),
+  // Preview images under previews/; null until they have been generated
+  thumbnailPath: text('thumbnail_path'),
+  filmstripPath: text('filmstrip_path'),
+  // Video codec reported by ffprobe (null if it could not be probed)
+  codec: text('codec'),
+  // Browser preview transcode for codecs/containers browsers can't play; processing always reads filepath
+  proxyStatus: text('proxy_status', { enum: ['none', 'pending', 'ready', 'error'] }).notNull().default('none'),
+  proxyPath: text('proxy_path'),
+  // Imported in place from a server folder: filepath is outside uploads/ and is never deleted by the app
+  isExternal: integer('is_external', { mode: 'boolean' }).notNull().default(false),
+  // SHA-256 of the file and pHashes of frames sampled over the video; null until fingerprinted
+  contentHash: text('content_hash'),
+  fingerprint: text('fingerprint', { mode: 'json' }).$type<string[]>(),
+  // Videos the user chose to keep alongside this one although they look like duplicates
+  ignoredDuplicateIds: text('ignored_duplicate_ids', { mode: 'json' }).$type<number[]>(),
+  // Picture area inside baked-in black bars, found by cropdetect on upload; null means the whole frame
+  activeArea: text('active_area', { mode: 'json' }).$type<ActiveArea>(),
+  // Mean frame difference (0-255) per second of video; null until motion analysis has run
+  motionEnergy: text('motion_energy', { mode: 'json' }).$type<number[]>(),
+});
+
+// Clips table - each clip is one training output cut from a source video
+export const clips = sqliteTable('clips', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  videoId: integer('video_id').notNull().references(() => videos.id),
+  startTime: real('start_time').notNull().default(0.0),
+  resolution: text('resolution').notNull().default('1280x720'),
+  cropX: integer('crop_x').notNull().default(0),
+  cropY: integer('crop_y').notNull().default(0),
+  cropWidth: integer('crop_width').notNull(),
+  cropHeight: integer('crop_height').notNull(),
+  // Animated crop position (pan & scan); null keeps the crop fixed
+  cropKeyframes: text('crop_keyframes', { mode: 'json' }).$type<CropKeyframe[]>(),
+  caption: text('caption').notNull().default(''),
+  status: text('status', { enum: ['pending', 'processed', 'error'] }).notNull().default('pending'),
+  progress: real('progress').notNull().default(0),
+  etaSeconds: real('eta_seconds'),
+  // Settings the current output file was encoded with
+  outputSettings: text('output_settings', { mode: 'json' }).$type<ProcessingSettings>(),
+  // Base name of the clip's output files (e.g. "vid_0001"), kept when other clips come and go
+  outputName: text('output_name'),
+  // Scores and issues from the last quality check of the clip's window; null until checked
+  quality: text('quality', { mode: 'json' }).$type<ClipQuality>(),
+  createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
+});
+
+// Named processing presets, shared across datasets
+export const processingPresets = sqliteTable('processing_presets', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull().unique(),
+  settings: text('settings', { mode: 'json' }).$type<ProcessingSettings>().notNull(),
+  createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
+});
+
+// Background jobs table
+export const jobs = sqliteTable('jobs', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  datasetId: integer('dataset_id').notNull().references(() => datasets.id),
+  type: text('type', { enum: ['process-dataset', 'detect-scenes', 'generate-previews', 'generate-proxy', 'fingerprint-video', 'check-quality', 'analyze-motion', 'auto-crop'] }).notNull(),
+  status: text('status', { enum: ['queued', 'running', 'completed', 'failed', 'cancelled'] }).notNull().default('queued'),
+  payload: text('payload', { mode: 'json' }).$type<Record<string, unknown>>().notNull(),
+  totalCount: integer('total_count').notNull().default(0),
+  processedCount: integer('processed_count').notNull().default(0),
+  failedCount: integer('failed_count').notNull().default(0),
+  error: text('error'),
+  createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
+  startedAt: text('started_at'),
+  finishedAt: text('finished_at'),
+});
+
+// Chunked uploads in progress; the row is removed once the file becomes a video
+export const uploads = sqliteTable('uploads', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  datasetId: integer('dataset_id').notNull().references(() => datasets.id),
+  filename: text('filename').notNull(),
+  size: integer('size').notNull(),
+  // Bytes written so far; chunks must arrive in order, so resuming continues from here
+  receivedBytes: integer('received_bytes').notNull().default(0),
+  // Partial file the chunks are written to
+  tempPath: text('temp_path').notNull(),
+  createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
 });
 
 // Relations
 export const datasetsRelations = relations(datasets, ({ many }) => ({
   videos: many(videos),
+  jobs: many(jobs),
 }));
 
-export const videosRelations = relations(videos, ({ one }) => ({
+export const videosRelations = relations(videos, ({ one, many }) => ({
   dataset: one(datasets, {
     fields: [videos.datasetId],
     references: [datasets.id],
   }),
+  clips: many(clips),
+}));
+
+export const clipsRelations = relations(clips, ({ one }) => ({
+  video: one(videos, {
+    fields: [clips.videoId],
+    references: [videos.id],
+  }),
+}));
+
+export const jobsRelations = relations(jobs, ({ one }) => ({
+  dataset: one(datasets, {
+    fields: [jobs.datasetId],
+    references: [datasets.id],
+  }),
 }));
 
 export type Dataset = typeof datasets.$inferSelect;
 export type NewDataset = typeof datasets.$inferInsert;
 export type Video = typeof videos.$inferSelect;
 export type NewVideo = typeof videos.$inferInsert;
+export type Clip = typeof clips.$inferSelect;
+export type NewClip = typeof clips.$inferInsert;
+export type ProcessingPreset = typeof processingPresets.$inferSelect;
+export type NewProcessingPreset = typeof processingPresets.$inferInsert;
+export type Job = typeof jobs.$inferSelect;
+export type NewJob = typeof jobs.$inferInsert;
+export type Upload = typeof uploads.$inferSelect;
+export type NewUpload = typeof uploads.$inferInsert;
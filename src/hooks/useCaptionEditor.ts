@@ -0,0 +1,60 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { useUpdateClip } from './useQueries';
+import type { Clip } from '@/types';
+
+interface UseCaptionEditorOptions {
+  clip: Clip;
+}
+
+export function useCaptionEditor({ clip }: UseCaptionEditorOptions) {
+  // Local caption (optimistic), saved after typing pauses
+  const [caption, setCaption] = useState(clip.caption);
+
+  const updateClipMutation = useUpdateClip();
+  const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const pendingSaveRef = useRef<{ id: number; caption: string } | null>(null);
+
+  const flushSave = useCallback(() => {
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = null;
+    }
+    if (pendingSaveRef.current) {
+      const { id, caption } = pendingSaveRef.current;
+      pendingSaveRef.current = null;
+      updateClipMutation.mutate({ id, data: { caption } });
+    }
+  }, [updateClipMutation]);
+
+  // Pick up the stored caption for a newly selected clip, unless there are unsaved edits
+  useEffect(() => {
+    if (!pendingSaveRef.current) {
+      setCaption(clip.caption);
+    }
+  }, [clip.id, clip.caption]);
+
+  // Save edits to the previous clip before switching to another one (or unmounting)
+  const flushSaveRef = useRef(flushSave);
+  flushSaveRef.current = flushSave;
+  useEffect(() => {
+    return () => flushSaveRef.current();
+  }, [clip.id]);
+
+  const updateCaption = useCallback((newCaption: string) => {
+    setCaption(newCaption);
+    pendingSaveRef.current = { id: clip.id, caption: newCaption };
+
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+    }
+    saveTimeoutRef.current = setTimeout(flushSave, 500);
+  }, [clip.id, flushSave]);
+
+  return {
+    caption,
+    updateCaption,
+    saveImmediately: flushSave,
+    isSaving: updateClipMutation.isPending,
+    error: updateClipMutation.error,
+  };
+}
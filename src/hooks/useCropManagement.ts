@@ -1,35 +1,97 @@
 import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
-import { computeCropSizeForResolution, constrainCrop, centerCrop, isValidCrop } from '@/lib/video-utils';
-import { useUpdateVideo } from './useQueries';
-import type { Video } from '@/types';
+import { centerCropInActiveArea, computeMaxCrop, constrainCropToActiveArea, isValidCrop } from '@/lib/video-utils';
+import { findKeyframeAt, interpolateCropPosition } from '@/lib/crop-keyframes';
+import { useUpdateClip } from './useQueries';
+import type { Video, Clip, CropEasing, CropKeyframe } from '@/types';
+
+// Bounds the crop is kept in: the picture inside any black bars
+type CropBounds = Pick<Video, 'originalWidth' | 'originalHeight' | 'activeArea'>;
 
 interface UseCropManagementOptions {
   video: Video;
+  // The clip whose framing is being edited (bounds still come from the source video)
+  clip: Clip;
+  // Playhead position in seconds from the clip start; keyframes are added and shown here
+  clipTime: number;
 }
 
-export function useCropManagement({ video }: UseCropManagementOptions) {
-  // Local state for crop values (optimistic updates)
-  const [localCrop, setLocalCrop] = useState({
-    resolution: video.resolution,
-    cropX: video.cropX,
-    cropY: video.cropY,
-    cropWidth: video.cropWidth || video.originalWidth,
-    cropHeight: video.cropHeight || video.originalHeight,
+// Move keyframes to fit a new crop size, keeping each one's center where possible
+function refitKeyframes(
+  keyframes: CropKeyframe[],
+  oldWidth: number,
+  oldHeight: number,
+  newWidth: number,
+  newHeight: number,
+  bounds: CropBounds
+): CropKeyframe[] {
+  return keyframes.map(keyframe => {
+    const constrained = constrainCropToActiveArea(
+      keyframe.x + (oldWidth - newWidth) / 2,
+      keyframe.y + (oldHeight - newHeight) / 2,
+      newWidth,
+      newHeight,
+      bounds
+    );
+    return { ...keyframe, x: Math.round(constrained.x), y: Math.round(constrained.y) };
   });
+}
+
+// Local crop state for a clip; a clip without a crop size yet gets the largest crop inside the picture
+function getLocalCrop(clip: Clip, bounds: CropBounds) {
+  const maxCrop = clip.cropWidth && clip.cropHeight ? null : computeMaxCrop(clip.resolution, bounds);
+  return {
+    resolution: clip.resolution,
+    cropX: maxCrop?.x ?? clip.cropX,
+    cropY: maxCrop?.y ?? clip.cropY,
+    cropWidth: maxCrop?.width ?? clip.cropWidth,
+    cropHeight: maxCrop?.height ?? clip.cropHeight,
+    cropKeyframes: clip.cropKeyframes ?? [],
+  };
+}
+
+// Add a keyframe at `time`, replacing one already there (and keeping its easing)
+function upsertKeyframe(keyframes: CropKeyframe[], time: number, x: number, y: number): CropKeyframe[] {
+  const index = findKeyframeAt(keyframes, time);
+  if (index >= 0) {
+    return keyframes.map((keyframe, i) => i === index ? { ...keyframe, x: Math.round(x), y: Math.round(y) } : keyframe);
+  }
+  return [...keyframes, { time, x: Math.round(x), y: Math.round(y), easing: 'linear' as CropEasing }]
+    .sort((a, b) => a.time - b.time);
+}
+
+// The fixed crop position follows the first keyframe
+function withKeyframes<T extends { cropX: number; cropY: number }>(crop: T, cropKeyframes: CropKeyframe[]) {
+  const first = cropKeyframes[0];
+  return first ? { ...crop, cropKeyframes, cropX: first.x, cropY: first.y } : { ...crop, cropKeyframes };
+}
+
+export function useCropManagement({ video, clip, clipTime }: UseCropManagementOptions) {
+  // Crops are kept clear of letterbox/pillarbox bars. Keyed on the values, since refetches
+  // bring a new activeArea object that would otherwise reset the local crop.
+  const { activeArea } = video;
+  const bounds = useMemo<CropBounds>(() => ({
+    originalWidth: video.originalWidth,
+    originalHeight: video.originalHeight,
+    activeArea,
+  }), [video.originalWidth, video.originalHeight, activeArea?.x, activeArea?.y, activeArea?.width, activeArea?.height]);
+
+  // Local state for crop values (optimistic updates)
+  const [localCrop, setLocalCrop] = useState(() => getLocalCrop(clip, bounds));
 
-  const updateVideoMutation = useUpdateVideo();
+  const updateClipMutation = useUpdateClip();
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Reset local state when video changes
+  // Read inside state updaters, which must not close over a stale playhead
+  const clipTimeRef = useRef(clipTime);
+  clipTimeRef.current = Math.max(0, clipTime);
+
+  // Reset local state when the clip changes. Keyframes are compared by value: every refetch
+  // (e.g. after any background job finishes) brings a new array, and resetting on that would
+  // drop an edit still waiting for its debounced save.
+  const keyframesKey = JSON.stringify(clip.cropKeyframes ?? null);
   useEffect(() => {
-    setLocalCrop({
-      resolution: video.resolution,
-      cropX: video.cropX,
-      cropY: video.cropY,
-      cropWidth: video.cropWidth || video.originalWidth,
-      cropHeight: video.cropHeight || video.originalHeight,
-    });
-  }, [video.id, video.resolution, video.cropX, video.cropY, video.cropWidth, video.cropHeight, video.originalWidth, video.originalHeight]);
+    setLocalCrop(getLocalCrop(clip, bounds));
+  }, [clip.id, clip.resolution, clip.cropX, clip.cropY, clip.cropWidth, clip.cropHeight, keyframesKey, bounds]);
 
   // Debounced save function that uses current state
   const scheduleSave = useCallback(() => {
@@ -39,21 +101,22 @@ export function useCropManagement({ video }: UseCropManagementOptions) {
 
     saveTimeoutRef.current = setTimeout(() => {
       setLocalCrop(currentCrop => {
-        updateVideoMutation.mutate({
-          id: video.id,
+        updateClipMutation.mutate({
+          id: clip.id,
           data: {
             resolution: currentCrop.resolution,
             cropX: currentCrop.cropX,
             cropY: currentCrop.cropY,
             cropWidth: currentCrop.cropWidth,
             cropHeight: currentCrop.cropHeight,
+            cropKeyframes: currentCrop.cropKeyframes,
           },
         });
         return currentCrop; // Return same state to avoid re-render
       });
       saveTimeoutRef.current = null;
     }, 500);
-  }, [video.id, updateVideoMutation]);
+  }, [clip.id, updateClipMutation]);
 
   // Save immediately (cancel debounce)
   const saveImmediately = useCallback(() => {
@@ -63,164 +126,200 @@ export function useCropManagement({ video }: UseCropManagementOptions) {
     }
     
     setLocalCrop(currentCrop => {
-      updateVideoMutation.mutate({
-        id: video.id,
+      updateClipMutation.mutate({
+        id: clip.id,
         data: {
           resolution: currentCrop.resolution,
           cropX: currentCrop.cropX,
           cropY: currentCrop.cropY,
           cropWidth: currentCrop.cropWidth,
           cropHeight: currentCrop.cropHeight,
+          cropKeyframes: currentCrop.cropKeyframes,
         },
       });
       return currentCrop;
     });
-  }, [video.id, updateVideoMutation]);
-
-  // Reset to video state from props
-  const resetToVideoState = useCallback(() => {
-    setLocalCrop({
-      resolution: video.resolution,
-      cropX: video.cropX,
-      cropY: video.cropY,
-      cropWidth: video.cropWidth || video.originalWidth,
-      cropHeight: video.cropHeight || video.originalHeight,
-    });
-  }, [video.resolution, video.cropX, video.cropY, video.cropWidth, video.cropHeight, video.originalWidth, video.originalHeight]);
+  }, [clip.id, updateClipMutation]);
+
+  // Reset to clip state from props
+  const resetToClipState = useCallback(() => {
+    setLocalCrop(getLocalCrop(clip, bounds));
+  }, [clip, bounds]);
 
   // Update crop position
   const updateCropPosition = useCallback((newX: number, newY: number) => {
     setLocalCrop(currentCrop => {
-      const constrained = constrainCrop(
+      const constrained = constrainCropToActiveArea(
         newX,
         newY,
         currentCrop.cropWidth,
         currentCrop.cropHeight,
-        video.originalWidth,
-        video.originalHeight
+        bounds
       );
 
-      const newCrop = {
-        ...currentCrop,
-        cropX: constrained.x,
-        cropY: constrained.y,
-      };
+      // With keyframes, moving the crop sets the keyframe at the playhead
+      const newCrop = currentCrop.cropKeyframes.length > 0
+        ? withKeyframes(currentCrop, upsertKeyframe(currentCrop.cropKeyframes, clipTimeRef.current, constrained.x, constrained.y))
+        : { ...currentCrop, cropX: constrained.x, cropY: constrained.y };
 
       // Schedule save after state update
       setTimeout(() => scheduleSave(), 0);
       
       return newCrop;
     });
-  }, [video.originalWidth, video.originalHeight, scheduleSave]);
+  }, [bounds, scheduleSave]);
 
   // Update crop size by scale
   const updateCropSize = useCallback((scale: number) => {
     setLocalCrop(currentCrop => {
-      const { width: maxWidth, height: maxHeight } = computeCropSizeForResolution(
-        currentCrop.resolution,
-        video.originalWidth,
-        video.originalHeight
-      );
+      // Scale 1 is the largest crop that stays clear of black bars
+      const { width: maxWidth, height: maxHeight } = computeMaxCrop(currentCrop.resolution, bounds);
 
       const newWidth = Math.max(1, Math.round(maxWidth * scale));
       const newHeight = Math.max(1, Math.round(maxHeight * scale));
 
       // Adjust position if crop would exceed bounds
-      const constrained = constrainCrop(
+      const constrained = constrainCropToActiveArea(
         currentCrop.cropX,
         currentCrop.cropY,
         newWidth,
         newHeight,
-        video.originalWidth,
-        video.originalHeight
+        bounds
       );
 
-      const newCrop = {
+      const newCrop = withKeyframes({
         ...currentCrop,
         cropWidth: newWidth,
         cropHeight: newHeight,
         cropX: constrained.x,
         cropY: constrained.y,
-      };
+      }, refitKeyframes(
+        currentCrop.cropKeyframes,
+        currentCrop.cropWidth,
+        currentCrop.cropHeight,
+        newWidth,
+        newHeight,
+        bounds
+      ));
 
       // Schedule save after state update
       setTimeout(() => scheduleSave(), 0);
 
       return newCrop;
     });
-  }, [video.originalWidth, video.originalHeight, scheduleSave]);
+  }, [bounds, scheduleSave]);
 
-  // Reset crop to maximum size for current resolution
+  // Reset crop to the maximum size for the current resolution that stays clear of black bars
   const resetCropToMax = useCallback(() => {
     setLocalCrop(currentCrop => {
-      const { width, height } = computeCropSizeForResolution(
-        currentCrop.resolution,
-        video.originalWidth,
-        video.originalHeight
-      );
-      const centered = centerCrop(width, height, video.originalWidth, video.originalHeight);
+      const { x, y, width, height } = computeMaxCrop(currentCrop.resolution, bounds);
 
-      const newCrop = {
+      const newCrop = withKeyframes({
         ...currentCrop,
         cropWidth: width,
         cropHeight: height,
-        cropX: centered.x,
-        cropY: centered.y,
-      };
+        cropX: x,
+        cropY: y,
+      }, refitKeyframes(
+        currentCrop.cropKeyframes,
+        currentCrop.cropWidth,
+        currentCrop.cropHeight,
+        width,
+        height,
+        bounds
+      ));
 
       // Schedule save after state update
       setTimeout(() => scheduleSave(), 0);
 
       return newCrop;
     });
-  }, [video.originalWidth, video.originalHeight, scheduleSave]);
+  }, [bounds, scheduleSave]);
 
   // Handle resolution change
   const handleResolutionChange = useCallback((newResolution: Video['resolution']) => {
     setLocalCrop(currentCrop => {
-      const { width: newWidth, height: newHeight } = computeCropSizeForResolution(
-        newResolution,
-        video.originalWidth,
-        video.originalHeight
-      );
+      const { width: newWidth, height: newHeight } = computeMaxCrop(newResolution, bounds);
 
-      // Preserve center position
+      // Preserve center position, within the picture
       const centerX = currentCrop.cropX + currentCrop.cropWidth / 2;
       const centerY = currentCrop.cropY + currentCrop.cropHeight / 2;
-
-      let newCropX = Math.max(0, centerX - newWidth / 2);
-      let newCropY = Math.max(0, centerY - newHeight / 2);
-
-      // Constrain to video bounds
-      const constrained = constrainCrop(
-        newCropX,
-        newCropY,
+      const constrained = constrainCropToActiveArea(
+        Math.round(centerX - newWidth / 2),
+        Math.round(centerY - newHeight / 2),
         newWidth,
         newHeight,
-        video.originalWidth,
-        video.originalHeight
+        bounds
       );
 
-      const newCrop = {
+      const newCrop = withKeyframes({
         ...currentCrop,
         resolution: newResolution,
         cropWidth: newWidth,
         cropHeight: newHeight,
         cropX: constrained.x,
         cropY: constrained.y,
-      };
+      }, refitKeyframes(
+        currentCrop.cropKeyframes,
+        currentCrop.cropWidth,
+        currentCrop.cropHeight,
+        newWidth,
+        newHeight,
+        bounds
+      ));
 
       // Save immediately for resolution changes
       setTimeout(() => {
-        updateVideoMutation.mutate({
-          id: video.id,
+        updateClipMutation.mutate({
+          id: clip.id,
           data: newCrop,
         });
       }, 0);
 
       return newCrop;
     });
-  }, [video.originalWidth, video.originalHeight, video.id, updateVideoMutation]);
+  }, [bounds, clip.id, updateClipMutation]);
+
+  // Add (or move) a keyframe at the playhead, starting from the position currently shown
+  const addKeyframe = useCallback(() => {
+    setLocalCrop(currentCrop => {
+      const time = clipTimeRef.current;
+      const position = interpolateCropPosition(currentCrop.cropKeyframes, time)
+        ?? { x: currentCrop.cropX, y: currentCrop.cropY };
+      const newCrop = withKeyframes(currentCrop, upsertKeyframe(currentCrop.cropKeyframes, time, position.x, position.y));
+
+      setTimeout(() => saveImmediately(), 0);
+      return newCrop;
+    });
+  }, [saveImmediately]);
+
+  const removeKeyframe = useCallback((index: number) => {
+    setLocalCrop(currentCrop => {
+      const newCrop = withKeyframes(currentCrop, currentCrop.cropKeyframes.filter((_, i) => i !== index));
+      setTimeout(() => saveImmediately(), 0);
+      return newCrop;
+    });
+  }, [saveImmediately]);
+
+  const setKeyframeEasing = useCallback((index: number, easing: CropEasing) => {
+    setLocalCrop(currentCrop => {
+      const newCrop = withKeyframes(
+        currentCrop,
+        currentCrop.cropKeyframes.map((keyframe, i) => i === index ? { ...keyframe, easing } : keyframe)
+      );
+      setTimeout(() => saveImmediately(), 0);
+      return newCrop;
+    });
+  }, [saveImmediately]);
+
+  // Back to a fixed crop (at the first keyframe's position)
+  const clearKeyframes = useCallback(() => {
+    setLocalCrop(currentCrop => {
+      const newCrop = { ...currentCrop, cropKeyframes: [] };
+      setTimeout(() => saveImmediately(), 0);
+      return newCrop;
+    });
+  }, [saveImmediately]);
 
   // Check if crop is valid and centered when needed
   const cropNeedsReset = useMemo(() => {
@@ -238,12 +337,7 @@ export function useCropManagement({ video }: UseCropManagementOptions) {
   const fixInvalidCrop = useCallback(() => {
     if (cropNeedsReset) {
       setLocalCrop(currentCrop => {
-        const centered = centerCrop(
-          currentCrop.cropWidth,
-          currentCrop.cropHeight,
-          video.originalWidth,
-          video.originalHeight
-        );
+        const centered = centerCropInActiveArea(currentCrop.cropWidth, currentCrop.cropHeight, bounds);
 
         const newCrop = {
           ...currentCrop,
@@ -255,7 +349,7 @@ export function useCropManagement({ video }: UseCropManagementOptions) {
         return newCrop;
       });
     }
-  }, [cropNeedsReset, video.originalWidth, video.originalHeight, scheduleSave]);
+  }, [cropNeedsReset, bounds, scheduleSave]);
 
   // Cleanup timeout on unmount
   const cleanup = useCallback(() => {
@@ -270,13 +364,17 @@ export function useCropManagement({ video }: UseCropManagementOptions) {
     return cleanup;
   }, [cleanup]);
 
+  // Where the crop sits at the playhead: animated when keyframed, fixed otherwise
+  const animatedPosition = interpolateCropPosition(localCrop.cropKeyframes, Math.max(0, clipTime));
+
   return {
     // State (using local optimistic state)
     resolution: localCrop.resolution,
-    cropX: localCrop.cropX,
-    cropY: localCrop.cropY,
+    cropX: animatedPosition?.x ?? localCrop.cropX,
+    cropY: animatedPosition?.y ?? localCrop.cropY,
     cropWidth: localCrop.cropWidth,
     cropHeight: localCrop.cropHeight,
+    cropKeyframes: localCrop.cropKeyframes,
 
     // Actions
     updateCropPosition,
@@ -284,13 +382,17 @@ export function useCropManagement({ video }: UseCropManagementOptions) {
     resetCropToMax,
     handleResolutionChange,
     saveImmediately,
-    resetToVideoState,
+    resetToClipState,
     fixInvalidCrop,
+    addKeyframe,
+    removeKeyframe,
+    setKeyframeEasing,
+    clearKeyframes,
     cleanup,
 
     // Status
-    isLoading: updateVideoMutation.isPending,
-    error: updateVideoMutation.error,
+    isLoading: updateClipMutation.isPending,
+    error: updateClipMutation.error,
     cropNeedsReset,
   };
 }
@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import api from '@/services/api';
+import { queryKeys } from './useQueries';
+import type { Dataset, DatasetEvent, Job, ProcessingLogLine } from '@/types';
+
+// Number of FFMPEG log lines kept in memory
+const MAX_LOG_LINES = 200;
+
+interface UseDatasetEventsOptions {
+  datasetId: number;
+  enabled?: boolean;
+}
+
+/**
+ * Subscribe to a dataset's Server-Sent Events stream and write updates straight into
+ * the TanStack Query cache, so components re-render without polling.
+ */
+export function useDatasetEvents({ datasetId, enabled = true }: UseDatasetEventsOptions) {
+  const [logs, setLogs] = useState<ProcessingLogLine[]>([]);
+  const [isConnected, setIsConnected] = useState(false);
+  const queryClient = useQueryClient();
+
+  const handleEvent = useCallback((event: DatasetEvent) => {
+    switch (event.type) {
+      case 'video':
+        queryClient.setQueryData(queryKeys.dataset(datasetId), (old: Dataset | null | undefined) => {
+          if (!old || !old.videos) return old;
+          return {
+            ...old,
+            // Events carry the bare video row, so keep the cached clips
+            videos: old.videos.map(video => video.id === event.video.id ? { ...video, ...event.video } : video),
+          };
+        });
+        break;
+      case 'clip':
+        queryClient.setQueryData(queryKeys.dataset(datasetId), (old: Dataset | null | undefined) => {
+          if (!old || !old.videos) return old;
+          return {
+            ...old,
+            // Clips added elsewhere (another tab, a scene split) are appended
+            videos: old.videos.map(video => {
+              if (video.id !== event.clip.videoId) return video;
+              const clips = video.clips ?? [];
+              return {
+                ...video,
+                clips: clips.some(clip => clip.id === event.clip.id)
+                  ? clips.map(clip => clip.id === event.clip.id ? event.clip : clip)
+                  : [...clips, event.clip],
+              };
+            }),
+          };
+        });
+        break;
+      case 'clip-deleted':
+        queryClient.setQueryData(queryKeys.dataset(datasetId), (old: Dataset | null | undefined) => {
+          if (!old || !old.videos) return old;
+          return {
+            ...old,
+            videos: old.videos.map(video => video.id === event.videoId
+              ? { ...video, clips: video.clips?.filter(clip => clip.id !== event.clipId) }
+              : video),
+          };
+        });
+        break;
+      case 'job':
+        queryClient.setQueryData(queryKeys.datasetJobs(datasetId), (old: Job[] = []) => {
+          const exists = old.some(job => job.id === event.job.id);
+          return exists
+            ? old.map(job => job.id === event.job.id ? event.job : job)
+            : [event.job, ...old];
+        });
+        // Resync everything once a job finishes
+        if (event.job.status !== 'queued' && event.job.status !== 'running') {
+          queryClient.invalidateQueries({ queryKey: queryKeys.dataset(datasetId) });
+        }
+        break;
+      case 'log':
+        setLogs(prev => [...prev, { videoId: event.videoId, clipId: event.clipId, line: event.line }].slice(-MAX_LOG_LINES));
+        break;
+    }
+  }, [datasetId, queryClient]);
+
+  useEffect(() => {
+    if (!enabled || !datasetId || isNaN(datasetId)) return;
+
+    // EventSource reconnects on its own after network errors
+    const source = new EventSource(api.datasets.eventsUrl(datasetId));
+    const onMessage = (message: MessageEvent<string>) => {
+      try {
+        handleEvent(JSON.parse(message.data) as DatasetEvent);
+      } catch (error) {
+        console.error('Invalid dataset event:', error);
+      }
+    };
+
+    source.addEventListener('ready', () => {
+      setIsConnected(true);
+      // Catch up on anything missed while disconnected
+      queryClient.invalidateQueries({ queryKey: queryKeys.dataset(datasetId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.datasetJobs(datasetId) });
+    });
+    source.addEventListener('video', onMessage);
+    source.addEventListener('clip', onMessage);
+    source.addEventListener('clip-deleted', onMessage);
+    source.addEventListener('job', onMessage);
+    source.addEventListener('log', onMessage);
+    source.onerror = () => setIsConnected(false);
+
+    return () => {
+      source.close();
+      setIsConnected(false);
+    };
+  }, [datasetId, enabled, handleEvent, queryClient]);
+
+  const clearLogs = useCallback(() => setLogs([]), []);
+
+  return {
+    logs,
+    isConnected,
+    clearLogs,
+  };
+}
@@ -1,20 +1,111 @@
-import { useState, useCallback } from 'react';
-import { useQueryClient } from '@tanstack/react-query';
-import { useProcessDataset, queryKeys } from './useQueries';
+import { useCallback, useMemo } from 'react';
+import {
+  useProcessDataset,
+  useCheckDatasetQuality,
+  useCancelJob,
+  useDatasetJobs,
+  useExportLayouts,
+  useExportDataset,
+  useUpdateDataset,
+  useProcessingPresets,
+  useCreateProcessingPreset,
+  useDeleteProcessingPreset,
+} from './useQueries';
+import { useDatasetEvents } from './useDatasetEvents';
 import { isVideoConfigured } from '@/lib/video-utils';
-import type { Video, ProcessingProgress, ProcessingConfig } from '@/types';
+import { describeProcessingSettings } from '@/lib/processing-settings';
+import type { Clip, Job, Video, ProcessingProgress, ProcessingConfig, ProcessingSettings, ExportLayoutId } from '@/types';
 
 interface UseProcessingOptions {
   datasetId: number;
   videos: Video[];
 }
 
-export function useProcessing({ datasetId, videos }: UseProcessingOptions) {
-  const [processingProgress, setProcessingProgress] = useState<ProcessingProgress[]>([]);
-  const [pollIntervalId, setPollIntervalId] = useState<NodeJS.Timeout | null>(null);
+function isJobActive(job: Job) {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+function getClipProgress(clip: Clip): ProcessingProgress {
+  const base = { videoId: clip.videoId, clipId: clip.id };
+  switch (clip.status) {
+    case 'processed':
+      return {
+        ...base,
+        progress: 100,
+        status: 'completed',
+        message: clip.outputSettings
+          ? `Processing complete • ${describeProcessingSettings(clip.outputSettings)}`
+          : 'Processing complete',
+      };
+    case 'error':
+      return { ...base, progress: clip.progress, status: 'error', message: 'Processing failed' };
+    case 'pending':
+      if (clip.progress > 0) {
+        return {
+          ...base,
+          progress: clip.progress,
+          status: 'processing',
+          etaSeconds: clip.etaSeconds,
+          message: 'Processing clip...',
+        };
+      }
+      return { ...base, progress: 0, status: 'idle', message: 'Waiting to start...' };
+    default:
+      return { ...base, progress: 0, status: 'idle', message: 'Waiting to start...' };
+  }
+}
 
+export function useProcessing({ datasetId, videos }: UseProcessingOptions) {
   const processDatasetMutation = useProcessDataset();
-  const queryClient = useQueryClient();
+  const checkQualityMutation = useCheckDatasetQuality();
+  const cancelJobMutation = useCancelJob();
+  const exportDatasetMutation = useExportDataset();
+  const updateDatasetMutation = useUpdateDataset();
+  const createPresetMutation = useCreateProcessingPreset();
+  const deletePresetMutation = useDeleteProcessingPreset();
+  const { data: jobs = [] } = useDatasetJobs(datasetId);
+  const { data: exportLayouts = [] } = useExportLayouts();
+  const { data: presets = [] } = useProcessingPresets();
+
+  // Live video, clip and job updates arrive over SSE and are written into the query cache
+  const { logs, isConnected, clearLogs } = useDatasetEvents({ datasetId });
+
+  // Scene detection jobs share the queue but aren't part of processing
+  const processingJobs = useMemo(() => jobs.filter(job => job.type === 'process-dataset'), [jobs]);
+  const activeJob = processingJobs.find(isJobActive) ?? null;
+  const latestJob = processingJobs[0] ?? null;
+
+  // Clips the latest run left out for failing their quality check; they never start
+  const skippedClipIds = useMemo(
+    () => new Set((latestJob?.payload.skippedClipIds as number[] | undefined) ?? []),
+    [latestJob]
+  );
+
+  // Progress is shown per clip once the dataset has been processed at least once
+  const processingProgress = useMemo(
+    () => (latestJob
+      ? videos.flatMap(video => (video.clips || []).filter(clip => !skippedClipIds.has(clip.id)).map(getClipProgress))
+      : []),
+    [latestJob, videos, skippedClipIds]
+  );
+
+  // Whole-dataset progress, with an ETA extrapolated from the time the job has been running
+  const overallProgress = useMemo(() => {
+    if (processingProgress.length === 0) return null;
+
+    const progress = processingProgress.reduce(
+      (sum, p) => sum + (p.status === 'error' ? 100 : p.progress),
+      0
+    ) / processingProgress.length;
+
+    let etaSeconds: number | null = null;
+    if (activeJob?.startedAt && progress > 0 && progress < 100) {
+      const elapsedSeconds = (Date.now() - Date.parse(activeJob.startedAt)) / 1000;
+      etaSeconds = (elapsedSeconds * (100 - progress)) / progress;
+    }
+
+    return { progress, etaSeconds };
+  }, [processingProgress, activeJob]);
 
   const getConfiguredVideosCount = useCallback(() => {
     return videos.filter(isVideoConfigured).length;
@@ -24,121 +115,108 @@ export function useProcessing({ datasetId, videos }: UseProcessingOptions) {
     return videos.filter((video: Video) => video.status === 'processed').length;
   }, [videos]);
 
-  const startPolling = useCallback(() => {
-    if (pollIntervalId) return; // Already polling
-
-    const intervalId = setInterval(async () => {
-      try {
-        // Refetch the dataset to get updated video statuses
-        await queryClient.invalidateQueries({ queryKey: queryKeys.dataset(datasetId) });
-        
-        // Get the updated data from cache
-        const updatedDataset = queryClient.getQueryData(queryKeys.dataset(datasetId)) as any;
-        
-        if (updatedDataset?.videos) {
-          const updatedProgress = updatedDataset.videos.map((video: Video) => {
-            let status: ProcessingProgress['status'] = 'idle';
-            let progress = 0;
-            let message = '';
-
-            switch (video.status) {
-              case 'processed':
-                status = 'completed';
-                progress = 100;
-                message = 'Processing complete';
-                break;
-              case 'error':
-                status = 'error';
-                progress = 0;
-                message = 'Processing failed';
-                break;
-              case 'pending':
-                status = 'processing';
-                progress = 75;
-                message = 'Processing video...';
-                break;
-              default:
-                status = 'idle';
-                progress = 0;
-                message = 'Waiting to start...';
-            }
-
-            return {
-              videoId: video.id,
-              progress,
-              status,
-              message,
-            };
-          });
-
-          setProcessingProgress(updatedProgress);
-
-          // Check if all videos are completed or errored
-          const allDone = updatedProgress.every((p: ProcessingProgress) => p.status === 'completed' || p.status === 'error');
-          if (allDone) {
-            stopPolling();
-          }
-        }
-      } catch (error) {
-        console.error('Error polling dataset status:', error);
-        stopPolling();
-      }
-    }, 2000);
-
-    setPollIntervalId(intervalId);
+  // Persist the settings so they survive a reload; processing also saves the settings it ran with
+  const saveConfig = useCallback(async (config: ProcessingConfig) => {
+    try {
+      await updateDatasetMutation.mutateAsync({ id: datasetId, data: { processingConfig: config } });
+    } catch (error) {
+      console.error('Failed to save processing settings:', error);
+    }
+  }, [datasetId, updateDatasetMutation]);
 
-    // Safety net: stop polling after 5 minutes
-    setTimeout(() => {
-      stopPolling();
-    }, 300000);
-  }, [datasetId, queryClient, pollIntervalId]);
+  const savePreset = useCallback(async (name: string, settings: ProcessingSettings) => {
+    try {
+      await createPresetMutation.mutateAsync({ name, settings });
+      return true;
+    } catch (error) {
+      console.error('Failed to save preset:', error);
+      return false;
+    }
+  }, [createPresetMutation]);
 
-  const stopPolling = useCallback(() => {
-    if (pollIntervalId) {
-      clearInterval(pollIntervalId);
-      setPollIntervalId(null);
+  const deletePreset = useCallback(async (id: number) => {
+    try {
+      await deletePresetMutation.mutateAsync(id);
+    } catch (error) {
+      console.error('Failed to delete preset:', error);
     }
-  }, [pollIntervalId]);
-
-  const startProcessing = useCallback(async (config: ProcessingConfig) => {
-    // Initialize progress for all videos
-    const initialProgress = videos.map((video: Video) => ({
-      videoId: video.id,
-      progress: video.status === 'processed' ? 100 : 25,
-      status: video.status === 'processed' ? 'completed' as const : 'processing' as const,
-      message: video.status === 'processed' ? 'Already processed' : 'Starting processing...',
-    }));
-    setProcessingProgress(initialProgress);
+  }, [deletePresetMutation]);
+
+  const startProcessing = useCallback(async (config: Partial<ProcessingConfig>) => {
+    clearLogs();
 
     try {
-      // Start the processing
+      // Queue the processing job; progress then arrives through the event stream
       await processDatasetMutation.mutateAsync({ datasetId, config });
-      
-      // Start polling for updates
-      startPolling();
     } catch (error) {
       console.error('Processing failed:', error);
-      setProcessingProgress(prev => 
-        prev.map(p => ({ ...p, status: 'error' as const, message: 'Processing failed' }))
-      );
     }
-  }, [datasetId, videos, processDatasetMutation, startPolling]);
+  }, [datasetId, processDatasetMutation, clearLogs]);
+
+  const cancelProcessing = useCallback(async () => {
+    if (!activeJob) return;
+
+    try {
+      await cancelJobMutation.mutateAsync(activeJob.id);
+    } catch (error) {
+      console.error('Failed to cancel processing:', error);
+    }
+  }, [activeJob, cancelJobMutation]);
+
+  // Re-export already processed clips in a trainer layout without reprocessing
+  const exportDataset = useCallback(async (layout: ExportLayoutId) => {
+    try {
+      await exportDatasetMutation.mutateAsync({ datasetId, layout });
+    } catch (error) {
+      console.error('Export failed:', error);
+    }
+  }, [datasetId, exportDatasetMutation]);
+
+  // Quality results arrive per clip over the event stream
+  const checkQuality = useCallback(async () => {
+    try {
+      await checkQualityMutation.mutateAsync(datasetId);
+    } catch (error) {
+      console.error('Failed to start quality check:', error);
+    }
+  }, [datasetId, checkQualityMutation]);
 
-  // Cleanup function to stop polling
-  const cleanup = useCallback(() => {
-    stopPolling();
-  }, [stopPolling]);
+  const isCheckingQuality = checkQualityMutation.isPending
+    || jobs.some(job => job.type === 'check-quality' && isJobActive(job));
 
-  const canProcess = videos.length > 0 && getConfiguredVideosCount() > 0 && !processDatasetMutation.isPending;
+  const isProcessing = processDatasetMutation.isPending || !!activeJob;
+  const canProcess = videos.length > 0 && getConfiguredVideosCount() > 0 && !isProcessing;
 
   return {
-    isProcessing: processDatasetMutation.isPending || !!pollIntervalId,
+    isProcessing,
     processingProgress,
+    overallProgress,
+    skippedClipCount: skippedClipIds.size,
+    activeJob,
+    logs,
+    isConnected,
     getConfiguredVideosCount,
     getProcessedVideosCount,
     startProcessing,
+    cancelProcessing,
     canProcess,
-    cleanup,
-    error: processDatasetMutation.error,
+    exportLayouts,
+    exportDataset,
+    exportResult: exportDatasetMutation.data ?? null,
+    isExporting: exportDatasetMutation.isPending,
+    checkQuality,
+    isCheckingQuality,
+    saveConfig,
+    presets,
+    savePreset,
+    deletePreset,
+    isSavingPreset: createPresetMutation.isPending,
+    error: processDatasetMutation.error
+      || checkQualityMutation.error
+      || cancelJobMutation.error
+      || exportDatasetMutation.error
+      || updateDatasetMutation.error
+      || createPresetMutation.error
+      || deletePresetMutation.error,
   };
 }
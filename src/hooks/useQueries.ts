@@ -1,12 +1,19 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
 import api from '@/services/api';
-import type { Dataset, Video, ProcessingConfig } from '@/types';
+import { uploadFileInChunks } from '@/services/chunked-upload';
+import type { Dataset, Video, Clip, ProcessingConfig, ProcessingPreset, ProcessingSettings, Job, ExportLayoutId, FolderImportOptions, UploadResult } from '@/types';
 
 // Query Keys
 export const queryKeys = {
   datasets: () => ['datasets'] as const,
   dataset: (id: number) => ['datasets', id] as const,
+  // Under the dataset key, so refreshing the dataset refreshes its duplicates too
+  datasetDuplicates: (id: number) => ['datasets', id, 'duplicates'] as const,
   video: (id: number) => ['videos', id] as const,
+  clipOutput: (id: number) => ['clips', id, 'output'] as const,
+  datasetJobs: (datasetId: number) => ['jobs', { datasetId }] as const,
+  exportLayouts: () => ['export-layouts'] as const,
+  processingPresets: () => ['processing-presets'] as const,
 };
 
 // Dataset Queries
@@ -40,6 +47,24 @@ export function useCreateDataset() {
   });
 }
 
+export function useUpdateDataset() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: Partial<Pick<Dataset, 'triggerWord' | 'resolutions' | 'processingConfig'>> }) =>
+      api.datasets.update(id, data),
+    onSuccess: (updatedDataset) => {
+      // Keep the cached videos; PATCH returns the bare dataset row
+      queryClient.setQueryData(queryKeys.dataset(updatedDataset.id), (old: Dataset | null | undefined) =>
+        old ? { ...old, ...updatedDataset } : old
+      );
+      queryClient.setQueryData(queryKeys.datasets(), (old: Dataset[] | undefined) =>
+        old?.map(dataset => dataset.id === updatedDataset.id ? { ...dataset, ...updatedDataset } : dataset)
+      );
+    },
+  });
+}
+
 export function useDeleteDataset() {
   const queryClient = useQueryClient();
   
@@ -70,7 +95,8 @@ export function useUpdateVideo() {
           return {
             ...old,
             videos: old.videos.map(video =>
-              video.id === updatedVideo.id ? updatedVideo : video
+              // Merge so nested clips survive (PATCH returns the bare video row)
+              video.id === updatedVideo.id ? { ...video, ...updatedVideo } : video
             ),
           };
         }
@@ -104,40 +130,358 @@ export function useDeleteVideo() {
   });
 }
 
+export function useDetectScenes() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id }: { id: number; datasetId: number }) => api.videos.detectScenes(id),
+    onSuccess: (job, { id, datasetId }) => {
+      queryClient.setQueryData(queryKeys.datasetJobs(datasetId), (old: Job[] = []) => [job, ...old]);
+      // The server clears the old cuts until the job stores new ones
+      queryClient.setQueryData(queryKeys.dataset(datasetId), (old: Dataset | undefined) => {
+        if (!old || !old.videos) return old;
+        return {
+          ...old,
+          videos: old.videos.map(video => video.id === id ? { ...video, sceneCuts: null } : video),
+        };
+      });
+    },
+  });
+}
+
+export function useAutoCropVideo() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id }: { id: number; datasetId: number }) => api.videos.autoCrop(id),
+    onSuccess: (job, { datasetId }) => {
+      queryClient.setQueryData(queryKeys.datasetJobs(datasetId), (old: Job[] = []) => [job, ...old]);
+    },
+  });
+}
+
+export function useAnalyzeMotion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id }: { id: number; datasetId: number }) => api.videos.analyzeMotion(id),
+    onSuccess: (job, { id, datasetId }) => {
+      queryClient.setQueryData(queryKeys.datasetJobs(datasetId), (old: Job[] = []) => [job, ...old]);
+      // The server clears the old energy until the job stores a new one
+      queryClient.setQueryData(queryKeys.dataset(datasetId), (old: Dataset | undefined) => {
+        if (!old || !old.videos) return old;
+        return {
+          ...old,
+          videos: old.videos.map(video => video.id === id ? { ...video, motionEnergy: null } : video),
+        };
+      });
+    },
+  });
+}
+
+export function useCheckVideoQuality() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id }: { id: number; datasetId: number }) => api.videos.checkQuality(id),
+    onSuccess: (job, { datasetId }) => {
+      queryClient.setQueryData(queryKeys.datasetJobs(datasetId), (old: Job[] = []) => [job, ...old]);
+    },
+  });
+}
+
+export function useDatasetDuplicates(datasetId: number) {
+  return useQuery({
+    queryKey: queryKeys.datasetDuplicates(datasetId),
+    queryFn: () => api.datasets.duplicates(datasetId),
+    enabled: !!datasetId && !isNaN(datasetId),
+  });
+}
+
+export function useIgnoreDuplicate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, otherVideoId }: { id: number; otherVideoId: number; datasetId: number }) =>
+      api.videos.ignoreDuplicate(id, otherVideoId),
+    onSuccess: (_, { datasetId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.datasetDuplicates(datasetId) });
+    },
+  });
+}
+
+export function useMergeDuplicate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, intoVideoId }: { id: number; intoVideoId: number; datasetId: number }) =>
+      api.videos.merge(id, intoVideoId),
+    onSuccess: (_, { datasetId }) => {
+      // The duplicate is gone and its clips moved, so refetch the dataset (and its duplicates)
+      queryClient.invalidateQueries({ queryKey: queryKeys.dataset(datasetId) });
+    },
+  });
+}
+
+// Clip Mutations
+
+// Apply a change to one video's clips in whichever dataset cache holds it
+function updateCachedClips(queryClient: QueryClient, videoId: number, update: (clips: Clip[]) => Clip[]) {
+  const datasets = queryClient.getQueriesData<Dataset>({ queryKey: ['datasets'] });
+
+  datasets.forEach(([queryKey, dataset]) => {
+    if (dataset && dataset.videos?.some(v => v.id === videoId)) {
+      queryClient.setQueryData(queryKey, {
+        ...dataset,
+        videos: dataset.videos.map(video =>
+          video.id === videoId ? { ...video, clips: update(video.clips || []) } : video
+        ),
+      });
+    }
+  });
+}
+
+export function useCreateClip() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ videoId, data }: { videoId: number; data?: Partial<Clip> }) =>
+      api.clips.create(videoId, data),
+    onSuccess: (newClip) => {
+      // The dataset event stream may have added it already
+      updateCachedClips(queryClient, newClip.videoId, clips =>
+        clips.some(clip => clip.id === newClip.id)
+          ? clips.map(clip => clip.id === newClip.id ? newClip : clip)
+          : [...clips, newClip]
+      );
+    },
+  });
+}
+
+export function useUpdateClip() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: Partial<Clip> }) =>
+      api.clips.update(id, data),
+    onSuccess: (updatedClip) => {
+      updateCachedClips(queryClient, updatedClip.videoId, clips =>
+        clips.map(clip => clip.id === updatedClip.id ? updatedClip : clip)
+      );
+    },
+  });
+}
+
+export function useSplitScenes() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ videoId, replace }: { videoId: number; replace?: boolean }) =>
+      api.videos.splitScenes(videoId, replace),
+    onSuccess: (videoClips, { videoId }) => {
+      // The response is the video's full clip list
+      updateCachedClips(queryClient, videoId, () => videoClips);
+    },
+  });
+}
+
+export function useDeleteClip() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id }: { id: number; videoId: number }) => api.clips.delete(id),
+    onSuccess: (_, { id, videoId }) => {
+      updateCachedClips(queryClient, videoId, clips => clips.filter(clip => clip.id !== id));
+    },
+  });
+}
+
+// Output file and its read-back metadata for a processed clip
+export function useClipOutput(clipId: number, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.clipOutput(clipId),
+    queryFn: () => api.clips.output(clipId),
+    enabled: enabled && !!clipId,
+    retry: false,
+  });
+}
+
+// Job Queries
+export function useDatasetJobs(datasetId: number) {
+  return useQuery({
+    queryKey: queryKeys.datasetJobs(datasetId),
+    queryFn: () => api.jobs.list(datasetId),
+    enabled: !!datasetId && !isNaN(datasetId),
+  });
+}
+
 // Processing Mutation
 export function useProcessDataset() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: ({ datasetId, config }: { datasetId: number; config: ProcessingConfig }) =>
+    mutationFn: ({ datasetId, config }: { datasetId: number; config: Partial<ProcessingConfig> }) =>
       api.processing.processDataset(datasetId, config),
-    onSuccess: (_, { datasetId }) => {
-      // Invalidate the dataset to refetch updated video statuses
+    onSuccess: (job, { datasetId }) => {
+      queryClient.setQueryData(queryKeys.datasetJobs(datasetId), (old: Job[] = []) => [job, ...old]);
+      // Invalidate the dataset to refetch updated video statuses and the saved settings
       queryClient.invalidateQueries({ queryKey: queryKeys.dataset(datasetId) });
     },
   });
 }
 
+export function useCheckDatasetQuality() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (datasetId: number) => api.processing.checkQuality(datasetId),
+    onSuccess: (job, datasetId) => {
+      queryClient.setQueryData(queryKeys.datasetJobs(datasetId), (old: Job[] = []) => [job, ...old]);
+    },
+  });
+}
+
+export function useAutoCropDataset() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (datasetId: number) => api.processing.autoCrop(datasetId),
+    onSuccess: (job, datasetId) => {
+      queryClient.setQueryData(queryKeys.datasetJobs(datasetId), (old: Job[] = []) => [job, ...old]);
+    },
+  });
+}
+
+// Processing Preset Queries
+export function useProcessingPresets() {
+  return useQuery({
+    queryKey: queryKeys.processingPresets(),
+    queryFn: api.presets.list,
+  });
+}
+
+export function useCreateProcessingPreset() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ name, settings }: { name: string; settings: ProcessingSettings }) =>
+      api.presets.create(name, settings),
+    onSuccess: (newPreset) => {
+      queryClient.setQueryData(queryKeys.processingPresets(), (old: ProcessingPreset[] = []) => [...old, newPreset]);
+    },
+  });
+}
+
+export function useDeleteProcessingPreset() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: api.presets.delete,
+    onSuccess: (_, deletedId) => {
+      queryClient.setQueryData(queryKeys.processingPresets(), (old: ProcessingPreset[] = []) =>
+        old.filter(preset => preset.id !== deletedId)
+      );
+    },
+  });
+}
+
+// Export Queries
+export function useExportLayouts() {
+  return useQuery({
+    queryKey: queryKeys.exportLayouts(),
+    queryFn: api.exports.listLayouts,
+    // The set of layouts only changes with a server update
+    staleTime: Infinity,
+  });
+}
+
+export function useExportDataset() {
+  return useMutation({
+    mutationFn: ({ datasetId, layout }: { datasetId: number; layout: ExportLayoutId }) =>
+      api.exports.exportDataset(datasetId, layout),
+  });
+}
+
+export function useCancelJob() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: api.jobs.cancel,
+    onSuccess: (cancelledJob) => {
+      queryClient.setQueryData(
+        queryKeys.datasetJobs(cancelledJob.datasetId),
+        (old: Job[] = []) => old.map(job => job.id === cancelledJob.id ? cancelledJob : job)
+      );
+      queryClient.invalidateQueries({ queryKey: queryKeys.dataset(cancelledJob.datasetId) });
+    },
+  });
+}
+
 // Upload Videos Mutation
+// Add the accepted videos of an upload or folder import to the dataset cache
+function addCachedVideos(queryClient: QueryClient, datasetId: number, results: UploadResult[]) {
+  const newVideos = results.flatMap(result => result.status === 'accepted' ? [result.video] : []);
+  queryClient.setQueryData(
+    queryKeys.dataset(datasetId),
+    (old: Dataset | undefined) => {
+      if (!old) return old;
+      return {
+        ...old,
+        videos: [...(old.videos || []), ...newVideos],
+        videoCount: (old.videoCount || 0) + newVideos.length,
+      };
+    }
+  );
+}
+
 export function useUploadVideos() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: ({ datasetId, files }: { datasetId: number; files: File[] }) =>
-      api.videos.upload(datasetId, files),
-    onSuccess: (newVideos, { datasetId }) => {
-      // Add new videos to the dataset cache
-      queryClient.setQueryData(
-        queryKeys.dataset(datasetId),
-        (old: Dataset | undefined) => {
-          if (!old) return old;
-          return {
-            ...old,
-            videos: [...(old.videos || []), ...newVideos],
-            videoCount: (old.videoCount || 0) + newVideos.length,
-          };
+    // Files go up one at a time in chunks. A failed file is reported in its result instead of
+    // failing the batch, so the files before and after it still get added.
+    mutationFn: async ({ datasetId, files, onProgress, onResult }: {
+      datasetId: number;
+      files: File[];
+      onProgress?: (file: File, progress: number) => void;
+      onResult?: (file: File, result: UploadResult) => void;
+    }) => {
+      const results: UploadResult[] = [];
+      for (const file of files) {
+        let result: UploadResult;
+        try {
+          const video = await uploadFileInChunks(datasetId, file, {
+            onProgress: progress => onProgress?.(file, progress),
+          });
+          result = { filename: file.name, status: 'accepted', video };
+        } catch (error) {
+          result = { filename: file.name, status: 'rejected', error: error instanceof Error ? error.message : 'Upload failed' };
         }
-      );
+        results.push(result);
+        onResult?.(file, result);
+      }
+      return results;
+    },
+    onSuccess: (results, { datasetId }) => {
+      addCachedVideos(queryClient, datasetId, results);
+    },
+  });
+}
+
+export function useScanFolder() {
+  return useMutation({
+    mutationFn: (options: FolderImportOptions) => api.imports.scan(options),
+  });
+}
+
+export function useImportFolder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ datasetId, options }: { datasetId: number; options: FolderImportOptions }) =>
+      api.imports.importFolder(datasetId, options),
+    onSuccess: (results, { datasetId }) => {
+      addCachedVideos(queryClient, datasetId, results);
     },
   });
 }
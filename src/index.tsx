@@ -1,35 +1,75 @@
 import { serve } from "bun";
 import index from "./index.html";
-import { listDatasets, getDataset, createDataset, processDataset, deleteDataset } from "./api/datasets";
-import { getVideo, updateVideo, uploadVideos, deleteVideo } from "./api/videos";
+import { listDatasets, getDataset, createDataset, updateDataset, processDataset, checkDatasetQuality, autoCropDataset, deleteDataset, serveOutputFile } from "./api/datasets";
+import { getVideo, updateVideo, uploadVideos, deleteVideo, detectVideoScenes, analyzeVideoMotion, getVideoMotion, checkVideoQuality, autoCropVideo, serveVideoSource } from "./api/videos";
+import { scanFolder, importFolder } from "./api/imports";
+import { getDatasetDuplicates, ignoreDuplicate, mergeDuplicate } from "./api/duplicates";
+import { createClip, updateClip, deleteClip, splitVideoIntoScenes, getClipOutput } from "./api/clips";
+import { createUpload, getUpload, uploadChunk, finalizeUpload, cancelUpload } from "./api/uploads";
+import { listJobs, getJob, cancelJob } from "./api/jobs";
+import { streamDatasetEvents } from "./api/events";
+import { listLayouts, exportDatasetLayout, downloadDatasetZip } from "./api/exports";
+import { listPresets, createPreset, deletePreset } from "./api/presets";
+import { registerJobHandler, startJobWorker } from "./lib/job-queue";
+import { runProcessDatasetJob } from "./lib/dataset-processing";
+import { runDetectScenesJob } from "./lib/scene-detection";
+import { runGeneratePreviewsJob, runGenerateProxyJob } from "./lib/video-previews";
+import { runFingerprintJob } from "./lib/video-fingerprint";
+import { runCheckQualityJob } from "./lib/quality-analysis";
+import { runAnalyzeMotionJob } from "./lib/motion-analysis";
+import { runAutoCropJob } from "./lib/auto-crop";
+import { expireStaleUploads, UPLOAD_SWEEP_INTERVAL_MS } from "./lib/upload-expiry";
+import { resolveStaticPath, serveStaticFile } from "./lib/static-files";
 
 const server = serve({
   port: 3000,
-  maxRequestBodySize: 500 * 1024 * 1024, // 500MB limit for video uploads
+  maxRequestBodySize: 500 * 1024 * 1024, // 500MB limit for multipart uploads; larger files go through /api/uploads in chunks
   routes: {
     // Serve uploaded videos - must come before catch-all route
     "/uploads/*": async (req) => {
       try {
         const url = new URL(req.url);
-        const filePath = url.pathname.slice(1); // Remove leading slash to get "uploads/..."
-        const file = Bun.file(filePath);
-        
-        if (await file.exists()) {
-          return new Response(file, {
-            headers: {
-              'Content-Type': 'video/mp4',
-              'Accept-Ranges': 'bytes',
-            },
-          });
-        } else {
-          return new Response('Video not found', { status: 404 });
+        const filePath = resolveStaticPath('uploads', url.pathname.slice('/uploads/'.length));
+        if (!filePath) {
+          return new Response('Invalid path', { status: 400 });
         }
+
+        const response = await serveStaticFile(req, filePath);
+        return response ?? new Response('Video not found', { status: 404 });
       } catch (error) {
         console.error('Error serving video file:', error);
         return new Response('Error serving video', { status: 500 });
       }
     },
 
+    // Serve generated thumbnails and filmstrips - must come before catch-all route
+    "/previews/*": async (req) => {
+      try {
+        const url = new URL(req.url);
+        const filePath = resolveStaticPath('previews', url.pathname.slice('/previews/'.length));
+        if (!filePath) {
+          return new Response('Invalid path', { status: 400 });
+        }
+
+        // Regenerated previews keep their name, so always revalidate
+        const response = await serveStaticFile(req, filePath, { headers: { 'Cache-Control': 'no-cache' } });
+        return response ?? new Response('Preview not found', { status: 404 });
+      } catch (error) {
+        console.error('Error serving preview file:', error);
+        return new Response('Error serving preview', { status: 500 });
+      }
+    },
+
+    // Serve processed clips, captions and exports from output/<dataset name> - must come before catch-all route
+    "/output/:id/*": async (req) => {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return new Response('Invalid dataset ID', { status: 400 });
+      }
+      const url = new URL(req.url);
+      return serveOutputFile(id, url.pathname.slice(`/output/${req.params.id}/`.length), req);
+    },
+
     // Dataset routes
     "/api/datasets": {
       async GET(req) {
@@ -48,6 +88,13 @@ const server = serve({
         }
         return getDataset(id);
       },
+      async PATCH(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid dataset ID" }, { status: 400 });
+        }
+        return updateDataset(id, req);
+      },
       async DELETE(req) {
         const id = parseInt(req.params.id);
         if (isNaN(id)) {
@@ -67,6 +114,84 @@ const server = serve({
       },
     },
 
+    "/api/datasets/:id/quality": {
+      async POST(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid dataset ID" }, { status: 400 });
+        }
+        return checkDatasetQuality(id);
+      },
+    },
+
+    "/api/datasets/:id/auto-crop": {
+      async POST(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid dataset ID" }, { status: 400 });
+        }
+        return autoCropDataset(id);
+      },
+    },
+
+    "/api/datasets/:id/export": {
+      async POST(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid dataset ID" }, { status: 400 });
+        }
+        return exportDatasetLayout(id, req);
+      },
+    },
+
+    "/api/datasets/:id/export.zip": {
+      async GET(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid dataset ID" }, { status: 400 });
+        }
+        return downloadDatasetZip(id);
+      },
+    },
+
+    "/api/export-layouts": {
+      async GET(req) {
+        return listLayouts();
+      },
+    },
+
+    // Processing preset routes
+    "/api/processing-presets": {
+      async GET(req) {
+        return listPresets();
+      },
+      async POST(req) {
+        return createPreset(req);
+      },
+    },
+
+    "/api/processing-presets/:id": {
+      async DELETE(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid preset ID" }, { status: 400 });
+        }
+        return deletePreset(id);
+      },
+    },
+
+    "/api/datasets/:id/events": {
+      async GET(req, server) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid dataset ID" }, { status: 400 });
+        }
+        // Event streams stay open indefinitely
+        server.timeout(req, 0);
+        return streamDatasetEvents(id, req);
+      },
+    },
+
     "/api/datasets/:id/videos": {
       async POST(req) {
         const id = parseInt(req.params.id);
@@ -77,6 +202,85 @@ const server = serve({
       },
     },
 
+    "/api/datasets/:id/duplicates": {
+      async GET(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid dataset ID" }, { status: 400 });
+        }
+        return getDatasetDuplicates(id);
+      },
+    },
+
+    "/api/datasets/:id/import": {
+      async POST(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid dataset ID" }, { status: 400 });
+        }
+        // Copying, probing and checking every file of a large folder outlasts the idle timeout
+        server.timeout(req, 0);
+        return importFolder(id, req);
+      },
+    },
+
+    // Lists the video files in a server folder before importing them
+    "/api/import/scan": {
+      async POST(req) {
+        return scanFolder(req);
+      },
+    },
+
+    // Chunked upload routes (init -> PUT chunks -> finalize) for files too large for one request
+    "/api/datasets/:id/uploads": {
+      async POST(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid dataset ID" }, { status: 400 });
+        }
+        return createUpload(id, req);
+      },
+    },
+
+    "/api/uploads/:id": {
+      async GET(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid upload ID" }, { status: 400 });
+        }
+        return getUpload(id);
+      },
+      async DELETE(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid upload ID" }, { status: 400 });
+        }
+        return cancelUpload(id);
+      },
+    },
+
+    "/api/uploads/:id/chunks": {
+      async PUT(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid upload ID" }, { status: 400 });
+        }
+        return uploadChunk(id, req);
+      },
+    },
+
+    "/api/uploads/:id/finalize": {
+      async POST(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid upload ID" }, { status: 400 });
+        }
+        // Probing the assembled file and checking it for black bars can outlast the idle timeout
+        server.timeout(req, 0);
+        return finalizeUpload(id);
+      },
+    },
+
     // Video routes
     "/api/videos/:id": {
       async GET(req) {
@@ -102,6 +306,158 @@ const server = serve({
       },
     },
 
+    "/api/videos/:id/source": {
+      async GET(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid video ID" }, { status: 400 });
+        }
+        return serveVideoSource(id, req);
+      },
+    },
+
+    "/api/videos/:id/ignore-duplicate": {
+      async POST(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid video ID" }, { status: 400 });
+        }
+        return ignoreDuplicate(id, req);
+      },
+    },
+
+    "/api/videos/:id/merge": {
+      async POST(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid video ID" }, { status: 400 });
+        }
+        return mergeDuplicate(id, req);
+      },
+    },
+
+    "/api/videos/:id/scenes": {
+      async POST(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid video ID" }, { status: 400 });
+        }
+        return detectVideoScenes(id);
+      },
+    },
+
+    "/api/videos/:id/motion": {
+      async GET(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid video ID" }, { status: 400 });
+        }
+        return getVideoMotion(id);
+      },
+      async POST(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid video ID" }, { status: 400 });
+        }
+        return analyzeVideoMotion(id);
+      },
+    },
+
+    "/api/videos/:id/quality": {
+      async POST(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid video ID" }, { status: 400 });
+        }
+        return checkVideoQuality(id);
+      },
+    },
+
+    "/api/videos/:id/auto-crop": {
+      async POST(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid video ID" }, { status: 400 });
+        }
+        return autoCropVideo(id);
+      },
+    },
+
+    "/api/videos/:id/split-scenes": {
+      async POST(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid video ID" }, { status: 400 });
+        }
+        return splitVideoIntoScenes(id, req);
+      },
+    },
+
+    "/api/videos/:id/clips": {
+      async POST(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid video ID" }, { status: 400 });
+        }
+        return createClip(id, req);
+      },
+    },
+
+    // Clip routes
+    "/api/clips/:id": {
+      async PATCH(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid clip ID" }, { status: 400 });
+        }
+        return updateClip(id, req);
+      },
+      async DELETE(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid clip ID" }, { status: 400 });
+        }
+        return deleteClip(id);
+      },
+    },
+
+    "/api/clips/:id/output": {
+      async GET(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid clip ID" }, { status: 400 });
+        }
+        return getClipOutput(id);
+      },
+    },
+
+    // Job routes
+    "/api/jobs": {
+      async GET(req) {
+        return listJobs(req);
+      },
+    },
+
+    "/api/jobs/:id": {
+      async GET(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid job ID" }, { status: 400 });
+        }
+        return getJob(id);
+      },
+    },
+
+    "/api/jobs/:id/cancel": {
+      async POST(req) {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return Response.json({ error: "Invalid job ID" }, { status: 400 });
+        }
+        return cancelJob(id);
+      },
+    },
+
     // Keep the original hello endpoints for testing
     "/api/hello": {
       async GET(req) {
@@ -138,4 +494,20 @@ const server = serve({
   },
 });
 
+// Background job worker
+registerJobHandler("process-dataset", runProcessDatasetJob);
+registerJobHandler("detect-scenes", runDetectScenesJob);
+registerJobHandler("generate-previews", runGeneratePreviewsJob);
+registerJobHandler("generate-proxy", runGenerateProxyJob);
+registerJobHandler("fingerprint-video", runFingerprintJob);
+registerJobHandler("check-quality", runCheckQualityJob);
+registerJobHandler("analyze-motion", runAnalyzeMotionJob);
+registerJobHandler("auto-crop", runAutoCropJob);
+await startJobWorker();
+
+// Partial files of abandoned chunked uploads are cleaned up at startup and then periodically
+const sweepStaleUploads = () => expireStaleUploads().catch(error => console.error('Error expiring stale uploads:', error));
+await sweepStaleUploads();
+setInterval(sweepStaleUploads, UPLOAD_SWEEP_INTERVAL_MS);
+
 console.log(`🚀 Server running at ${server.url}`);
@@ -0,0 +1,73 @@
+import { runFfmpeg } from '@/lib/ffmpeg';
+import type { ActiveArea } from '@/types';
+
+// Points spread over the video where frames are checked for bars; a single spot may be a dark scene
+const SAMPLE_COUNT = 6;
+const FRAMES_PER_SAMPLE = 3;
+// Bars thinner than this (pixels) are encoder padding, not letterboxing
+const MIN_BAR_SIZE = 4;
+// Below this share of either dimension the footage is more likely just dark than boxed
+const MIN_AREA_SHARE = 0.5;
+
+/**
+ * Find the part of the frame that holds the picture, without baked-in letterbox or pillarbox bars.
+ * Runs cropdetect on a few frames at points spread over the video and combines what they show.
+ * Returns the full frame when there are no bars, or null when the result isn't trustworthy.
+ */
+export async function detectActiveArea(
+  filePath: string,
+  { duration, width, height }: { duration: number; width: number; height: number },
+  signal?: AbortSignal
+): Promise<ActiveArea | null> {
+  let left = width;
+  let top = height;
+  let right = 0;
+  let bottom = 0;
+
+  for (let i = 0; i < SAMPLE_COUNT; i++) {
+    const time = ((i + 0.5) / SAMPLE_COUNT) * duration;
+    await runFfmpeg([
+      '-hide_banner',
+      '-ss', time.toString(),
+      '-i', filePath,
+      '-an',
+      '-frames:v', FRAMES_PER_SAMPLE.toString(),
+      // skip=0 since the frames right after the seek are all there is
+      '-vf', 'cropdetect=limit=24:round=2:skip=0:reset=0',
+      '-f', 'null',
+      '-',
+    ], {
+      signal,
+      onStderrLine: (line) => {
+        const match = line.match(/x1:(-?\d+)\s+x2:(-?\d+)\s+y1:(-?\d+)\s+y2:(-?\d+)/);
+        if (!match) return;
+        const [x1, x2, y1, y2] = match.slice(1).map(Number) as [number, number, number, number];
+        // An all-black frame reports an empty (inverted) box
+        if (x2 <= x1 || y2 <= y1) return;
+        left = Math.min(left, x1);
+        right = Math.max(right, x2 + 1);
+        top = Math.min(top, y1);
+        bottom = Math.max(bottom, y2 + 1);
+      },
+    });
+  }
+
+  if (right - left < width * MIN_AREA_SHARE || bottom - top < height * MIN_AREA_SHARE) {
+    return null;
+  }
+
+  // Ignore slivers, and keep the area on even pixels like the crops made from it
+  if (left < MIN_BAR_SIZE) left = 0;
+  if (top < MIN_BAR_SIZE) top = 0;
+  if (width - right < MIN_BAR_SIZE) right = width;
+  if (height - bottom < MIN_BAR_SIZE) bottom = height;
+  const x = Math.ceil(left / 2) * 2;
+  const y = Math.ceil(top / 2) * 2;
+
+  return {
+    x,
+    y,
+    width: Math.floor((right - x) / 2) * 2,
+    height: Math.floor((bottom - y) / 2) * 2,
+  };
+}
@@ -0,0 +1,203 @@
+import { db } from '@/db';
+import { clips, datasets, type Clip, type Job, type Video } from '@/db/schema';
+import { asc, eq } from 'drizzle-orm';
+import type { JobContext } from '@/lib/job-queue';
+import { publishDatasetEvent } from '@/lib/dataset-events';
+import { runFfmpeg } from '@/lib/ffmpeg';
+import { runVideoTaskJob } from '@/lib/video-jobs';
+import { resolveProcessingSettings } from '@/lib/processing-settings';
+import { constrainCropToActiveArea, getActiveArea } from '@/lib/video-utils';
+import type { ProcessingSettings } from '@/types';
+
+// Frames are scored at this width; a subject's position survives the downscale
+const ANALYSIS_WIDTH = 96;
+// Frames sampled evenly over the clip window
+const SAMPLE_FRAMES = 8;
+// How much edge density counts next to frame-to-frame motion, which marks the subject better
+const EDGE_WEIGHT = 0.5;
+
+/**
+ * Per-pixel saliency of a run of same-sized grayscale frames: summed edge density (gradient
+ * magnitude) plus the change from the previous frame.
+ */
+export function computeSaliencyMap(frames: Uint8Array[], width: number, height: number): Float32Array {
+  const saliency = new Float32Array(width * height);
+
+  frames.forEach((frame, i) => {
+    const previous = i > 0 ? frames[i - 1]! : null;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const index = y * width + x;
+        const dx = x + 1 < width ? Math.abs(frame[index + 1]! - frame[index]!) : 0;
+        const dy = y + 1 < height ? Math.abs(frame[index + width]! - frame[index]!) : 0;
+        const motion = previous ? Math.abs(frame[index]! - previous[index]!) : 0;
+        saliency[index]! += EDGE_WEIGHT * (dx + dy) + motion;
+      }
+    }
+  });
+
+  return saliency;
+}
+
+/**
+ * Weighted centroid of the above-average part of a saliency map, inside a region of the map.
+ * Only the excess over the mean counts, so uniform texture doesn't drag the result to the middle.
+ * Null when nothing stands out.
+ */
+export function findSaliencyCentroid(
+  saliency: Float32Array,
+  width: number,
+  region: { x: number; y: number; width: number; height: number }
+): { x: number; y: number } | null {
+  let total = 0;
+  for (let y = region.y; y < region.y + region.height; y++) {
+    for (let x = region.x; x < region.x + region.width; x++) {
+      total += saliency[y * width + x]!;
+    }
+  }
+  const mean = total / Math.max(1, region.width * region.height);
+
+  let weightSum = 0;
+  let xSum = 0;
+  let ySum = 0;
+  for (let y = region.y; y < region.y + region.height; y++) {
+    for (let x = region.x; x < region.x + region.width; x++) {
+      const weight = saliency[y * width + x]! - mean;
+      if (weight <= 0) continue;
+      weightSum += weight;
+      // Pixel centers
+      xSum += weight * (x + 0.5);
+      ySum += weight * (y + 0.5);
+    }
+  }
+
+  return weightSum > 0 ? { x: xSum / weightSum, y: ySum / weightSum } : null;
+}
+
+/**
+ * Where the subject of a clip's window (frameCount / fps seconds from its start) is, in source
+ * pixels: the saliency centroid of frames sampled over the window, ignoring letterbox bars.
+ * Null when the frames show no clear subject.
+ */
+export async function findSubjectCenter(
+  video: Video,
+  clip: Clip,
+  settings: Pick<ProcessingSettings, 'fps' | 'frameCount'>,
+  signal?: AbortSignal
+): Promise<{ x: number; y: number } | null> {
+  const duration = Math.min(settings.frameCount / settings.fps, video.duration - clip.startTime);
+  if (duration <= 0) {
+    throw new Error('Clip starts after the end of the video');
+  }
+
+  const width = ANALYSIS_WIDTH;
+  const height = Math.max(2, Math.round((ANALYSIS_WIDTH * video.originalHeight) / video.originalWidth));
+  const frameSize = width * height;
+  const chunks: Uint8Array[] = [];
+
+  await runFfmpeg([
+    '-ss', clip.startTime.toString(),
+    '-t', duration.toString(),
+    '-i', video.filepath,
+    '-an',
+    '-vf', `fps=${SAMPLE_FRAMES / duration},scale=${width}:${height}:flags=area,format=gray`,
+    '-frames:v', SAMPLE_FRAMES.toString(),
+    '-f', 'rawvideo',
+    '-',
+  ], { signal, onStdoutData: data => chunks.push(data) });
+
+  const pixels = Buffer.concat(chunks);
+  const frames: Uint8Array[] = [];
+  for (let offset = 0; offset + frameSize <= pixels.length; offset += frameSize) {
+    frames.push(pixels.subarray(offset, offset + frameSize));
+  }
+  if (frames.length === 0) {
+    throw new Error('No frames could be decoded for auto-crop');
+  }
+
+  // The active area in analysis pixels, so bar edges don't count as detail
+  const scale = width / video.originalWidth;
+  const area = getActiveArea(video);
+  const regionX = Math.min(width - 1, Math.floor(area.x * scale));
+  const regionY = Math.min(height - 1, Math.floor(area.y * scale));
+  const region = {
+    x: regionX,
+    y: regionY,
+    width: Math.max(1, Math.min(width - regionX, Math.ceil(area.width * scale))),
+    height: Math.max(1, Math.min(height - regionY, Math.ceil(area.height * scale))),
+  };
+
+  const centroid = findSaliencyCentroid(computeSaliencyMap(frames, width, height), width, region);
+  return centroid && { x: centroid.x / scale, y: centroid.y / scale };
+}
+
+/**
+ * Crop position centered on a point, kept inside the picture (or the whole frame for crops
+ * larger than the picture)
+ */
+export function placeCropAround(
+  center: { x: number; y: number },
+  crop: Pick<Clip, 'cropWidth' | 'cropHeight'>,
+  video: Pick<Video, 'originalWidth' | 'originalHeight' | 'activeArea'>
+): { x: number; y: number } {
+  const { x, y } = constrainCropToActiveArea(
+    center.x - crop.cropWidth / 2,
+    center.y - crop.cropHeight / 2,
+    crop.cropWidth,
+    crop.cropHeight,
+    video
+  );
+  return { x: Math.round(x), y: Math.round(y) };
+}
+
+/**
+ * Job handler for 'auto-crop' jobs. Moves the fixed crop of every clip of each video in the
+ * payload onto its subject, keeping the crop size. Clips with crop keyframes are left alone.
+ */
+export async function runAutoCropJob(job: Job, context: JobContext) {
+  const dataset = await db.query.datasets.findFirst({
+    where: eq(datasets.id, job.datasetId),
+  });
+  const settings = resolveProcessingSettings(dataset?.processingConfig);
+
+  await runVideoTaskJob(job, context, {
+    label: 'Auto-crop',
+    run: async (video, signal) => {
+      const videoClips = await db.query.clips.findMany({
+        where: eq(clips.videoId, video.id),
+        orderBy: asc(clips.id),
+      });
+
+      for (const clip of videoClips) {
+        if (clip.cropKeyframes && clip.cropKeyframes.length > 0) {
+          publishDatasetEvent(video.datasetId, {
+            type: 'log',
+            videoId: video.id,
+            line: `Auto-crop kept the keyframed crop of clip ${clip.id} (${video.filename})`,
+          });
+          continue;
+        }
+
+        const center = await findSubjectCenter(video, clip, settings, signal);
+        if (!center) continue;
+
+        const { x, y } = placeCropAround(center, clip, video);
+        if (x === clip.cropX && y === clip.cropY) continue;
+
+        // The crop moved, so the last quality check no longer applies
+        const [updatedClip] = await db
+          .update(clips)
+          .set({ cropX: x, cropY: y, quality: null })
+          .where(eq(clips.id, clip.id))
+          .returning();
+
+        if (updatedClip) {
+          publishDatasetEvent(video.datasetId, { type: 'clip', clip: updatedClip });
+        }
+      }
+
+      // Results are stored per clip
+      return {};
+    },
+  });
+}
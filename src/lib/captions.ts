@@ -0,0 +1,19 @@
+/**
+ * Build the caption written next to a clip, with the dataset trigger word (if any) in front
+ */
+export function buildCaption(caption: string, triggerWord?: string | null): string {
+  const trigger = triggerWord?.trim();
+  const text = caption.trim();
+  if (!trigger) return text;
+  if (!text) return trigger;
+  return `${trigger}, ${text}`;
+}
+
+/**
+ * Rough token count for a caption: words and punctuation each count as one token,
+ * with long words split roughly the way sub-word tokenizers do (about 4 characters per token)
+ */
+export function estimateTokenCount(text: string): number {
+  const pieces = text.match(/[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) ?? [];
+  return pieces.reduce((sum, piece) => sum + Math.max(1, Math.ceil(piece.length / 4)), 0);
+}
@@ -0,0 +1,63 @@
+import { describe, expect, test } from 'bun:test';
+import { buildCropExpression, interpolateCropPosition, normalizeCropKeyframes } from '@/lib/crop-keyframes';
+import type { CropKeyframe } from '@/types';
+
+// Evaluate a crop expression the way FFMPEG would for one value of `t`
+function evaluate(expression: string, t: number): number {
+  const run = new Function('t', 'iff', 'lt', `return ${expression.replace(/\bif\(/g, 'iff(')};`);
+  return run(t, (condition: boolean, then: number, otherwise: number) => (condition ? then : otherwise), (a: number, b: number) => a < b);
+}
+
+const KEYFRAMES: CropKeyframe[] = [
+  { time: 0.5, x: 100, y: 40, easing: 'linear' },
+  { time: 2.5, x: 300, y: 20, easing: 'ease' },
+  { time: 4, x: 0, y: 80, easing: 'linear' },
+];
+
+describe('buildCropExpression', () => {
+  test('is a constant without keyframes', () => {
+    expect(buildCropExpression([], 'x')).toBe('0');
+  });
+
+  test('nests one if(lt(t,…)) per segment, holding the first and last keyframe', () => {
+    expect(buildCropExpression(KEYFRAMES.slice(0, 2), 'x')).toBe(
+      'if(lt(t,0.5),100,if(lt(t,2.5),100+(200)*(t-0.5)/2,300))'
+    );
+    expect(buildCropExpression(KEYFRAMES, 'y')).toBe(
+      'if(lt(t,0.5),40,if(lt(t,2.5),40+(-20)*(t-0.5)/2,' +
+        'if(lt(t,4),20+(60)*((t-2.5)/1.5)*((t-2.5)/1.5)*(3-2*(t-2.5)/1.5),80)))'
+    );
+  });
+
+  test('follows interpolateCropPosition on both axes', () => {
+    const x = buildCropExpression(KEYFRAMES, 'x');
+    const y = buildCropExpression(KEYFRAMES, 'y');
+
+    for (let t = 0; t <= 5; t += 0.125) {
+      const position = interpolateCropPosition(KEYFRAMES, t)!;
+      // The editor rounds to whole pixels; FFMPEG's crop filter does the same
+      expect(Math.abs(evaluate(x, t) - position.x)).toBeLessThanOrEqual(0.5);
+      expect(Math.abs(evaluate(y, t) - position.y)).toBeLessThanOrEqual(0.5);
+    }
+  });
+});
+
+describe('normalizeCropKeyframes', () => {
+  test('rounds, sorts and keeps the later of two keyframes at the same time', () => {
+    expect(normalizeCropKeyframes([
+      { time: 2, x: 10.6, y: 0 },
+      { time: 0, x: 1, y: 2, easing: 'ease' },
+      { time: 2.01, x: 30, y: 4 },
+    ])).toEqual([
+      { time: 0, x: 1, y: 2, easing: 'ease' },
+      { time: 2.01, x: 30, y: 4, easing: 'linear' },
+    ]);
+  });
+
+  test('returns an error message for malformed keyframes', () => {
+    expect(normalizeCropKeyframes('nope')).toBeString();
+    expect(normalizeCropKeyframes([{ time: -1, x: 0, y: 0 }])).toBeString();
+    expect(normalizeCropKeyframes([{ time: 0, x: '1', y: 0 }])).toBeString();
+    expect(normalizeCropKeyframes([{ time: 0, x: 0, y: 0, easing: 'bounce' }])).toBeString();
+  });
+});
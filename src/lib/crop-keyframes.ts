@@ -0,0 +1,106 @@
+import type { CropEasing, CropKeyframe } from '@/types';
+
+export const CROP_EASINGS: { id: CropEasing; name: string }[] = [
+  { id: 'linear', name: 'Linear' },
+  { id: 'ease', name: 'Ease in/out' },
+];
+
+// Keyframes closer together than this (seconds) are treated as the same keyframe
+export const KEYFRAME_TIME_TOLERANCE = 0.05;
+
+const MAX_KEYFRAMES = 500;
+
+/**
+ * Check and tidy keyframes from a request: rounded positions, sorted by time, one per time.
+ * Returns the keyframes, or an error message.
+ */
+export function normalizeCropKeyframes(input: unknown): CropKeyframe[] | string {
+  if (!Array.isArray(input)) {
+    return 'Crop keyframes must be an array';
+  }
+  if (input.length > MAX_KEYFRAMES) {
+    return `At most ${MAX_KEYFRAMES} crop keyframes are allowed`;
+  }
+
+  const keyframes: CropKeyframe[] = [];
+  for (const item of input) {
+    const { time, x, y, easing = 'linear' } = (item ?? {}) as Partial<CropKeyframe>;
+    if (typeof time !== 'number' || !Number.isFinite(time) || time < 0) {
+      return 'Keyframe time must be a number of seconds from the clip start';
+    }
+    if (typeof x !== 'number' || typeof y !== 'number' || !Number.isFinite(x) || !Number.isFinite(y) || x < 0 || y < 0) {
+      return 'Keyframe position must be non-negative numbers';
+    }
+    if (!CROP_EASINGS.some(option => option.id === easing)) {
+      return `Unknown keyframe easing: ${easing}`;
+    }
+    keyframes.push({ time, x: Math.round(x), y: Math.round(y), easing });
+  }
+
+  // Later entries win when two keyframes share a time
+  keyframes.sort((a, b) => a.time - b.time);
+  return keyframes.filter((keyframe, index) =>
+    index === keyframes.length - 1 || keyframes[index + 1]!.time - keyframe.time >= KEYFRAME_TIME_TOLERANCE
+  );
+}
+
+function applyEasing(progress: number, easing: CropEasing): number {
+  // Smoothstep: starts and ends at rest
+  return easing === 'ease' ? progress * progress * (3 - 2 * progress) : progress;
+}
+
+/**
+ * Crop position at `time` seconds into the clip. Holds the first/last keyframe outside their range;
+ * each keyframe's easing shapes the move towards the next one.
+ */
+export function interpolateCropPosition(keyframes: CropKeyframe[], time: number): { x: number; y: number } | null {
+  const first = keyframes[0];
+  if (!first) return null;
+  if (time <= first.time) return { x: first.x, y: first.y };
+
+  for (let i = 0; i < keyframes.length - 1; i++) {
+    const from = keyframes[i]!;
+    const to = keyframes[i + 1]!;
+    if (time < to.time) {
+      const progress = applyEasing((time - from.time) / (to.time - from.time), from.easing);
+      return {
+        x: Math.round(from.x + (to.x - from.x) * progress),
+        y: Math.round(from.y + (to.y - from.y) * progress),
+      };
+    }
+  }
+
+  const last = keyframes[keyframes.length - 1]!;
+  return { x: last.x, y: last.y };
+}
+
+/**
+ * Index of the keyframe at `time`, or -1 if there is none
+ */
+export function findKeyframeAt(keyframes: CropKeyframe[], time: number): number {
+  return keyframes.findIndex(keyframe => Math.abs(keyframe.time - time) < KEYFRAME_TIME_TOLERANCE);
+}
+
+/**
+ * FFMPEG crop expression for one axis, evaluated per frame with `t` = seconds into the clip.
+ * Mirrors interpolateCropPosition so the output follows what the editor shows.
+ */
+export function buildCropExpression(keyframes: CropKeyframe[], axis: 'x' | 'y'): string {
+  const first = keyframes[0];
+  if (!first) return '0';
+
+  const format = (value: number) => Number(value.toFixed(4)).toString();
+  let expression = format(keyframes[keyframes.length - 1]![axis]);
+
+  // Build the nested if() from the last segment backwards
+  for (let i = keyframes.length - 2; i >= 0; i--) {
+    const from = keyframes[i]!;
+    const to = keyframes[i + 1]!;
+    const linear = `(t-${format(from.time)})/${format(to.time - from.time)}`;
+    const progress = from.easing === 'ease' ? `(${linear})*(${linear})*(3-2*${linear})` : linear;
+    const segment = `${format(from[axis])}+(${format(to[axis] - from[axis])})*${progress}`;
+    expression = `if(lt(t,${format(to.time)}),${segment},${expression})`;
+  }
+
+  return `if(lt(t,${format(first.time)}),${format(first[axis])},${expression})`;
+}
@@ -0,0 +1,48 @@
+import type { Clip, Job, Video } from '@/db/schema';
+
+export type DatasetEvent =
+  | { type: 'video'; video: Video }
+  | { type: 'clip'; clip: Clip }
+  | { type: 'clip-deleted'; clipId: number; videoId: number }
+  | { type: 'job'; job: Job }
+  // videoId/clipId are omitted for dataset-wide messages (e.g. export results)
+  | { type: 'log'; videoId?: number; clipId?: number; line: string };
+
+type DatasetEventListener = (event: DatasetEvent) => void;
+
+const listeners = new Map<number, Set<DatasetEventListener>>();
+
+/**
+ * Notify every subscriber of a dataset (e.g. open SSE streams) about a change
+ */
+export function publishDatasetEvent(datasetId: number, event: DatasetEvent) {
+  const datasetListeners = listeners.get(datasetId);
+  if (!datasetListeners) return;
+
+  for (const listener of datasetListeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error(`Error delivering ${event.type} event for dataset ${datasetId}:`, error);
+    }
+  }
+}
+
+/**
+ * Subscribe to a dataset's events. Returns a function that removes the subscription.
+ */
+export function subscribeToDataset(datasetId: number, listener: DatasetEventListener): () => void {
+  let datasetListeners = listeners.get(datasetId);
+  if (!datasetListeners) {
+    datasetListeners = new Set();
+    listeners.set(datasetId, datasetListeners);
+  }
+  datasetListeners.add(listener);
+
+  return () => {
+    datasetListeners.delete(listener);
+    if (datasetListeners.size === 0) {
+      listeners.delete(datasetId);
+    }
+  };
+}
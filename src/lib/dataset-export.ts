@@ -0,0 +1,90 @@
+import { db } from '@/db';
+import { datasets, videos, clips } from '@/db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { existsSync } from 'fs';
+import { mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { buildCaption } from '@/lib/captions';
+import { getOutputDir } from '@/lib/output-paths';
+import { getExportLayout, type ExportItem, type ExportLayoutId } from '@/lib/export-layouts';
+import type { ExportResult, ProcessingConfig } from '@/types';
+
+/**
+ * Collect a dataset's processed clips (with their output files on disk) in dataset order.
+ * `config` supplies fps/frame count for clips processed before output settings were recorded.
+ * Returns null when the dataset does not exist.
+ */
+export async function collectExportItems(datasetId: number, config?: ProcessingConfig) {
+  const dataset = await db.query.datasets.findFirst({
+    where: eq(datasets.id, datasetId),
+    with: {
+      videos: {
+        orderBy: asc(videos.id),
+        with: {
+          clips: {
+            orderBy: asc(clips.id),
+          },
+        },
+      },
+    },
+  });
+
+  if (!dataset) return null;
+
+  const outputDir = getOutputDir(dataset.name);
+  const items: ExportItem[] = [];
+
+  for (const video of dataset.videos) {
+    for (const clip of video.clips) {
+      // Each clip's files are named when it is processed, so this holds when clips come and go
+      const name = clip.outputName;
+      if (clip.status !== 'processed' || !name) continue;
+
+      const videoPath = join(outputDir, `${name}.mp4`);
+      if (!existsSync(videoPath)) continue;
+
+      const [width, height] = clip.resolution.split('x').map(Number);
+      items.push({
+        name,
+        clipId: clip.id,
+        videoPath,
+        caption: buildCaption(clip.caption, dataset.triggerWord),
+        width: width || clip.cropWidth,
+        height: height || clip.cropHeight,
+        fps: clip.outputSettings?.fps ?? video.fps ?? config?.fps ?? 0,
+        frameCount: clip.outputSettings?.frameCount ?? video.frameCount ?? config?.frameCount ?? 0,
+        sourceFilename: video.filename,
+        startTime: clip.startTime,
+        settings: clip.outputSettings,
+      });
+    }
+  }
+
+  return { dataset, outputDir, items };
+}
+
+/**
+ * Write a dataset's processed clips in a trainer layout under output/<dataset>/exports/<layout>.
+ * Any previous export in that layout is replaced.
+ */
+export async function exportDataset(datasetId: number, layoutId: ExportLayoutId, config?: ProcessingConfig): Promise<ExportResult> {
+  const layout = getExportLayout(layoutId);
+  if (!layout) {
+    throw new Error(`Unknown export layout: ${layoutId}`);
+  }
+
+  const collected = await collectExportItems(datasetId, config);
+  if (!collected) {
+    throw new Error(`Dataset ${datasetId} not found`);
+  }
+  const { dataset, outputDir, items } = collected;
+
+  const exportDir = join(outputDir, 'exports', layout.id);
+  await rm(exportDir, { recursive: true, force: true });
+  await mkdir(exportDir, { recursive: true });
+
+  const files = await layout.write({ datasetName: dataset.name, exportDir, items });
+  console.log(`Exported ${items.length} clips of dataset ${dataset.id} as ${layout.id} to ${exportDir}`);
+
+  return { layout: layout.id, directory: exportDir, clipCount: items.length, files };
+}
@@ -0,0 +1,304 @@
+import { db } from '@/db';
+import { datasets, videos, clips, type Clip, type Job, type Video } from '@/db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { mkdir } from 'fs/promises';
+import { join } from 'path';
+import type { JobContext } from '@/lib/job-queue';
+import { publishDatasetEvent } from '@/lib/dataset-events';
+import { runFfmpeg } from '@/lib/ffmpeg';
+import { buildCaption } from '@/lib/captions';
+import { getOutputDir, getOutputIndex, getOutputName } from '@/lib/output-paths';
+import { exportDataset } from '@/lib/dataset-export';
+import { pickProcessingSettings, resolveProcessingSettings } from '@/lib/processing-settings';
+import { formatTime, getAvailableFrameCount, getCrossedSceneCuts } from '@/lib/video-utils';
+import { buildCropExpression } from '@/lib/crop-keyframes';
+import { describeQualityIssues } from '@/lib/quality-checks';
+import {
+  createProgressParser,
+  computeProgressPercent,
+  estimateRemainingSeconds,
+} from '@/lib/ffmpeg-progress';
+import type { ProcessingConfig } from '@/types';
+
+interface ProcessClipOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: number, etaSeconds: number | null) => Promise<void> | void;
+  onLog?: (line: string) => void;
+}
+
+/**
+ * Job handler for 'process-dataset' jobs. Processes every clip of the dataset that is
+ * still pending, so a job interrupted by a restart resumes with the clips it had not finished.
+ * Each clip produces one output file, numbered across the whole dataset, plus a caption
+ * .txt sidecar with the same name. A clip keeps its number once processed (stored as its
+ * outputName); clips processed for the first time take the next unused one.
+ */
+export async function runProcessDatasetJob(job: Job, { signal, updateProgress }: JobContext) {
+  // Jobs queued before encoder settings existed only carry fps and frame count
+  const payload = job.payload as unknown as ProcessingConfig;
+  const config: ProcessingConfig = {
+    ...resolveProcessingSettings(payload),
+    exportLayout: payload.exportLayout,
+    skipQualityIssues: payload.skipQualityIssues,
+  };
+  const outputSettings = pickProcessingSettings(config);
+  // Clips left out for failing their quality check, decided when the job was queued
+  const skippedClipIds = new Set((job.payload.skippedClipIds as number[] | undefined) ?? []);
+
+  // Get dataset with its videos and clips (ordered so new clips are numbered in dataset order)
+  const dataset = await db.query.datasets.findFirst({
+    where: eq(datasets.id, job.datasetId),
+    with: {
+      videos: {
+        orderBy: asc(videos.id),
+        with: {
+          clips: {
+            orderBy: asc(clips.id),
+          },
+        },
+      },
+    },
+  });
+
+  if (!dataset) {
+    throw new Error(`Dataset ${job.datasetId} not found`);
+  }
+
+  // Create output directory
+  const outputDir = getOutputDir(dataset.name);
+  await mkdir(outputDir, { recursive: true });
+
+  let processedCount = job.processedCount;
+  let failedCount = job.failedCount;
+  // Numbers already given out stay with their clips, even after other clips are removed
+  let nextOutputIndex = 1 + dataset.videos
+    .flatMap(video => video.clips)
+    .reduce((max, clip) => Math.max(max, clip.outputName ? getOutputIndex(clip.outputName) : 0), 0);
+
+  for (const video of dataset.videos) {
+    for (const clip of video.clips) {
+      if (clip.status !== 'pending') continue;
+
+      if (signal.aborted) {
+        throw new Error('Job cancelled');
+      }
+
+      if (skippedClipIds.has(clip.id)) {
+        publishDatasetEvent(video.datasetId, {
+          type: 'log',
+          videoId: video.id,
+          clipId: clip.id,
+          line: `Skipped clip ${clip.id} (${video.filename}): ${describeQualityIssues(clip.quality?.issues ?? [])}`,
+        });
+        continue;
+      }
+
+      // Reprocessed clips overwrite their own files
+      const outputName = clip.outputName ?? getOutputName(nextOutputIndex++);
+      const outputPath = join(outputDir, `${outputName}.mp4`);
+
+      // FFMPEG stops at the end of the source, so a late start quietly yields a short clip
+      const availableFrames = getAvailableFrameCount(clip, video.duration, config);
+      if (availableFrames < config.frameCount) {
+        publishDatasetEvent(video.datasetId, {
+          type: 'log',
+          videoId: video.id,
+          clipId: clip.id,
+          line: `Warning: ${outputName} (${video.filename}) runs past the end of the video, only ${availableFrames} of ${config.frameCount} frames available`,
+        });
+      }
+
+      const crossedCuts = getCrossedSceneCuts(clip, video.sceneCuts, config);
+      if (crossedCuts.length > 0) {
+        publishDatasetEvent(video.datasetId, {
+          type: 'log',
+          videoId: video.id,
+          clipId: clip.id,
+          line: `Warning: ${outputName} (${video.filename}) crosses a scene cut at ${crossedCuts.map(formatTime).join(', ')}`,
+        });
+      }
+
+      try {
+        // Run FFMPEG processing, persisting percent complete as it runs
+        await processClip(video, clip, outputPath, config, {
+          signal,
+          onProgress: (progress, etaSeconds) => updateClip(video.datasetId, clip.id, { progress, etaSeconds }),
+          onLog: (line) => publishDatasetEvent(video.datasetId, { type: 'log', videoId: video.id, clipId: clip.id, line }),
+        });
+
+        // Trainers pick up the caption from a .txt file next to the clip
+        await Bun.write(join(outputDir, `${outputName}.txt`), buildCaption(clip.caption, dataset.triggerWord));
+
+        // Update clip as processed, recording exactly how the file was encoded
+        await updateClip(video.datasetId, clip.id, { status: 'processed', progress: 100, etaSeconds: null, outputSettings, outputName });
+
+        processedCount++;
+      } catch (error) {
+        if (signal.aborted) {
+          // Leave the clip pending so it is picked up by the next run
+          await updateClip(video.datasetId, clip.id, { progress: 0, etaSeconds: null });
+          throw error;
+        }
+
+        console.error(`Error processing clip ${clip.id} of video ${video.id}:`, error);
+
+        // Update clip status to error
+        await updateClip(video.datasetId, clip.id, { status: 'error', etaSeconds: null, outputSettings: null });
+
+        failedCount++;
+      }
+
+      await updateProgress({ processedCount, failedCount });
+    }
+
+    await refreshVideoStatus(video.id, config, skippedClipIds);
+  }
+
+  console.log(`Processing completed for dataset ${dataset.id}. ${processedCount}/${job.totalCount} clips processed successfully.`);
+
+  // Lay the results out for the chosen trainer
+  if (config.exportLayout) {
+    const result = await exportDataset(dataset.id, config.exportLayout, config);
+    publishDatasetEvent(dataset.id, {
+      type: 'log',
+      line: `Exported ${result.clipCount} clips for ${result.layout} to ${result.directory}`,
+    });
+  }
+}
+
+/**
+ * Update a clip row and broadcast the new state to the dataset's event subscribers
+ */
+async function updateClip(datasetId: number, id: number, values: Partial<Clip>) {
+  const [updatedClip] = await db
+    .update(clips)
+    .set(values)
+    .where(eq(clips.id, id))
+    .returning();
+
+  if (updatedClip) {
+    publishDatasetEvent(datasetId, { type: 'clip', clip: updatedClip });
+  }
+}
+
+/**
+ * Roll clip results up to the video: processed once every clip is (or was skipped, as long as
+ * one was processed), error if any clip failed
+ */
+async function refreshVideoStatus(videoId: number, config: ProcessingConfig, skippedClipIds: Set<number>) {
+  const videoClips = await db.query.clips.findMany({
+    where: eq(clips.videoId, videoId),
+  });
+  if (videoClips.length === 0) return;
+
+  let status: Video['status'] = 'pending';
+  if (videoClips.some(clip => clip.status === 'error')) {
+    status = 'error';
+  } else if (
+    videoClips.every(clip => clip.status === 'processed' || skippedClipIds.has(clip.id))
+    && videoClips.some(clip => clip.status === 'processed')
+  ) {
+    status = 'processed';
+  }
+
+  const progress = videoClips.reduce((sum, clip) => sum + clip.progress, 0) / videoClips.length;
+
+  const [updatedVideo] = await db
+    .update(videos)
+    .set({
+      status,
+      progress,
+      etaSeconds: null,
+      ...(status === 'processed' ? { fps: config.fps, frameCount: config.frameCount } : {}),
+    })
+    .where(eq(videos.id, videoId))
+    .returning();
+
+  if (updatedVideo) {
+    publishDatasetEvent(updatedVideo.datasetId, { type: 'video', video: updatedVideo });
+  }
+}
+
+/**
+ * FFMPEG crop filter for a clip's crop, animated when it has keyframes. Expects the input
+ * to be seeked to the clip start, since keyframe times count from there.
+ */
+export function buildCropFilter(
+  video: Pick<Video, 'originalWidth' | 'originalHeight'>,
+  clip: Pick<Clip, 'cropX' | 'cropY' | 'cropWidth' | 'cropHeight' | 'cropKeyframes'>
+): string {
+  // Ensure crop region is inside source bounds
+  const cropX = Math.max(0, Math.min(video.originalWidth - 1, clip.cropX));
+  const cropY = Math.max(0, Math.min(video.originalHeight - 1, clip.cropY));
+  const cropW = Math.min(clip.cropWidth, video.originalWidth - cropX);
+  const cropH = Math.min(clip.cropHeight, video.originalHeight - cropY);
+
+  const keyframes = clip.cropKeyframes ?? [];
+  return keyframes.length > 1
+    // Pan & scan: x/y are re-evaluated every frame (t starts at 0 at the clip start; crop keeps them in bounds)
+    ? `crop=w=${cropW}:h=${cropH}:x='${buildCropExpression(keyframes, 'x')}':y='${buildCropExpression(keyframes, 'y')}'`
+    : `crop=${cropW}:${cropH}:${Math.round(cropX)}:${Math.round(cropY)}`;
+}
+
+export async function processClip(
+  video: Video,
+  clip: Clip,
+  outputPath: string,
+  config: ProcessingConfig,
+  { signal, onProgress, onLog }: ProcessClipOptions = {}
+): Promise<void> {
+  // Parse desired output resolution (fallback to crop dimensions if parse fails)
+  let outW: number | null = null;
+  let outH: number | null = null;
+  if (clip.resolution) {
+    const parts = clip.resolution.split('x');
+    if (parts.length === 2) {
+      const w = parseInt(parts[0] || '0', 10);
+      const h = parseInt(parts[1] || '0', 10);
+      if (w > 0 && h > 0) {
+        outW = w;
+        outH = h;
+      }
+    }
+  }
+  if (!outW || !outH) {
+    outW = clip.cropWidth;
+    outH = clip.cropHeight;
+  }
+
+  // Build filter chain: first crop the chosen region, then scale to requested output
+  // (If the crop already matches output size, scale is still explicit for consistency)
+  const filters = [buildCropFilter(video, clip)];
+  if (outW && outH) {
+    filters.push(`scale=${outW}:${outH}`);
+  }
+  const filterStr = filters.join(',');
+
+  // Progress reports arrive on stdout as key=value blocks
+  let lastReport = Promise.resolve();
+  const parseProgress = createProgressParser(progress => {
+    const percent = computeProgressPercent(progress, config.frameCount, config.fps);
+    const eta = estimateRemainingSeconds(progress, config.frameCount, config.fps);
+    lastReport = lastReport.then(() => onProgress?.(Math.round(percent * 10) / 10, eta));
+  });
+
+  await runFfmpeg([
+    // Seeking on the input restarts timestamps at the clip start, which keyframe expressions rely on
+    '-ss', clip.startTime.toString(),
+    '-i', video.filepath,
+    '-vf', filterStr,
+    '-r', config.fps.toString(),
+    '-frames:v', config.frameCount.toString(),
+    '-c:v', config.codec,
+    '-preset', config.preset,
+    '-crf', config.crf.toString(),
+    '-pix_fmt', config.pixelFormat,
+    '-progress', 'pipe:1',
+    '-nostats',
+    '-y',
+    outputPath,
+  ], { signal, onStdout: parseProgress, onStderrLine: onLog });
+
+  await lastReport;
+  console.log(`Successfully processed video: ${outputPath}`);
+}
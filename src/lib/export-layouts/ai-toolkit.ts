@@ -0,0 +1,34 @@
+import { join } from 'path';
+import { writeClipsWithCaptions, distinctFrameCounts } from './files';
+import type { ExportLayout } from './types';
+
+/**
+ * ai-toolkit: a folder of clips with .txt captions plus the `datasets` block for the training config
+ */
+export const aiToolkitLayout: ExportLayout = {
+  id: 'ai-toolkit',
+  name: 'ai-toolkit',
+  description: 'Clip folder with caption .txt files and a datasets YAML snippet',
+
+  async write({ exportDir, items }) {
+    const written = await writeClipsWithCaptions(items, exportDir, 'dataset');
+
+    // ai-toolkit buckets on the short side of each clip
+    const resolutions = [...new Set(items.map(item => Math.min(item.width, item.height)))].sort((a, b) => a - b);
+    const frameCounts = distinctFrameCounts(items);
+
+    const lines = [
+      '# Paste under config.process[0] in your ai-toolkit job file',
+      'datasets:',
+      `  - folder_path: ${JSON.stringify(join(exportDir, 'dataset'))}`,
+      '    caption_ext: "txt"',
+      '    caption_dropout_rate: 0.05',
+      `    resolution: [${resolutions.join(', ')}]`,
+      `    num_frames: ${frameCounts[frameCounts.length - 1] ?? 1}`,
+    ];
+
+    await Bun.write(join(exportDir, 'dataset_config.yaml'), lines.join('\n') + '\n');
+    written.push('dataset_config.yaml');
+    return written;
+  },
+};
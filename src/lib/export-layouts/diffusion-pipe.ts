@@ -0,0 +1,35 @@
+import { join } from 'path';
+import { writeClipsWithCaptions, groupByResolution, distinctFrameCounts, tomlString } from './files';
+import type { ExportLayout } from './types';
+
+/**
+ * diffusion-pipe: a single directory of clips and captions, bucketed by aspect ratio and frame count
+ */
+export const diffusionPipeLayout: ExportLayout = {
+  id: 'diffusion-pipe',
+  name: 'diffusion-pipe',
+  description: 'One video directory with a dataset TOML (resolution, aspect and frame buckets)',
+
+  async write({ exportDir, items }) {
+    const written = await writeClipsWithCaptions(items, exportDir, 'videos');
+
+    const sizes = [...groupByResolution(items).values()].map(group => `[${group[0]!.width}, ${group[0]!.height}]`);
+    // Bucket 1 lets the same config train on still images too
+    const frameBuckets = [...new Set([1, ...distinctFrameCounts(items)])];
+
+    const lines = [
+      `resolutions = [${sizes.join(', ')}]`,
+      'enable_ar_bucket = true',
+      `ar_buckets = [${sizes.join(', ')}]`,
+      `frame_buckets = [${frameBuckets.join(', ')}]`,
+      '',
+      '[[directory]]',
+      `path = ${tomlString(join(exportDir, 'videos'))}`,
+      'num_repeats = 1',
+    ];
+
+    await Bun.write(join(exportDir, 'dataset.toml'), lines.join('\n') + '\n');
+    written.push('dataset.toml');
+    return written;
+  },
+};
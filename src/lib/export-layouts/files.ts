@@ -0,0 +1,57 @@
+import { copyFile, link, mkdir } from 'fs/promises';
+import { dirname, join } from 'path';
+import type { ExportItem } from './types';
+
+/**
+ * Place a clip at the destination, hard-linking when possible so exports don't duplicate video data
+ */
+export async function placeFile(source: string, destination: string) {
+  await mkdir(dirname(destination), { recursive: true });
+  try {
+    await link(source, destination);
+  } catch {
+    // Cross-device or unsupported filesystem
+    await copyFile(source, destination);
+  }
+}
+
+/**
+ * Write each clip and its caption .txt into a directory. Returns the paths written, relative to baseDir.
+ */
+export async function writeClipsWithCaptions(items: ExportItem[], baseDir: string, subDir: string): Promise<string[]> {
+  const written: string[] = [];
+  for (const item of items) {
+    const videoFile = join(subDir, `${item.name}.mp4`);
+    const captionFile = join(subDir, `${item.name}.txt`);
+    await placeFile(item.videoPath, join(baseDir, videoFile));
+    await Bun.write(join(baseDir, captionFile), item.caption);
+    written.push(videoFile, captionFile);
+  }
+  return written;
+}
+
+/**
+ * Group clips by output resolution, e.g. { "1280x720": [...] }
+ */
+export function groupByResolution(items: ExportItem[]): Map<string, ExportItem[]> {
+  const groups = new Map<string, ExportItem[]>();
+  for (const item of items) {
+    const key = `${item.width}x${item.height}`;
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+  return groups;
+}
+
+/**
+ * Distinct frame counts across clips, ascending
+ */
+export function distinctFrameCounts(items: ExportItem[]): number[] {
+  return [...new Set(items.map(item => item.frameCount))].sort((a, b) => a - b);
+}
+
+/**
+ * Quote a value as a TOML basic string
+ */
+export function tomlString(value: string): string {
+  return JSON.stringify(value);
+}
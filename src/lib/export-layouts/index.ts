@@ -0,0 +1,27 @@
+import { musubiTunerLayout } from './musubi-tuner';
+import { diffusionPipeLayout } from './diffusion-pipe';
+import { aiToolkitLayout } from './ai-toolkit';
+import { jsonlLayout } from './jsonl';
+import type { ExportLayout, ExportLayoutId } from './types';
+
+export type { ExportLayout, ExportLayoutId, ExportItem, ExportContext } from './types';
+
+// Register new trainer layouts here
+const layouts: ExportLayout[] = [
+  musubiTunerLayout,
+  diffusionPipeLayout,
+  aiToolkitLayout,
+  jsonlLayout,
+];
+
+export function listExportLayouts(): ExportLayout[] {
+  return layouts;
+}
+
+export function getExportLayout(id: unknown): ExportLayout | undefined {
+  return layouts.find(layout => layout.id === id);
+}
+
+export function isExportLayoutId(id: unknown): id is ExportLayoutId {
+  return getExportLayout(id) !== undefined;
+}
@@ -0,0 +1,36 @@
+import { join } from 'path';
+import { placeFile } from './files';
+import type { ExportLayout } from './types';
+
+/**
+ * Generic metadata.jsonl next to a videos folder (Hugging Face videofolder style), captions inline
+ */
+export const jsonlLayout: ExportLayout = {
+  id: 'jsonl',
+  name: 'JSONL metadata',
+  description: 'Video folder with a metadata.jsonl holding captions and clip properties',
+
+  async write({ exportDir, items }) {
+    const written: string[] = [];
+    const records: string[] = [];
+
+    for (const item of items) {
+      const videoFile = join('videos', `${item.name}.mp4`);
+      await placeFile(item.videoPath, join(exportDir, videoFile));
+      written.push(videoFile);
+
+      records.push(JSON.stringify({
+        file_name: videoFile,
+        text: item.caption,
+        width: item.width,
+        height: item.height,
+        num_frames: item.frameCount,
+        fps: item.fps,
+      }));
+    }
+
+    await Bun.write(join(exportDir, 'metadata.jsonl'), records.join('\n') + '\n');
+    written.push('metadata.jsonl');
+    return written;
+  },
+};
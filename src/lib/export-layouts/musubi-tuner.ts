@@ -0,0 +1,43 @@
+import { join } from 'path';
+import { writeClipsWithCaptions, groupByResolution, distinctFrameCounts, tomlString } from './files';
+import type { ExportLayout } from './types';
+
+/**
+ * musubi-tuner: one [[datasets]] entry per output resolution, each with its own video directory
+ */
+export const musubiTunerLayout: ExportLayout = {
+  id: 'musubi-tuner',
+  name: 'musubi-tuner',
+  description: 'Video folders per resolution with a dataset TOML (target_frames, caption .txt files)',
+
+  async write({ exportDir, items }) {
+    const written: string[] = [];
+    const lines = [
+      '[general]',
+      'caption_extension = ".txt"',
+      'batch_size = 1',
+      'enable_bucket = true',
+      'bucket_no_upscale = false',
+    ];
+
+    for (const [resolution, group] of groupByResolution(items)) {
+      const videoDir = join('videos', resolution);
+      written.push(...await writeClipsWithCaptions(group, exportDir, videoDir));
+
+      const { width, height } = group[0]!;
+      lines.push(
+        '',
+        '[[datasets]]',
+        `resolution = [${width}, ${height}]`,
+        `video_directory = ${tomlString(join(exportDir, videoDir))}`,
+        `cache_directory = ${tomlString(join(exportDir, 'cache', resolution))}`,
+        `target_frames = [${distinctFrameCounts(group).join(', ')}]`,
+        'frame_extraction = "head"',
+      );
+    }
+
+    await Bun.write(join(exportDir, 'dataset.toml'), lines.join('\n') + '\n');
+    written.push('dataset.toml');
+    return written;
+  },
+};
@@ -0,0 +1,37 @@
+import type { ExportLayoutId, ProcessingSettings } from '@/types';
+
+export type { ExportLayoutId };
+
+// One processed clip, as seen by a layout writer
+export interface ExportItem {
+  // Output base name shared by the clip and its caption, e.g. "vid_0001"
+  name: string;
+  // Clip the output was made from
+  clipId: number;
+  videoPath: string;
+  caption: string;
+  width: number;
+  height: number;
+  fps: number;
+  frameCount: number;
+  // Where the clip came from
+  sourceFilename: string;
+  startTime: number;
+  // Encoder settings the clip was produced with (null for clips processed before they were recorded)
+  settings: ProcessingSettings | null;
+}
+
+export interface ExportContext {
+  datasetName: string;
+  // Empty directory the layout writes into
+  exportDir: string;
+  items: ExportItem[];
+}
+
+export interface ExportLayout {
+  id: ExportLayoutId;
+  name: string;
+  description: string;
+  // Writes the layout and returns the paths written, relative to exportDir
+  write: (context: ExportContext) => Promise<string[]>;
+}
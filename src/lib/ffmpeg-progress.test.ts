@@ -0,0 +1,74 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  computeProgressPercent,
+  createProgressParser,
+  estimateRemainingSeconds,
+  type FfmpegProgress,
+} from '@/lib/ffmpeg-progress';
+
+const BLOCK = [
+  'frame=24',
+  'fps=48.00',
+  'out_time_us=1000000',
+  'out_time_ms=1000000',
+  'out_time=00:00:01.000000',
+  'speed=2.5x',
+  'progress=continue',
+].join('\n') + '\n';
+
+describe('createProgressParser', () => {
+  test('reports one progress per complete key=value block', () => {
+    const updates: FfmpegProgress[] = [];
+    const parse = createProgressParser(progress => updates.push(progress));
+
+    parse(BLOCK + 'frame=49\nout_time_us=2040000\nspeed=N/A\nprogress=end\n');
+
+    expect(updates).toEqual([
+      { frame: 24, outTimeSeconds: 1, speed: 2.5, done: false },
+      { frame: 49, outTimeSeconds: 2.04, speed: null, done: true },
+    ]);
+  });
+
+  test('joins lines split across stdout chunks', () => {
+    const updates: FfmpegProgress[] = [];
+    const parse = createProgressParser(progress => updates.push(progress));
+
+    parse('frame=1');
+    parse('2\nout_time_us=500');
+    expect(updates).toHaveLength(0);
+    parse('000\nprogress=contin');
+    expect(updates).toHaveLength(0);
+    parse('ue\n');
+
+    expect(updates).toEqual([{ frame: 12, outTimeSeconds: 0.5, speed: null, done: false }]);
+  });
+
+  test('falls back to out_time_ms and ignores negative or missing times', () => {
+    const updates: FfmpegProgress[] = [];
+    const parse = createProgressParser(progress => updates.push(progress));
+
+    parse('out_time_ms=3000000\nprogress=continue\n');
+    parse('out_time_us=-9223372036854775807\nprogress=continue\n');
+    parse('garbage line\nprogress=continue\n');
+
+    expect(updates.map(update => update.outTimeSeconds)).toEqual([3, 0, 0]);
+    expect(updates.map(update => update.frame)).toEqual([0, 0, 0]);
+  });
+});
+
+describe('computeProgressPercent', () => {
+  test('uses whichever of frames and output time is further along, capped at 100', () => {
+    expect(computeProgressPercent({ frame: 24, outTimeSeconds: 0, speed: null, done: false }, 48, 24)).toBe(50);
+    expect(computeProgressPercent({ frame: 0, outTimeSeconds: 1.5, speed: null, done: false }, 48, 24)).toBe(75);
+    expect(computeProgressPercent({ frame: 60, outTimeSeconds: 0, speed: null, done: false }, 48, 24)).toBe(100);
+    expect(computeProgressPercent({ frame: 0, outTimeSeconds: 0, speed: null, done: true }, 48, 24)).toBe(100);
+  });
+});
+
+describe('estimateRemainingSeconds', () => {
+  test('divides the remaining output time by the encode speed', () => {
+    expect(estimateRemainingSeconds({ frame: 24, outTimeSeconds: 1, speed: 2, done: false }, 72, 24)).toBe(1);
+    expect(estimateRemainingSeconds({ frame: 24, outTimeSeconds: 1, speed: null, done: false }, 72, 24)).toBeNull();
+    expect(estimateRemainingSeconds({ frame: 72, outTimeSeconds: 3, speed: 2, done: true }, 72, 24)).toBe(0);
+  });
+});
@@ -0,0 +1,74 @@
+export interface FfmpegProgress {
+  frame: number;
+  outTimeSeconds: number;
+  speed: number | null;
+  done: boolean;
+}
+
+/**
+ * Create a parser for FFMPEG's `-progress pipe:1` output. The returned function accepts raw
+ * stdout chunks and calls `onProgress` once per complete key=value block.
+ */
+export function createProgressParser(onProgress: (progress: FfmpegProgress) => void) {
+  let buffer = '';
+  let block: Record<string, string> = {};
+
+  return (chunk: string) => {
+    buffer += chunk;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const separator = line.indexOf('=');
+      if (separator === -1) continue;
+
+      const key = line.slice(0, separator).trim();
+      const value = line.slice(separator + 1).trim();
+      block[key] = value;
+
+      // Every block ends with progress=continue or progress=end
+      if (key === 'progress') {
+        onProgress(toProgress(block));
+        block = {};
+      }
+    }
+  };
+}
+
+function toProgress(block: Record<string, string>): FfmpegProgress {
+  const frame = parseInt(block.frame || '0', 10);
+  // out_time_us is the precise value; out_time_ms is also microseconds despite its name
+  const outTimeUs = parseInt(block.out_time_us || block.out_time_ms || '0', 10);
+  const speed = parseFloat((block.speed || '').replace('x', ''));
+
+  return {
+    frame: isNaN(frame) ? 0 : frame,
+    outTimeSeconds: isNaN(outTimeUs) ? 0 : Math.max(0, outTimeUs / 1_000_000),
+    speed: isNaN(speed) || speed <= 0 ? null : speed,
+    done: block.progress === 'end',
+  };
+}
+
+/**
+ * Percent complete (0-100) of an encode that should produce `frameCount` frames at `fps`
+ */
+export function computeProgressPercent(progress: FfmpegProgress, frameCount: number, fps: number): number {
+  if (progress.done) return 100;
+
+  const byFrames = frameCount > 0 ? progress.frame / frameCount : 0;
+  const targetSeconds = fps > 0 ? frameCount / fps : 0;
+  const byTime = targetSeconds > 0 ? progress.outTimeSeconds / targetSeconds : 0;
+
+  return Math.min(100, Math.max(0, Math.max(byFrames, byTime) * 100));
+}
+
+/**
+ * Estimated seconds until the encode finishes, based on FFMPEG's reported speed
+ */
+export function estimateRemainingSeconds(progress: FfmpegProgress, frameCount: number, fps: number): number | null {
+  if (progress.done) return 0;
+  if (!progress.speed || fps <= 0) return null;
+
+  const remainingOutputSeconds = Math.max(0, (frameCount - progress.frame) / fps);
+  return remainingOutputSeconds / progress.speed;
+}
@@ -0,0 +1,76 @@
+export interface RunFfmpegOptions {
+  signal?: AbortSignal;
+  // Raw stdout text as it arrives (e.g. `-progress pipe:1` output)
+  onStdout?: (text: string) => void;
+  // Raw stdout bytes as they arrive (e.g. `-f rawvideo -` frames)
+  onStdoutData?: (data: Uint8Array) => void;
+  // Each non-empty stderr line as it arrives
+  onStderrLine?: (line: string) => void;
+}
+
+// Number of FFMPEG stderr lines kept for error messages
+const STDERR_TAIL_LINES = 20;
+
+/**
+ * Run FFMPEG with the given arguments (without the leading "ffmpeg"). Resolves when it exits
+ * successfully; rejects with the tail of stderr on failure or when the signal aborts.
+ */
+export async function runFfmpeg(args: string[], { signal, onStdout, onStdoutData, onStderrLine }: RunFfmpegOptions = {}): Promise<void> {
+  const ffmpegArgs = ['ffmpeg', ...args];
+  console.log('Running FFMPEG with args:', ffmpegArgs);
+
+  const proc = Bun.spawn(ffmpegArgs, { stdout: 'pipe', stderr: 'pipe' });
+
+  // Kill FFMPEG if the caller cancels mid-run
+  const onAbort = () => proc.kill();
+  signal?.addEventListener('abort', onAbort);
+
+  const stdoutDecoder = new TextDecoder();
+  const readOutput = readStream(proc.stdout, (data) => {
+    onStdoutData?.(data);
+    onStdout?.(stdoutDecoder.decode(data, { stream: true }));
+  });
+
+  // Log lines go to the caller as they arrive; the tail is kept for error reporting
+  const stderrTail: string[] = [];
+  let pendingLine = '';
+  const pushLine = (line: string) => {
+    if (!line.trim()) return;
+    stderrTail.push(line);
+    if (stderrTail.length > STDERR_TAIL_LINES) stderrTail.shift();
+    onStderrLine?.(line);
+  };
+  const stderrDecoder = new TextDecoder();
+  const readLog = readStream(proc.stderr, (data) => {
+    const text = stderrDecoder.decode(data, { stream: true });
+    const lines = (pendingLine + text).split(/\r?\n|\r/);
+    pendingLine = lines.pop() ?? '';
+    lines.forEach(pushLine);
+  });
+
+  try {
+    const exitCode = await proc.exited;
+    await Promise.all([readOutput, readLog]);
+    pushLine(pendingLine);
+
+    if (signal?.aborted) {
+      throw new Error('FFMPEG cancelled');
+    }
+    if (exitCode !== 0) {
+      const stderr = stderrTail.join('\n');
+      console.error(`FFMPEG failed with code ${exitCode}:`, stderr);
+      throw new Error(`FFMPEG failed with exit code ${exitCode}: ${stderr}`);
+    }
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+async function readStream(stream: ReadableStream<Uint8Array>, onData: (data: Uint8Array) => void) {
+  const reader = stream.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    onData(value);
+  }
+}
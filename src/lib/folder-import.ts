@@ -0,0 +1,96 @@
+import { copyFile, link, mkdir, readdir, rm, stat } from 'fs/promises';
+import { extname, join, relative, resolve } from 'path';
+import type { Clip, Dataset, Video } from '@/db/schema';
+import { createVideoFromFile, getUploadPath } from '@/lib/video-import';
+
+// Same formats the upload dialog accepts, plus .m4v
+export const IMPORT_EXTENSIONS = ['.mp4', '.m4v', '.mov', '.mkv', '.webm', '.avi'];
+
+export const IMPORT_MODES = ['reference', 'copy', 'hardlink'] as const;
+// reference: use the file where it is; copy / hardlink: place it in uploads/<datasetId> like an upload
+export type ImportMode = typeof IMPORT_MODES[number];
+
+export interface ScannedVideoFile {
+  // Absolute path on the server
+  path: string;
+  // Path below the scanned folder, used as the video's filename
+  relativePath: string;
+  size: number;
+}
+
+/**
+ * Normalise user-supplied extensions ("MP4", ".mov") to lowercase with a leading dot.
+ * Returns null if the value isn't a list of strings.
+ */
+export function normalizeExtensions(extensions: unknown): string[] | null {
+  if (!Array.isArray(extensions) || !extensions.every(extension => typeof extension === 'string')) return null;
+  return extensions
+    .map(extension => extension.trim().toLowerCase())
+    .filter(extension => extension.length > 0)
+    .map(extension => extension.startsWith('.') ? extension : `.${extension}`);
+}
+
+/**
+ * Whether a path is an existing directory the server can read
+ */
+export async function isDirectory(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * List the video files in a folder (and its subfolders when recursive), sorted by path.
+ * Hidden files and folders are skipped.
+ */
+export async function scanVideoFolder(
+  folder: string,
+  { recursive = true, extensions = IMPORT_EXTENSIONS }: { recursive?: boolean; extensions?: string[] } = {}
+): Promise<ScannedVideoFile[]> {
+  const root = resolve(folder);
+  const files: ScannedVideoFile[] = [];
+
+  const walk = async (dir: string) => {
+    const entries = await readdir(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+      const path = join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        if (recursive) await walk(path);
+      } else if (entry.isFile() && extensions.includes(extname(entry.name).toLowerCase())) {
+        files.push({ path, relativePath: relative(root, path), size: (await stat(path)).size });
+      }
+    }
+  };
+
+  await walk(root);
+  return files.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+}
+
+/**
+ * Add a scanned file to a dataset. Copies and hardlinks are removed again if the file is rejected.
+ */
+export async function importVideoFile(
+  dataset: Dataset,
+  file: ScannedVideoFile,
+  mode: ImportMode
+): Promise<Video & { clips: Clip[] }> {
+  if (mode === 'reference') {
+    return createVideoFromFile(dataset, file.relativePath, file.path, { isExternal: true });
+  }
+
+  const filepath = getUploadPath(dataset.id, file.relativePath);
+  await mkdir(`uploads/${dataset.id}`, { recursive: true });
+  // Hardlinks only work within one filesystem; the error says so (EXDEV)
+  await (mode === 'hardlink' ? link(file.path, filepath) : copyFile(file.path, filepath));
+
+  try {
+    return await createVideoFromFile(dataset, file.relativePath, filepath);
+  } catch (error) {
+    await rm(filepath, { force: true });
+    throw error;
+  }
+}
@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'bun:test';
+import { isFrameCountRule, isValidFrameCount, snapFrameCount } from '@/lib/frame-constraints';
+
+describe('isValidFrameCount', () => {
+  test('checks each rule', () => {
+    expect([49, 81, 129].every(count => isValidFrameCount(count, '4n+1'))).toBe(true);
+    expect(isValidFrameCount(48, '4n+1')).toBe(false);
+    expect([49, 97, 121].every(count => isValidFrameCount(count, '8n+1'))).toBe(true);
+    expect(isValidFrameCount(85, '8n+1')).toBe(false);
+    expect([1, 16, 64].every(count => isValidFrameCount(count, 'power-of-two'))).toBe(true);
+    expect(isValidFrameCount(48, 'power-of-two')).toBe(false);
+    expect(isValidFrameCount(50, 'any')).toBe(true);
+  });
+
+  test('refuses counts that are not positive whole numbers under any rule', () => {
+    for (const count of [0, -5, 48.5, NaN]) {
+      expect(isValidFrameCount(count, 'any')).toBe(false);
+    }
+  });
+});
+
+describe('snapFrameCount', () => {
+  test('moves to the nearest count of the step rules, rounding up on ties', () => {
+    expect(snapFrameCount(48, '4n+1')).toBe(49);
+    expect(snapFrameCount(50, '4n+1')).toBe(49);
+    expect(snapFrameCount(51, '4n+1')).toBe(53);
+    expect(snapFrameCount(100, '8n+1')).toBe(97);
+    expect(snapFrameCount(101, '8n+1')).toBe(105);
+  });
+
+  test('picks the closer power of two, rounding up on ties', () => {
+    expect(snapFrameCount(40, 'power-of-two')).toBe(32);
+    expect(snapFrameCount(48, 'power-of-two')).toBe(64);
+    expect(snapFrameCount(100, 'power-of-two')).toBe(128);
+  });
+
+  test('rounds fractions and never goes below one frame', () => {
+    expect(snapFrameCount(49.4, 'any')).toBe(49);
+    expect(snapFrameCount(0, '4n+1')).toBe(1);
+    expect(snapFrameCount(-10, 'power-of-two')).toBe(1);
+    expect(snapFrameCount(NaN, '8n+1')).toBe(1);
+  });
+
+  test('always lands on a valid count', () => {
+    for (const rule of ['4n+1', '8n+1', 'power-of-two', 'any'] as const) {
+      for (let count = 1; count <= 300; count++) {
+        expect(isValidFrameCount(snapFrameCount(count, rule), rule)).toBe(true);
+      }
+    }
+  });
+});
+
+describe('isFrameCountRule', () => {
+  test('accepts only the known rules', () => {
+    expect(isFrameCountRule('8n+1')).toBe(true);
+    expect(isFrameCountRule('16n+1')).toBe(false);
+    expect(isFrameCountRule(undefined)).toBe(false);
+  });
+});
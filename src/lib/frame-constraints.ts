@@ -0,0 +1,51 @@
+import type { FrameCountRule } from '@/types';
+
+// Frame-count shapes video models accept (the VAE compresses time in steps of 4 or 8 after the first frame)
+export const FRAME_COUNT_RULES: { id: FrameCountRule; name: string; description: string }[] = [
+  { id: '4n+1', name: '4n+1', description: 'Wan, Hunyuan Video (e.g. 49, 81, 129)' },
+  { id: '8n+1', name: '8n+1', description: 'LTX Video, CogVideoX (e.g. 49, 97, 121)' },
+  { id: 'power-of-two', name: 'Power of two', description: 'e.g. 16, 32, 64, 128' },
+  { id: 'any', name: 'Any', description: 'No constraint' },
+];
+
+export function isFrameCountRule(value: unknown): value is FrameCountRule {
+  return FRAME_COUNT_RULES.some(rule => rule.id === value);
+}
+
+/**
+ * Whether a frame count satisfies the rule
+ */
+export function isValidFrameCount(frameCount: number, rule: FrameCountRule): boolean {
+  if (!Number.isInteger(frameCount) || frameCount < 1) return false;
+  switch (rule) {
+    case '4n+1':
+      return frameCount % 4 === 1;
+    case '8n+1':
+      return frameCount % 8 === 1;
+    case 'power-of-two':
+      return (frameCount & (frameCount - 1)) === 0;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Nearest frame count that satisfies the rule (rounding up on ties)
+ */
+export function snapFrameCount(frameCount: number, rule: FrameCountRule): number {
+  const value = Math.max(1, Math.round(frameCount) || 1);
+  switch (rule) {
+    case '4n+1':
+    case '8n+1': {
+      const step = rule === '4n+1' ? 4 : 8;
+      return Math.round((value - 1) / step) * step + 1;
+    }
+    case 'power-of-two': {
+      const lower = 2 ** Math.floor(Math.log2(value));
+      const upper = lower * 2;
+      return value - lower < upper - value ? lower : upper;
+    }
+    default:
+      return value;
+  }
+}
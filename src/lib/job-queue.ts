@@ -0,0 +1,244 @@
+import { db } from '@/db';
+import { jobs, type Job } from '@/db/schema';
+import { and, asc, desc, eq, inArray, notInArray } from 'drizzle-orm';
+import { publishDatasetEvent } from '@/lib/dataset-events';
+
+export type JobType = Job['type'];
+
+export interface JobProgress {
+  totalCount?: number;
+  processedCount?: number;
+  failedCount?: number;
+}
+
+export interface JobContext {
+  signal: AbortSignal;
+  updateProgress: (progress: JobProgress) => Promise<void>;
+}
+
+export type JobHandler = (job: Job, context: JobContext) => Promise<void>;
+
+const POLL_INTERVAL_MS = 1000;
+const ACTIVE_STATUSES: Job['status'][] = ['queued', 'running'];
+// Long encoding runs get a lane of their own so previews and analyses don't wait behind them
+const ENCODING_JOB_TYPES: JobType[] = ['process-dataset'];
+
+type WorkerLane = 'encoding' | 'analysis';
+
+const handlers = new Map<JobType, JobHandler>();
+const runningJobs = new Map<number, AbortController>();
+let workerStarted = false;
+
+/**
+ * Register the function that runs jobs of the given type
+ */
+export function registerJobHandler(type: JobType, handler: JobHandler) {
+  handlers.set(type, handler);
+}
+
+/**
+ * Check whether a job is still waiting or running
+ */
+export function isJobActive(job: Pick<Job, 'status'>): boolean {
+  return ACTIVE_STATUSES.includes(job.status);
+}
+
+export async function enqueueJob(
+  type: JobType,
+  datasetId: number,
+  payload: Record<string, unknown>,
+  progress: JobProgress = {}
+): Promise<Job> {
+  const [job] = await db
+    .insert(jobs)
+    .values({ type, datasetId, payload, ...progress })
+    .returning();
+
+  publishJob(job);
+  return job!;
+}
+
+export async function findJobs(filter: { datasetId?: number; activeOnly?: boolean } = {}): Promise<Job[]> {
+  const conditions = [];
+  if (filter.datasetId !== undefined) {
+    conditions.push(eq(jobs.datasetId, filter.datasetId));
+  }
+  if (filter.activeOnly) {
+    conditions.push(inArray(jobs.status, ACTIVE_STATUSES));
+  }
+
+  return db.query.jobs.findMany({
+    where: conditions.length > 0 ? and(...conditions) : undefined,
+    orderBy: desc(jobs.id),
+  });
+}
+
+export async function findActiveJob(datasetId: number, type: JobType): Promise<Job | undefined> {
+  return db.query.jobs.findFirst({
+    where: and(
+      eq(jobs.datasetId, datasetId),
+      eq(jobs.type, type),
+      inArray(jobs.status, ACTIVE_STATUSES)
+    ),
+  });
+}
+
+/**
+ * Cancel a queued or running job. Running jobs are aborted through their signal.
+ */
+export async function cancelJob(id: number): Promise<Job | undefined> {
+  const job = await db.query.jobs.findFirst({
+    where: eq(jobs.id, id),
+  });
+
+  if (!job || !isJobActive(job)) {
+    return job;
+  }
+
+  const [cancelledJob] = await db
+    .update(jobs)
+    .set({ status: 'cancelled', finishedAt: new Date().toISOString() })
+    .where(eq(jobs.id, id))
+    .returning();
+
+  runningJobs.get(id)?.abort();
+  publishJob(cancelledJob);
+
+  return cancelledJob;
+}
+
+/**
+ * Cancel every active job of a dataset and remove its job history
+ */
+export async function deleteDatasetJobs(datasetId: number) {
+  const activeJobs = await findJobs({ datasetId, activeOnly: true });
+  for (const job of activeJobs) {
+    await cancelJob(job.id);
+  }
+
+  await db
+    .delete(jobs)
+    .where(eq(jobs.datasetId, datasetId));
+}
+
+/**
+ * Start the background worker loops. Encoding jobs and all other jobs run on separate lanes,
+ * each running one job at a time in creation order.
+ */
+export async function startJobWorker() {
+  if (workerStarted) return;
+  workerStarted = true;
+
+  // Jobs still marked running were interrupted by a restart - queue them again so they resume
+  const interrupted = await db
+    .update(jobs)
+    .set({ status: 'queued' })
+    .where(eq(jobs.status, 'running'))
+    .returning({ id: jobs.id });
+
+  if (interrupted.length > 0) {
+    console.log(`Resuming ${interrupted.length} interrupted job(s):`, interrupted.map(job => job.id));
+  }
+
+  void workLoop('encoding');
+  void workLoop('analysis');
+}
+
+async function workLoop(lane: WorkerLane) {
+  while (true) {
+    try {
+      const ranJob = await runNextJob(lane);
+      if (!ranJob) {
+        await Bun.sleep(POLL_INTERVAL_MS);
+      }
+    } catch (error) {
+      console.error(`Job worker error (${lane} lane):`, error);
+      await Bun.sleep(POLL_INTERVAL_MS);
+    }
+  }
+}
+
+async function runNextJob(lane: WorkerLane): Promise<boolean> {
+  const job = await db.query.jobs.findFirst({
+    where: and(
+      eq(jobs.status, 'queued'),
+      lane === 'encoding'
+        ? inArray(jobs.type, ENCODING_JOB_TYPES)
+        : notInArray(jobs.type, ENCODING_JOB_TYPES)
+    ),
+    orderBy: asc(jobs.id),
+  });
+
+  if (!job) {
+    return false;
+  }
+
+  // Only claim the job if it wasn't cancelled since it was read
+  const [runningJob] = await db
+    .update(jobs)
+    .set({ status: 'running', startedAt: job.startedAt ?? new Date().toISOString() })
+    .where(and(eq(jobs.id, job.id), eq(jobs.status, 'queued')))
+    .returning();
+
+  if (!runningJob) {
+    return true;
+  }
+
+  publishJob(runningJob);
+
+  const handler = handlers.get(job.type);
+  if (!handler) {
+    await finishJob(job.id, 'failed', `No handler registered for job type "${job.type}"`);
+    return true;
+  }
+
+  const controller = new AbortController();
+  runningJobs.set(job.id, controller);
+  console.log(`Starting job ${job.id} (${job.type}) for dataset ${job.datasetId}`);
+
+  const updateProgress = async (progress: JobProgress) => {
+    const [updatedJob] = await db
+      .update(jobs)
+      .set(progress)
+      .where(eq(jobs.id, job.id))
+      .returning();
+    publishJob(updatedJob);
+  };
+
+  try {
+    await handler(runningJob, { signal: controller.signal, updateProgress });
+
+    if (!controller.signal.aborted) {
+      await finishJob(job.id, 'completed');
+      console.log(`Job ${job.id} completed`);
+    }
+  } catch (error) {
+    if (controller.signal.aborted) {
+      // Status was already set to cancelled by cancelJob
+      console.log(`Job ${job.id} cancelled`);
+    } else {
+      console.error(`Job ${job.id} failed:`, error);
+      await finishJob(job.id, 'failed', error instanceof Error ? error.message : 'Unknown error');
+    }
+  } finally {
+    runningJobs.delete(job.id);
+  }
+
+  return true;
+}
+
+async function finishJob(id: number, status: 'completed' | 'failed', error?: string) {
+  // A cancel that landed while the handler was returning wins
+  const [finishedJob] = await db
+    .update(jobs)
+    .set({ status, error: error ?? null, finishedAt: new Date().toISOString() })
+    .where(and(eq(jobs.id, id), eq(jobs.status, 'running')))
+    .returning();
+  publishJob(finishedJob);
+}
+
+function publishJob(job: Job | undefined) {
+  if (job) {
+    publishDatasetEvent(job.datasetId, { type: 'job', job });
+  }
+}
@@ -0,0 +1,61 @@
+import type { Job } from '@/db/schema';
+import type { JobContext } from '@/lib/job-queue';
+import { runFfmpeg } from '@/lib/ffmpeg';
+import { runVideoTaskJob } from '@/lib/video-jobs';
+
+// Frames are compared at this width; motion shows just as well and the filters run much faster
+const ANALYSIS_WIDTH = 160;
+
+/**
+ * Motion energy for each second of a video: the mean luma change between consecutive frames
+ * (signalstats YDIF, 0-255) over the frames in that second.
+ */
+export async function measureMotionEnergy(
+  filePath: string,
+  duration: number,
+  signal?: AbortSignal
+): Promise<number[]> {
+  const seconds = Math.max(1, Math.ceil(duration));
+  const sums = new Array<number>(seconds).fill(0);
+  const counts = new Array<number>(seconds).fill(0);
+  let frameTime = 0;
+  let frameIndex = 0;
+
+  // metadata=print logs each frame's timestamp, then the value
+  await runFfmpeg([
+    '-hide_banner',
+    '-i', filePath,
+    '-an',
+    '-vf', `scale=${ANALYSIS_WIDTH}:-2,signalstats,metadata=print:key=lavfi.signalstats.YDIF`,
+    '-f', 'null',
+    '-',
+  ], {
+    signal,
+    onStderrLine: (line) => {
+      const timeMatch = line.match(/pts_time:\s*(-?[\d.]+)/);
+      if (timeMatch) {
+        frameTime = parseFloat(timeMatch[1]!);
+        return;
+      }
+
+      const valueMatch = line.match(/lavfi\.signalstats\.YDIF=([\d.]+)/);
+      // The first frame has nothing to differ from
+      if (!valueMatch || frameIndex++ === 0) return;
+      const second = Math.min(seconds - 1, Math.max(0, Math.floor(frameTime)));
+      sums[second]! += parseFloat(valueMatch[1]!);
+      counts[second]!++;
+    },
+  });
+
+  return sums.map((sum, i) => counts[i] ? Math.round((sum / counts[i]!) * 100) / 100 : 0);
+}
+
+/**
+ * Job handler for 'analyze-motion' jobs. Stores the per-second motion energy of each video in the payload.
+ */
+export async function runAnalyzeMotionJob(job: Job, context: JobContext) {
+  await runVideoTaskJob(job, context, {
+    label: 'Motion analysis',
+    run: async (video, signal) => ({ motionEnergy: await measureMotionEnergy(video.filepath, video.duration, signal) }),
+  });
+}
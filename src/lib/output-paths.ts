@@ -0,0 +1,23 @@
+import { join } from 'path';
+
+/**
+ * Base name of the nth output (1-based) of a dataset, e.g. "vid_0001"
+ */
+export function getOutputName(index: number): string {
+  return `vid_${String(index).padStart(4, '0')}`;
+}
+
+/**
+ * Number of an output name from getOutputName, or 0 if it isn't one
+ */
+export function getOutputIndex(name: string): number {
+  const match = /^vid_(\d+)$/.exec(name);
+  return match ? parseInt(match[1]!, 10) : 0;
+}
+
+/**
+ * Directory holding a dataset's processed clips
+ */
+export function getOutputDir(datasetName: string): string {
+  return join(process.cwd(), 'output', datasetName);
+}
@@ -0,0 +1,106 @@
+import { isFrameCountRule, isValidFrameCount, snapFrameCount } from '@/lib/frame-constraints';
+import type { ProcessingConfig, ProcessingSettings } from '@/types';
+
+// Encoder options offered in the processing panel
+export const VIDEO_CODECS = ['libx264', 'libx265'] as const;
+export const ENCODER_PRESETS = [
+  'ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium', 'slow', 'slower', 'veryslow',
+] as const;
+export const PIXEL_FORMATS = ['yuv420p', 'yuv444p', 'yuv420p10le'] as const;
+
+// x264/x265 CRF range (lower is higher quality)
+export const MIN_CRF = 0;
+export const MAX_CRF = 51;
+
+// Settings used until a dataset saves its own
+export const DEFAULT_PROCESSING_SETTINGS: ProcessingSettings = {
+  fps: 16,
+  frameCount: 81,
+  frameCountRule: '4n+1',
+  codec: 'libx264',
+  crf: 23,
+  preset: 'medium',
+  pixelFormat: 'yuv420p',
+};
+
+// Presets seeded into a new database
+export const BUILT_IN_PROCESSING_PRESETS: { name: string; settings: ProcessingSettings }[] = [
+  { name: 'Wan 2.1 16fps/81f', settings: { ...DEFAULT_PROCESSING_SETTINGS, fps: 16, frameCount: 81 } },
+  { name: 'Hunyuan 24fps/129f', settings: { ...DEFAULT_PROCESSING_SETTINGS, fps: 24, frameCount: 129 } },
+];
+
+/**
+ * Fill in any missing settings from `base` (the defaults unless given)
+ */
+export function resolveProcessingSettings(
+  settings: Partial<ProcessingSettings> | null | undefined,
+  base: ProcessingSettings = DEFAULT_PROCESSING_SETTINGS
+): ProcessingSettings {
+  return {
+    fps: settings?.fps ?? base.fps,
+    frameCount: settings?.frameCount ?? base.frameCount,
+    frameCountRule: settings?.frameCountRule ?? base.frameCountRule,
+    codec: settings?.codec ?? base.codec,
+    crf: settings?.crf ?? base.crf,
+    preset: settings?.preset ?? base.preset,
+    pixelFormat: settings?.pixelFormat ?? base.pixelFormat,
+  };
+}
+
+/**
+ * Keep only the encoding settings of a processing config (drops the export layout)
+ */
+export function pickProcessingSettings(config: ProcessingConfig): ProcessingSettings {
+  return resolveProcessingSettings(config, config);
+}
+
+/**
+ * Check processing settings. Returns an error message, or null if they are usable.
+ */
+export function validateProcessingSettings(settings: ProcessingSettings): string | null {
+  if (!Number.isInteger(settings.fps) || settings.fps < 1 || settings.fps > 120) {
+    return 'FPS must be a whole number between 1 and 120';
+  }
+  if (!Number.isInteger(settings.frameCount) || settings.frameCount < 1 || settings.frameCount > 10000) {
+    return 'Frame count must be a whole number between 1 and 10000';
+  }
+  if (!isFrameCountRule(settings.frameCountRule)) {
+    return `Unknown frame count rule: ${settings.frameCountRule}`;
+  }
+  if (!isValidFrameCount(settings.frameCount, settings.frameCountRule)) {
+    return `Frame count ${settings.frameCount} does not fit ${settings.frameCountRule} (nearest is ${snapFrameCount(settings.frameCount, settings.frameCountRule)})`;
+  }
+  if (!(VIDEO_CODECS as readonly string[]).includes(settings.codec)) {
+    return `Codec must be one of ${VIDEO_CODECS.join(', ')}`;
+  }
+  if (!Number.isInteger(settings.crf) || settings.crf < MIN_CRF || settings.crf > MAX_CRF) {
+    return `CRF must be a whole number between ${MIN_CRF} and ${MAX_CRF}`;
+  }
+  if (!(ENCODER_PRESETS as readonly string[]).includes(settings.preset)) {
+    return `Preset must be one of ${ENCODER_PRESETS.join(', ')}`;
+  }
+  if (!(PIXEL_FORMATS as readonly string[]).includes(settings.pixelFormat)) {
+    return `Pixel format must be one of ${PIXEL_FORMATS.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Short summary, e.g. "16fps • 81f • libx264 crf23 medium yuv420p"
+ */
+export function describeProcessingSettings(settings: ProcessingSettings): string {
+  return `${settings.fps}fps • ${settings.frameCount}f • ${settings.codec} crf${settings.crf} ${settings.preset} ${settings.pixelFormat}`;
+}
+
+/**
+ * Whether two sets of settings produce the same output
+ */
+export function isSameProcessingSettings(a: ProcessingSettings, b: ProcessingSettings): boolean {
+  return a.fps === b.fps
+    && a.frameCount === b.frameCount
+    && a.frameCountRule === b.frameCountRule
+    && a.codec === b.codec
+    && a.crf === b.crf
+    && a.preset === b.preset
+    && a.pixelFormat === b.pixelFormat;
+}
@@ -0,0 +1,154 @@
+import { db } from '@/db';
+import { clips, datasets, type Clip, type Job, type Video } from '@/db/schema';
+import { asc, eq } from 'drizzle-orm';
+import type { JobContext } from '@/lib/job-queue';
+import { publishDatasetEvent } from '@/lib/dataset-events';
+import { runFfmpeg } from '@/lib/ffmpeg';
+import { runVideoTaskJob } from '@/lib/video-jobs';
+import { buildCropFilter } from '@/lib/dataset-processing';
+import { resolveProcessingSettings } from '@/lib/processing-settings';
+import { getQualityIssues } from '@/lib/quality-checks';
+import type { ClipQuality, ClipQualityScores, ProcessingSettings } from '@/types';
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Score a clip's window (frameCount / fps seconds from its start, inside its crop) with
+ * FFMPEG's analysis filters in a single decode, and flag the scores that fail QUALITY_THRESHOLDS.
+ */
+export async function checkClipQuality(
+  video: Video,
+  clip: Clip,
+  settings: Pick<ProcessingSettings, 'fps' | 'frameCount'>,
+  signal?: AbortSignal
+): Promise<ClipQuality> {
+  const duration = Math.min(settings.frameCount / settings.fps, video.duration - clip.startTime);
+  if (duration <= 0) {
+    throw new Error('Clip starts after the end of the video');
+  }
+
+  let blackDuration = 0;
+  let frozenDuration = 0;
+  let freezeStart: number | null = null;
+  let motionSum = 0;
+  let motionFrames = 0;
+  let interlacedFrames = 0;
+  let progressiveFrames = 0;
+  let blur = 0;
+  let activeArea: { width: number; height: number } | null = null;
+
+  // idet runs before the crop, which can shift the field order; the others only see the crop.
+  // Each filter logs its findings to stderr (signalstats through metadata=print).
+  const filters = [
+    'idet',
+    buildCropFilter(video, clip),
+    'cropdetect=limit=24:round=2:reset=0',
+    'blackdetect=d=0.1:pix_th=0.10',
+    'freezedetect=n=-60dB:d=0.5',
+    'blurdetect',
+    'signalstats',
+    'metadata=print:key=lavfi.signalstats.YDIF',
+  ];
+
+  await runFfmpeg([
+    '-hide_banner',
+    // Seeking on the input restarts timestamps at the clip start, which keyframe expressions rely on
+    '-ss', clip.startTime.toString(),
+    '-t', duration.toString(),
+    '-i', video.filepath,
+    '-an',
+    '-vf', filters.join(','),
+    '-f', 'null',
+    '-',
+  ], {
+    signal,
+    onStderrLine: (line) => {
+      let match: RegExpMatchArray | null;
+      if ((match = line.match(/lavfi\.signalstats\.YDIF=([\d.]+)/))) {
+        // The first frame has nothing to differ from
+        if (motionFrames++ > 0) motionSum += parseFloat(match[1]!);
+      } else if ((match = line.match(/black_duration:\s*([\d.]+)/))) {
+        blackDuration += parseFloat(match[1]!);
+      } else if ((match = line.match(/freeze_start:\s*([\d.]+)/))) {
+        freezeStart = parseFloat(match[1]!);
+      } else if ((match = line.match(/freeze_end:\s*([\d.]+)/))) {
+        if (freezeStart !== null) frozenDuration += parseFloat(match[1]!) - freezeStart;
+        freezeStart = null;
+      } else if ((match = line.match(/crop=(-?\d+):(-?\d+):/))) {
+        // cropdetect never resets, so its last line covers every frame
+        activeArea = { width: Math.max(0, parseInt(match[1]!)), height: Math.max(0, parseInt(match[2]!)) };
+      } else if ((match = line.match(/Multi frame detection:\s*TFF:\s*(\d+)\s*BFF:\s*(\d+)\s*Progressive:\s*(\d+)/))) {
+        interlacedFrames = parseInt(match[1]!) + parseInt(match[2]!);
+        progressiveFrames = parseInt(match[3]!);
+      } else if ((match = line.match(/blur mean:\s*([\d.]+)/))) {
+        blur = parseFloat(match[1]!);
+      }
+    },
+  });
+
+  // A freeze that lasts to the end of the window is never closed
+  if (freezeStart !== null) {
+    frozenDuration += duration - freezeStart;
+  }
+
+  const cropArea = clip.cropWidth * clip.cropHeight;
+  const { width: activeWidth, height: activeHeight } = activeArea ?? { width: clip.cropWidth, height: clip.cropHeight };
+  const megapixels = (video.originalWidth * video.originalHeight) / 1e6;
+  const bitrateKbps = (Bun.file(video.filepath).size * 8) / 1000 / Math.max(video.duration, 0.001);
+  const detectedFrames = interlacedFrames + progressiveFrames;
+
+  const scores: ClipQualityScores = {
+    blackRatio: round(Math.min(1, blackDuration / duration)),
+    frozenRatio: round(Math.min(1, frozenDuration / duration)),
+    motion: round(motionFrames > 1 ? motionSum / (motionFrames - 1) : 0),
+    interlacedRatio: round(detectedFrames > 0 ? interlacedFrames / detectedFrames : 0),
+    blur: round(blur),
+    letterboxRatio: round(cropArea > 0 ? Math.max(0, 1 - (activeWidth * activeHeight) / cropArea) : 0),
+    bitrateKbpsPerMegapixel: round(megapixels > 0 ? bitrateKbps / megapixels : 0),
+  };
+
+  return {
+    startTime: clip.startTime,
+    duration: round(duration),
+    ...scores,
+    issues: getQualityIssues(scores),
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Job handler for 'check-quality' jobs. Checks every clip of each video in the payload with the
+ * dataset's processing settings and stores the result on the clip.
+ */
+export async function runCheckQualityJob(job: Job, context: JobContext) {
+  const dataset = await db.query.datasets.findFirst({
+    where: eq(datasets.id, job.datasetId),
+  });
+  const settings = resolveProcessingSettings(dataset?.processingConfig);
+
+  await runVideoTaskJob(job, context, {
+    label: 'Quality check',
+    run: async (video, signal) => {
+      const videoClips = await db.query.clips.findMany({
+        where: eq(clips.videoId, video.id),
+        orderBy: asc(clips.id),
+      });
+
+      for (const clip of videoClips) {
+        const quality = await checkClipQuality(video, clip, settings, signal);
+        const [updatedClip] = await db
+          .update(clips)
+          .set({ quality })
+          .where(eq(clips.id, clip.id))
+          .returning();
+
+        if (updatedClip) {
+          publishDatasetEvent(video.datasetId, { type: 'clip', clip: updatedClip });
+        }
+      }
+
+      // Results are stored per clip
+      return {};
+    },
+  });
+}
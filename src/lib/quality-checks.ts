@@ -0,0 +1,91 @@
+import type { Clip, ClipQualityIssue, ClipQualityScores } from '@/types';
+
+// Limits a clip's scores must stay within to pass its quality check
+export const QUALITY_THRESHOLDS = {
+  // At most a fifth of the window may be black, and under a third frozen
+  maxBlackRatio: 0.2,
+  maxFrozenRatio: 0.3,
+  // Mean luma change per frame below which the clip is mostly static (sensor noise alone is ~0.3)
+  minMotion: 0.5,
+  maxInterlacedRatio: 0.3,
+  // blurdetect scores sharp footage around 2-4
+  maxBlur: 7,
+  // Bars covering more than 5% of the crop end up in the training clip
+  maxLetterboxRatio: 0.05,
+  // ~1 Mbps for 1080p, ~460 kbps for 720p
+  minBitrateKbpsPerMegapixel: 500,
+};
+
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+// Every check, in the order issues are listed, with a message describing a failing clip
+export const QUALITY_CHECKS: {
+  id: ClipQualityIssue;
+  name: string;
+  fails: (scores: ClipQualityScores) => boolean;
+  describe: (scores: ClipQualityScores) => string;
+}[] = [
+  {
+    id: 'black',
+    name: 'Black frames',
+    fails: scores => scores.blackRatio > QUALITY_THRESHOLDS.maxBlackRatio,
+    describe: scores => `${percent(scores.blackRatio)} of the clip is black`,
+  },
+  {
+    id: 'frozen',
+    name: 'Frozen',
+    fails: scores => scores.frozenRatio > QUALITY_THRESHOLDS.maxFrozenRatio,
+    describe: scores => `${percent(scores.frozenRatio)} of the clip is a frozen frame`,
+  },
+  {
+    id: 'static',
+    name: 'Mostly static',
+    fails: scores => scores.motion < QUALITY_THRESHOLDS.minMotion,
+    describe: scores => `Very little motion (${scores.motion.toFixed(2)} mean change per frame)`,
+  },
+  {
+    id: 'interlaced',
+    name: 'Interlaced',
+    fails: scores => scores.interlacedRatio > QUALITY_THRESHOLDS.maxInterlacedRatio,
+    describe: scores => `${percent(scores.interlacedRatio)} of the frames are interlaced`,
+  },
+  {
+    id: 'blurry',
+    name: 'Blurry',
+    fails: scores => scores.blur > QUALITY_THRESHOLDS.maxBlur,
+    describe: scores => `Blurry (score ${scores.blur.toFixed(1)}, sharp footage is below ${QUALITY_THRESHOLDS.maxBlur})`,
+  },
+  {
+    id: 'letterboxed',
+    name: 'Letterboxed',
+    fails: scores => scores.letterboxRatio > QUALITY_THRESHOLDS.maxLetterboxRatio,
+    describe: scores => `Black bars cover ${percent(scores.letterboxRatio)} of the crop`,
+  },
+  {
+    id: 'low-bitrate',
+    name: 'Low bitrate',
+    fails: scores => scores.bitrateKbpsPerMegapixel < QUALITY_THRESHOLDS.minBitrateKbpsPerMegapixel,
+    describe: scores => `Low source bitrate (${Math.round(scores.bitrateKbpsPerMegapixel)} kbps per megapixel)`,
+  },
+];
+
+/**
+ * Issues found in a clip's quality scores, in QUALITY_CHECKS order
+ */
+export function getQualityIssues(scores: ClipQualityScores): ClipQualityIssue[] {
+  return QUALITY_CHECKS.filter(check => check.fails(scores)).map(check => check.id);
+}
+
+/**
+ * Short names of a clip's issues, e.g. "Black frames, Blurry"
+ */
+export function describeQualityIssues(issues: ClipQualityIssue[]): string {
+  return issues.map(issue => QUALITY_CHECKS.find(check => check.id === issue)?.name ?? issue).join(', ');
+}
+
+/**
+ * Whether a clip's last quality check found anything (unchecked clips pass)
+ */
+export function hasQualityIssues(clip: Pick<Clip, 'quality'>): boolean {
+  return (clip.quality?.issues.length ?? 0) > 0;
+}
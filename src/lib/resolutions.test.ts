@@ -0,0 +1,78 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  DEFAULT_RESOLUTIONS,
+  describeResolution,
+  getDatasetResolutions,
+  isRecommendedResolution,
+  parseResolution,
+  pickResolutionForAspect,
+  validateResolution,
+} from '@/lib/resolutions';
+
+describe('parseResolution', () => {
+  test('reads WIDTHxHEIGHT, tolerating surrounding whitespace', () => {
+    expect(parseResolution('1280x720')).toEqual({ width: 1280, height: 720 });
+    expect(parseResolution(' 768x768 ')).toEqual({ width: 768, height: 768 });
+  });
+
+  test('returns null for anything else', () => {
+    for (const resolution of ['1280×720', '1280x', 'x720', '1280x720p', '-8x8', '0x720', '']) {
+      expect(parseResolution(resolution)).toBeNull();
+    }
+  });
+});
+
+describe('validateResolution', () => {
+  test('accepts the defaults and any multiple of 8 up to 4096', () => {
+    for (const resolution of [...DEFAULT_RESOLUTIONS, '8x8', '4096x4096', '840x480']) {
+      expect(validateResolution(resolution)).toBeNull();
+    }
+  });
+
+  test('explains why a preset is refused', () => {
+    expect(validateResolution('wide')).toContain('not a WIDTHxHEIGHT');
+    expect(validateResolution('4104x720')).toContain('larger than 4096px');
+    expect(validateResolution('1280x721')).toContain('divisible by 8');
+  });
+
+  test('only recommends multiples of 16', () => {
+    expect(isRecommendedResolution('1280x720')).toBe(true);
+    expect(isRecommendedResolution('840x480')).toBe(false);
+    expect(isRecommendedResolution('wide')).toBe(false);
+  });
+});
+
+describe('describeResolution', () => {
+  test('labels the reduced ratio and orientation', () => {
+    expect(describeResolution('1280x720')).toBe('1280×720 (16:9 Landscape)');
+    expect(describeResolution('720x1280')).toBe('720×1280 (9:16 Portrait)');
+    expect(describeResolution('768x768')).toBe('768×768 (1:1 Square)');
+  });
+
+  test('approximates awkward ratios', () => {
+    expect(describeResolution('832x480')).toBe('832×480 (~16:9 Landscape)');
+    expect(describeResolution('1000x600')).toBe('1000×600 (5:3 Landscape)');
+    expect(describeResolution('1336x440')).toBe('1336×440 (3.04 Landscape)');
+  });
+});
+
+describe('pickResolutionForAspect', () => {
+  test('picks the preset closest in aspect ratio', () => {
+    expect(pickResolutionForAspect(DEFAULT_RESOLUTIONS, 16 / 9)).toBe('1280x720');
+    expect(pickResolutionForAspect(DEFAULT_RESOLUTIONS, 9 / 16)).toBe('720x1280');
+    expect(pickResolutionForAspect(DEFAULT_RESOLUTIONS, 5 / 4)).toBe('768x768');
+  });
+
+  test('keeps the first preset on ties and skips malformed ones', () => {
+    expect(pickResolutionForAspect(['512x512', '768x768'], 1)).toBe('512x512');
+    expect(pickResolutionForAspect(['bad', '720x1280'], 0.5)).toBe('720x1280');
+  });
+});
+
+describe('getDatasetResolutions', () => {
+  test('falls back to the defaults when a dataset has none', () => {
+    expect(getDatasetResolutions({ resolutions: null })).toEqual(DEFAULT_RESOLUTIONS);
+    expect(getDatasetResolutions({ resolutions: [] })).toEqual(DEFAULT_RESOLUTIONS);
+    expect(getDatasetResolutions({ resolutions: ['512x512'] })).toEqual(['512x512']);
+  });
+});
@@ -0,0 +1,97 @@
+// Presets a new dataset starts with
+export const DEFAULT_RESOLUTIONS = ['1280x720', '720x1280', '768x768'];
+
+// Video models need dimensions divisible by 8 (VAE); most also want multiples of 16 (patches)
+export const REQUIRED_MULTIPLE = 8;
+export const RECOMMENDED_MULTIPLE = 16;
+
+// Largest output side accepted
+const MAX_DIMENSION = 4096;
+
+/**
+ * Parse a "WIDTHxHEIGHT" resolution string. Returns null if it is malformed.
+ */
+export function parseResolution(resolution: string): { width: number; height: number } | null {
+  const match = /^(\d+)x(\d+)$/.exec(resolution.trim());
+  if (!match) return null;
+  const width = parseInt(match[1]!, 10);
+  const height = parseInt(match[2]!, 10);
+  if (width <= 0 || height <= 0) return null;
+  return { width, height };
+}
+
+/**
+ * Check a resolution preset. Returns an error message, or null if it is usable.
+ */
+export function validateResolution(resolution: string): string | null {
+  const parsed = parseResolution(resolution);
+  if (!parsed) {
+    return `"${resolution}" is not a WIDTHxHEIGHT resolution`;
+  }
+  if (parsed.width > MAX_DIMENSION || parsed.height > MAX_DIMENSION) {
+    return `${resolution} is larger than ${MAX_DIMENSION}px`;
+  }
+  if (parsed.width % REQUIRED_MULTIPLE !== 0 || parsed.height % REQUIRED_MULTIPLE !== 0) {
+    return `${resolution} must have both dimensions divisible by ${REQUIRED_MULTIPLE}`;
+  }
+  return null;
+}
+
+/**
+ * Whether both dimensions are multiples of the recommended patch size
+ */
+export function isRecommendedResolution(resolution: string): boolean {
+  const parsed = parseResolution(resolution);
+  return !!parsed && parsed.width % RECOMMENDED_MULTIPLE === 0 && parsed.height % RECOMMENDED_MULTIPLE === 0;
+}
+
+/**
+ * Human readable label, e.g. "1280×720 (16:9 Landscape)"
+ */
+export function describeResolution(resolution: string): string {
+  const parsed = parseResolution(resolution);
+  if (!parsed) return resolution;
+
+  const { width, height } = parsed;
+  const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+  const divisor = gcd(width, height);
+  const ratio = `${width / divisor}:${height / divisor}`;
+  const orientation = width === height ? 'Square' : width > height ? 'Landscape' : 'Portrait';
+
+  // Near-standard ratios (within 3%) like 832x480 read better as an approximation than as 26:15
+  const aspect = width / height;
+  const common = [[16, 9], [9, 16], [4, 3], [3, 4], [3, 2], [2, 3], [1, 1], [21, 9]]
+    .find(([w, h]) => Math.abs(aspect / (w! / h!) - 1) < 0.03);
+  const label = width / divisor <= 21 && height / divisor <= 21
+    ? ratio
+    : common ? `~${common[0]}:${common[1]}` : aspect.toFixed(2);
+
+  return `${width}×${height} (${label} ${orientation})`;
+}
+
+/**
+ * Pick the preset whose aspect ratio is closest to the source video (first preset wins ties)
+ */
+export function pickResolutionForAspect(resolutions: string[], aspectRatio: number): string {
+  let best = resolutions[0] ?? DEFAULT_RESOLUTIONS[0]!;
+  let bestDistance = Infinity;
+
+  for (const resolution of resolutions) {
+    const parsed = parseResolution(resolution);
+    if (!parsed) continue;
+    const distance = Math.abs(Math.log(parsed.width / parsed.height / aspectRatio));
+    if (distance < bestDistance - 1e-9) {
+      best = resolution;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * A dataset's resolution presets, falling back to the defaults when none are configured
+ */
+export function getDatasetResolutions(dataset: { resolutions?: string[] | null }): string[] {
+  return dataset.resolutions?.length ? dataset.resolutions : DEFAULT_RESOLUTIONS;
+}
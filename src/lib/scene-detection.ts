@@ -0,0 +1,54 @@
+import type { Job } from '@/db/schema';
+import type { JobContext } from '@/lib/job-queue';
+import { runFfmpeg } from '@/lib/ffmpeg';
+import { runVideoTaskJob } from '@/lib/video-jobs';
+
+// FFMPEG scene score (0-1) above which a frame counts as a hard cut
+export const SCENE_CUT_THRESHOLD = 0.3;
+
+interface DetectSceneCutsOptions {
+  signal?: AbortSignal;
+  threshold?: number;
+}
+
+/**
+ * Find hard cuts in a video. Returns the timestamps (seconds) of the first frame after each cut.
+ */
+export async function detectSceneCuts(
+  filePath: string,
+  { signal, threshold = SCENE_CUT_THRESHOLD }: DetectSceneCutsOptions = {}
+): Promise<number[]> {
+  const cuts: number[] = [];
+
+  // showinfo logs one line per frame that passes the select filter
+  await runFfmpeg([
+    '-hide_banner',
+    '-i', filePath,
+    '-an',
+    '-vf', `select='gt(scene,${threshold})',showinfo`,
+    '-f', 'null',
+    '-',
+  ], {
+    signal,
+    onStderrLine: (line) => {
+      if (!line.includes('Parsed_showinfo')) return;
+      const match = line.match(/pts_time:\s*(-?[\d.]+)/);
+      const time = match ? parseFloat(match[1]!) : NaN;
+      if (Number.isFinite(time) && time > 0) {
+        cuts.push(Math.round(time * 1000) / 1000);
+      }
+    },
+  });
+
+  return cuts.sort((a, b) => a - b);
+}
+
+/**
+ * Job handler for 'detect-scenes' jobs. Stores the scene cuts of each video in the payload.
+ */
+export async function runDetectScenesJob(job: Job, context: JobContext) {
+  await runVideoTaskJob(job, context, {
+    label: 'Scene detection',
+    run: async (video, signal) => ({ sceneCuts: await detectSceneCuts(video.filepath, { signal }) }),
+  });
+}
@@ -0,0 +1,122 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getContentType, parseRangeHeader, resolveStaticPath, serveStaticFile } from '@/lib/static-files';
+
+const tempDir = mkdtempSync(join(tmpdir(), 'static-files-test-'));
+afterAll(() => rmSync(tempDir, { recursive: true, force: true }));
+
+describe('parseRangeHeader', () => {
+  test('reads a single byte range, clamping the end to the file', () => {
+    expect(parseRangeHeader('bytes=0-99', 1000)).toEqual({ start: 0, end: 99 });
+    expect(parseRangeHeader('bytes=900-', 1000)).toEqual({ start: 900, end: 999 });
+    expect(parseRangeHeader('bytes=900-5000', 1000)).toEqual({ start: 900, end: 999 });
+    expect(parseRangeHeader('bytes=5-5', 1000)).toEqual({ start: 5, end: 5 });
+  });
+
+  test('reads suffix ranges as the last N bytes', () => {
+    expect(parseRangeHeader('bytes=-100', 1000)).toEqual({ start: 900, end: 999 });
+    expect(parseRangeHeader('bytes=-5000', 1000)).toEqual({ start: 0, end: 999 });
+    expect(parseRangeHeader('bytes=-0', 1000)).toBe('unsatisfiable');
+  });
+
+  test('ignores headers it does not serve as a single range', () => {
+    for (const header of [null, '', 'bytes=-', 'items=0-9', 'bytes=0-9,20-29', 'bytes=a-b', 'bytes=5-3']) {
+      expect(parseRangeHeader(header, 1000)).toBeNull();
+    }
+  });
+
+  test('refuses ranges starting past the end', () => {
+    expect(parseRangeHeader('bytes=1000-', 1000)).toBe('unsatisfiable');
+    expect(parseRangeHeader('bytes=2000-3000', 1000)).toBe('unsatisfiable');
+    expect(parseRangeHeader('bytes=0-', 0)).toBe('unsatisfiable');
+  });
+});
+
+describe('resolveStaticPath', () => {
+  test('resolves encoded paths below the root', () => {
+    expect(resolveStaticPath(tempDir, 'a%20b/clip.mp4')).toBe(join(tempDir, 'a b', 'clip.mp4'));
+  });
+
+  test('refuses paths that escape the root or are malformed', () => {
+    for (const path of ['..%2Fpackage.json', '../x', '%E0%A4%A', 'a%00.mp4', '']) {
+      expect(resolveStaticPath(tempDir, path)).toBeNull();
+    }
+  });
+});
+
+describe('getContentType', () => {
+  test('goes by extension, case-insensitively', () => {
+    expect(getContentType('clip.MP4')).toBe('video/mp4');
+    expect(getContentType('caption.txt')).toBe('text/plain; charset=utf-8');
+    expect(getContentType('archive.bin')).toBe('application/octet-stream');
+  });
+});
+
+describe('serveStaticFile', () => {
+  const filePath = join(tempDir, 'clip.mp4');
+  writeFileSync(filePath, 'abcdefghijklmnopqrstuvwxyz');
+
+  const get = (headers: Record<string, string> = {}, method = 'GET') =>
+    serveStaticFile(new Request('http://localhost/clip.mp4', { method, headers }), filePath);
+
+  test('returns null for a missing file', async () => {
+    expect(await serveStaticFile(new Request('http://localhost/'), join(tempDir, 'missing.mp4'))).toBeNull();
+  });
+
+  test('serves the whole file with validators', async () => {
+    const response = (await get())!;
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('video/mp4');
+    expect(response.headers.get('Content-Length')).toBe('26');
+    expect(response.headers.get('ETag')).toStartWith('W/"');
+    expect(await response.text()).toBe('abcdefghijklmnopqrstuvwxyz');
+  });
+
+  test('serves ranges as 206 and unsatisfiable ones as 416', async () => {
+    const partial = (await get({ Range: 'bytes=2-4' }))!;
+    expect(partial.status).toBe(206);
+    expect(partial.headers.get('Content-Range')).toBe('bytes 2-4/26');
+    expect(await partial.text()).toBe('cde');
+
+    const suffix = (await get({ Range: 'bytes=-3' }))!;
+    expect(await suffix.text()).toBe('xyz');
+
+    const unsatisfiable = (await get({ Range: 'bytes=26-' }))!;
+    expect(unsatisfiable.status).toBe(416);
+    expect(unsatisfiable.headers.get('Content-Range')).toBe('bytes */26');
+  });
+
+  test('sends the whole file for multi-part and inverted ranges', async () => {
+    expect((await get({ Range: 'bytes=0-1,4-5' }))!.status).toBe(200);
+    expect((await get({ Range: 'bytes=5-3' }))!.status).toBe(200);
+  });
+
+  test('honours If-Range only with the Last-Modified date', async () => {
+    const { headers } = (await get())!;
+    const etag = headers.get('ETag')!;
+    const lastModified = headers.get('Last-Modified')!;
+
+    expect((await get({ Range: 'bytes=0-1', 'If-Range': lastModified }))!.status).toBe(206);
+    // Weak validators can't satisfy If-Range
+    expect((await get({ Range: 'bytes=0-1', 'If-Range': etag }))!.status).toBe(200);
+    expect((await get({ Range: 'bytes=0-1', 'If-Range': 'Thu, 01 Jan 1970 00:00:00 GMT' }))!.status).toBe(200);
+  });
+
+  test('answers conditional requests with 304', async () => {
+    const { headers } = (await get())!;
+    expect((await get({ 'If-None-Match': headers.get('ETag')! }))!.status).toBe(304);
+    expect((await get({ 'If-None-Match': '"other", *' }))!.status).toBe(304);
+    expect((await get({ 'If-Modified-Since': headers.get('Last-Modified')! }))!.status).toBe(304);
+    // If-None-Match wins when both are sent
+    expect((await get({ 'If-None-Match': '"other"', 'If-Modified-Since': headers.get('Last-Modified')! }))!.status).toBe(200);
+  });
+
+  test('sends headers without a body for HEAD', async () => {
+    const response = (await get({ Range: 'bytes=0-9' }, 'HEAD'))!;
+    expect(response.status).toBe(206);
+    expect(response.headers.get('Content-Length')).toBe('10');
+    expect(await response.text()).toBe('');
+  });
+});
@@ -0,0 +1,142 @@
+import { extname, resolve, sep } from 'path';
+
+// Content types for the files the server hands out (uploads, previews, outputs)
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.mkv': 'video/x-matroska',
+  '.webm': 'video/webm',
+  '.avi': 'video/x-msvideo',
+  '.mpg': 'video/mpeg',
+  '.mpeg': 'video/mpeg',
+  '.ts': 'video/mp2t',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.txt': 'text/plain; charset=utf-8',
+  '.toml': 'text/plain; charset=utf-8',
+  '.csv': 'text/csv; charset=utf-8',
+  '.json': 'application/json',
+  '.jsonl': 'application/x-ndjson',
+};
+
+/**
+ * Content type for a file name, by extension
+ */
+export function getContentType(filePath: string): string {
+  return CONTENT_TYPES[extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+}
+
+/**
+ * Resolve a URL-encoded path below `root`. Returns null if it is malformed or escapes the root.
+ */
+export function resolveStaticPath(root: string, encodedPath: string): string | null {
+  let relativePath: string;
+  try {
+    relativePath = decodeURIComponent(encodedPath);
+  } catch {
+    return null;
+  }
+  if (relativePath.includes('\0')) return null;
+
+  const rootDir = resolve(root);
+  const filePath = resolve(rootDir, relativePath);
+  return filePath.startsWith(rootDir + sep) ? filePath : null;
+}
+
+/**
+ * Parse a single `bytes=` range against the file size. Returns null when the header should be
+ * ignored (missing, multiple ranges, other units, last byte before the first) and 'unsatisfiable'
+ * when it can't be served.
+ */
+export function parseRangeHeader(header: string | null, size: number): { start: number; end: number } | 'unsatisfiable' | null {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match) return null;
+
+  const [, startText = '', endText = ''] = match;
+  if (!startText && !endText) return null;
+
+  let start: number;
+  let end: number;
+  if (!startText) {
+    // Suffix range: the last N bytes
+    const suffixLength = parseInt(endText);
+    if (suffixLength === 0) return 'unsatisfiable';
+    start = Math.max(0, size - suffixLength);
+    end = size - 1;
+  } else {
+    start = parseInt(startText);
+    // An inverted range like bytes=5-3 is invalid syntax, so the whole file is sent
+    if (endText && parseInt(endText) < start) return null;
+    end = endText ? Math.min(parseInt(endText), size - 1) : size - 1;
+  }
+
+  if (start >= size) return 'unsatisfiable';
+  return { start, end };
+}
+
+interface ServeStaticFileOptions {
+  // Sent with every response, e.g. Cache-Control
+  headers?: Record<string, string>;
+}
+
+/**
+ * Respond with a file, honouring Range (206/416), If-None-Match / If-Modified-Since (304)
+ * and HEAD requests. Returns null if the file does not exist.
+ */
+export async function serveStaticFile(req: Request, filePath: string, { headers = {} }: ServeStaticFileOptions = {}): Promise<Response | null> {
+  const file = Bun.file(filePath);
+  if (!(await file.exists())) return null;
+
+  const size = file.size;
+  const lastModified = new Date(file.lastModified);
+  const etag = `W/"${size.toString(16)}-${Math.floor(file.lastModified).toString(16)}"`;
+  const baseHeaders: Record<string, string> = {
+    'Content-Type': getContentType(filePath),
+    'Accept-Ranges': 'bytes',
+    'ETag': etag,
+    'Last-Modified': lastModified.toUTCString(),
+    ...headers,
+  };
+
+  // Conditional GET: If-None-Match wins over If-Modified-Since when both are sent
+  const ifNoneMatch = req.headers.get('If-None-Match');
+  const ifModifiedSince = req.headers.get('If-Modified-Since');
+  const notModified = ifNoneMatch
+    ? ifNoneMatch.split(',').some(tag => tag.trim() === etag || tag.trim() === '*')
+    : ifModifiedSince !== null && Math.floor(file.lastModified / 1000) <= Math.floor(Date.parse(ifModifiedSince) / 1000);
+  if (notModified) {
+    return new Response(null, { status: 304, headers: baseHeaders });
+  }
+
+  // A stale If-Range means the client's partial copy is outdated, so send the whole file.
+  // If-Range needs a strong validator: our ETag is weak, so only the Last-Modified date can match.
+  const ifRange = req.headers.get('If-Range');
+  const rangeAllowed = !ifRange || ifRange === lastModified.toUTCString();
+  const range = rangeAllowed ? parseRangeHeader(req.headers.get('Range'), size) : null;
+  const isHead = req.method === 'HEAD';
+
+  if (range === 'unsatisfiable') {
+    return new Response(null, {
+      status: 416,
+      headers: { ...baseHeaders, 'Content-Range': `bytes */${size}` },
+    });
+  }
+
+  if (range) {
+    return new Response(isHead ? null : file.slice(range.start, range.end + 1), {
+      status: 206,
+      headers: {
+        ...baseHeaders,
+        'Content-Range': `bytes ${range.start}-${range.end}/${size}`,
+        'Content-Length': String(range.end - range.start + 1),
+      },
+    });
+  }
+
+  return new Response(isHead ? null : file, {
+    headers: { ...baseHeaders, 'Content-Length': String(size) },
+  });
+}
@@ -0,0 +1,32 @@
+import { db } from '@/db';
+import { uploads } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { rm, stat } from 'fs/promises';
+
+// Unfinished chunked uploads are discarded after this long without a new chunk
+export const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+// How often the server looks for them
+export const UPLOAD_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Delete chunked uploads that haven't received a chunk within UPLOAD_TTL_MS, along with their
+ * partial files. Every chunk writes to the partial file, so its modification time is the last
+ * activity; uploads whose partial file is gone can't be resumed and are removed too.
+ * Returns the number of uploads removed.
+ */
+export async function expireStaleUploads(now = Date.now()): Promise<number> {
+  const pendingUploads = await db.query.uploads.findMany();
+  let expiredCount = 0;
+
+  for (const upload of pendingUploads) {
+    const lastActivity = await stat(upload.tempPath).then(stats => stats.mtimeMs, () => null);
+    if (lastActivity !== null && now - lastActivity < UPLOAD_TTL_MS) continue;
+
+    await rm(upload.tempPath, { force: true });
+    await db.delete(uploads).where(eq(uploads.id, upload.id));
+    console.log(`Expired unfinished upload ${upload.id} (${upload.filename})`);
+    expiredCount++;
+  }
+
+  return expiredCount;
+}
@@ -0,0 +1,102 @@
+import { describe, expect, mock, test } from 'bun:test';
+
+// The job runner opens the app database on import; these tests only need the pure helpers
+mock.module('@/lib/video-jobs', () => ({ runVideoTaskJob: async () => {} }));
+const {
+  NEAR_DUPLICATE_DISTANCE,
+  compareVideos,
+  fingerprintDistance,
+  hammingDistance,
+  perceptualHash,
+} = await import('@/lib/video-fingerprint');
+
+const SIZE = 32;
+
+function makeFrame(pixel: (x: number, y: number) => number): Uint8Array {
+  const frame = new Uint8Array(SIZE * SIZE);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      frame[y * SIZE + x] = Math.max(0, Math.min(255, Math.round(pixel(x, y))));
+    }
+  }
+  return frame;
+}
+
+// A blob left of center on a gradient, something with structure at several frequencies
+const scene = (x: number, y: number) => 40 + x * 3 + (Math.hypot(x - 10, y - 14) < 7 ? 90 : 0);
+
+describe('perceptualHash', () => {
+  test('is 64 bits as 16 hex digits', () => {
+    expect(perceptualHash(makeFrame(scene))).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  test('ignores brightness and contrast changes', () => {
+    const hash = perceptualHash(makeFrame(scene));
+    expect(perceptualHash(makeFrame((x, y) => scene(x, y) + 25))).toBe(hash);
+    expect(hammingDistance(perceptualHash(makeFrame((x, y) => scene(x, y) * 0.7 + 10)), hash)).toBeLessThanOrEqual(2);
+  });
+
+  test('barely changes with noise but differs for another picture', () => {
+    const hash = perceptualHash(makeFrame(scene));
+    const noisy = perceptualHash(makeFrame((x, y) => scene(x, y) + ((x * 7 + y * 13) % 5) - 2));
+    expect(hammingDistance(noisy, hash)).toBeLessThanOrEqual(NEAR_DUPLICATE_DISTANCE / 2);
+
+    const mirrored = perceptualHash(makeFrame((x, y) => scene(SIZE - 1 - x, y)));
+    expect(hammingDistance(mirrored, hash)).toBeGreaterThan(NEAR_DUPLICATE_DISTANCE);
+  });
+});
+
+describe('hammingDistance', () => {
+  test('counts differing bits across hex digits', () => {
+    expect(hammingDistance('0000', '0000')).toBe(0);
+    expect(hammingDistance('0000', 'ffff')).toBe(16);
+    expect(hammingDistance('a5', '5a')).toBe(8);
+    expect(hammingDistance('8001', '0000')).toBe(2);
+  });
+});
+
+describe('fingerprintDistance', () => {
+  test('averages the per-frame distances', () => {
+    expect(fingerprintDistance(['00', 'ff'], ['01', 'fe'])).toBe(1);
+    expect(fingerprintDistance(['00', '00'], ['0f', '00'])).toBe(2);
+  });
+
+  test('is null when the fingerprints can not be lined up', () => {
+    expect(fingerprintDistance(null, ['00'])).toBeNull();
+    expect(fingerprintDistance([], [])).toBeNull();
+    expect(fingerprintDistance(['00'], ['00', '00'])).toBeNull();
+  });
+});
+
+describe('compareVideos', () => {
+  const fingerprint = ['0000000000000000', 'ffffffffffffffff'];
+  const video = { id: 1, duration: 60, contentHash: 'abc', fingerprint };
+  // Flips `bits` bits in every frame hash
+  const shifted = (bits: number) => fingerprint.map(hash =>
+    (BigInt(`0x${hash}`) ^ ((1n << BigInt(bits)) - 1n)).toString(16).padStart(16, '0')
+  );
+
+  test('matches identical bytes whatever the frames say', () => {
+    expect(compareVideos(video, { id: 2, duration: 10, contentHash: 'abc', fingerprint: null }))
+      .toEqual({ kind: 'exact', distance: 0 });
+  });
+
+  test('matches frames up to the near-duplicate distance', () => {
+    const other = { id: 2, duration: 60.5, contentHash: 'def' };
+    expect(compareVideos(video, { ...other, fingerprint: shifted(NEAR_DUPLICATE_DISTANCE) }))
+      .toEqual({ kind: 'near', distance: NEAR_DUPLICATE_DISTANCE });
+    expect(compareVideos(video, { ...other, fingerprint: shifted(NEAR_DUPLICATE_DISTANCE + 1) })).toBeNull();
+  });
+
+  test('only compares frames of videos of similar length', () => {
+    // Within 1s or 2% of the longer video
+    expect(compareVideos(video, { id: 2, duration: 61, contentHash: null, fingerprint })).not.toBeNull();
+    expect(compareVideos(video, { id: 2, duration: 62, contentHash: null, fingerprint })).toBeNull();
+    expect(compareVideos({ ...video, duration: 200 }, { id: 2, duration: 204, contentHash: null, fingerprint })).not.toBeNull();
+  });
+
+  test('does not treat two missing content hashes as identical', () => {
+    expect(compareVideos({ ...video, contentHash: null, fingerprint: null }, { id: 2, duration: 60, contentHash: null, fingerprint: null }))
+      .toBeNull();
+  });
+});
@@ -0,0 +1,170 @@
+import type { Job, Video } from '@/db/schema';
+import type { JobContext } from '@/lib/job-queue';
+import { runFfmpeg } from '@/lib/ffmpeg';
+import { runVideoTaskJob } from '@/lib/video-jobs';
+
+// Frames sampled evenly over the video for the perceptual fingerprint
+export const FINGERPRINT_FRAMES = 8;
+// Mean pHash distance (out of 64 bits) below which two videos count as near duplicates
+export const NEAR_DUPLICATE_DISTANCE = 10;
+
+// pHash works on a 32x32 grayscale image and keeps the 8x8 lowest DCT frequencies
+const HASH_IMAGE_SIZE = 32;
+const HASH_BLOCK_SIZE = 8;
+
+// DCT-II basis, COSINES[u][x] = cos((2x + 1) * u * pi / 64), only for the frequencies kept
+const COSINES = Array.from({ length: HASH_BLOCK_SIZE }, (_, u) =>
+  Array.from({ length: HASH_IMAGE_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * HASH_IMAGE_SIZE)))
+);
+
+/**
+ * SHA-256 of a file's bytes as hex, read as a stream so multi-GB files don't fill memory
+ */
+export async function hashFile(filePath: string, signal?: AbortSignal): Promise<string> {
+  const hasher = new Bun.CryptoHasher('sha256');
+  const reader = Bun.file(filePath).stream().getReader();
+  while (true) {
+    if (signal?.aborted) {
+      await reader.cancel();
+      signal.throwIfAborted();
+    }
+    const { done, value } = await reader.read();
+    if (done) break;
+    hasher.update(value);
+  }
+  return hasher.digest('hex');
+}
+
+/**
+ * Perceptual hash of a 32x32 grayscale frame: the signs of its 8x8 lowest DCT frequencies
+ * against their median, as 16 hex digits. Re-encoding or rescaling barely changes it.
+ */
+export function perceptualHash(pixels: Uint8Array): string {
+  // Separable DCT: rows first, then columns, computing only the kept frequencies
+  const rows = Array.from({ length: HASH_IMAGE_SIZE }, (_, y) =>
+    COSINES.map(cosines => cosines.reduce((sum, c, x) => sum + c * pixels[y * HASH_IMAGE_SIZE + x]!, 0))
+  );
+  const coefficients: number[] = [];
+  for (let v = 0; v < HASH_BLOCK_SIZE; v++) {
+    for (let u = 0; u < HASH_BLOCK_SIZE; u++) {
+      coefficients.push(COSINES[v]!.reduce((sum, c, y) => sum + c * rows[y]![u]!, 0));
+    }
+  }
+
+  // The DC term is overall brightness, so it doesn't take part in the median
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)]!;
+
+  let hash = '';
+  for (let i = 0; i < coefficients.length; i += 4) {
+    let nibble = 0;
+    for (let bit = 0; bit < 4; bit++) {
+      nibble = (nibble << 1) | (coefficients[i + bit]! > median ? 1 : 0);
+    }
+    hash += nibble.toString(16);
+  }
+  return hash;
+}
+
+/**
+ * Number of differing bits between two hex hashes of equal length
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let xor = parseInt(a[i]!, 16) ^ parseInt(b[i]!, 16);
+    while (xor) {
+      distance += xor & 1;
+      xor >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Mean per-frame pHash distance of two fingerprints, or null if they can't be compared
+ */
+export function fingerprintDistance(a: string[] | null, b: string[] | null): number | null {
+  if (!a || !b || a.length === 0 || a.length !== b.length) return null;
+  return a.reduce((sum, hash, i) => sum + hammingDistance(hash, b[i]!), 0) / a.length;
+}
+
+/**
+ * pHashes of FINGERPRINT_FRAMES frames spread evenly over the video
+ */
+export async function computeVideoFingerprint(
+  video: Pick<Video, 'filepath' | 'duration'>,
+  signal?: AbortSignal
+): Promise<string[]> {
+  const frameSize = HASH_IMAGE_SIZE * HASH_IMAGE_SIZE;
+  const chunks: Uint8Array[] = [];
+
+  // Same sampling as the filmstrip: frame i comes from [i, i + 1) * duration / FINGERPRINT_FRAMES
+  const frameRate = FINGERPRINT_FRAMES / Math.max(video.duration, 0.001);
+  await runFfmpeg([
+    '-i', video.filepath,
+    '-an',
+    '-vf', `fps=${frameRate},scale=${HASH_IMAGE_SIZE}:${HASH_IMAGE_SIZE}:flags=area,format=gray`,
+    '-frames:v', FINGERPRINT_FRAMES.toString(),
+    '-f', 'rawvideo',
+    '-',
+  ], { signal, onStdoutData: data => chunks.push(data) });
+
+  const pixels = Buffer.concat(chunks);
+  const hashes: string[] = [];
+  for (let offset = 0; offset + frameSize <= pixels.length; offset += frameSize) {
+    hashes.push(perceptualHash(pixels.subarray(offset, offset + frameSize)));
+  }
+
+  if (hashes.length === 0) {
+    throw new Error('No frames could be decoded for the fingerprint');
+  }
+  return hashes;
+}
+
+type FingerprintedVideo = Pick<Video, 'id' | 'duration' | 'contentHash' | 'fingerprint'>;
+
+/**
+ * How a video duplicates another: identical bytes, or frames that look the same
+ * (re-encode, rescale) at a similar duration. Null when they differ.
+ */
+export function compareVideos(
+  a: FingerprintedVideo,
+  b: FingerprintedVideo
+): { kind: 'exact' | 'near'; distance: number } | null {
+  if (a.contentHash && a.contentHash === b.contentHash) {
+    return { kind: 'exact', distance: 0 };
+  }
+
+  // Frames are sampled relative to the duration, so only similar lengths line up
+  if (Math.abs(a.duration - b.duration) > Math.max(1, 0.02 * Math.max(a.duration, b.duration))) {
+    return null;
+  }
+
+  const distance = fingerprintDistance(a.fingerprint, b.fingerprint);
+  return distance !== null && distance <= NEAR_DUPLICATE_DISTANCE ? { kind: 'near', distance } : null;
+}
+
+/**
+ * Job handler for 'fingerprint-video' jobs. Stores the content hash and perceptual fingerprint
+ * of each video in the payload.
+ */
+export async function runFingerprintJob(job: Job, context: JobContext) {
+  await runVideoTaskJob(job, context, {
+    label: 'Duplicate fingerprinting',
+    run: async (video, signal) => {
+      const contentHash = await hashFile(video.filepath, signal);
+
+      // Exact copies are still caught by the hash when the frames can't be decoded
+      let fingerprint: string[] | null = null;
+      try {
+        fingerprint = await computeVideoFingerprint(video, signal);
+      } catch (error) {
+        if (signal.aborted) throw error;
+        console.error(`Perceptual fingerprint failed for video ${video.id}:`, error);
+      }
+
+      return { contentHash, fingerprint };
+    },
+  });
+}
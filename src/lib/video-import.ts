@@ -0,0 +1,164 @@
+import { db } from '@/db';
+import { videos, clips, type Clip, type Dataset, type Video } from '@/db/schema';
+import { extractVideoMetadata, InvalidVideoError, needsPreviewProxy } from '@/lib/video-metadata';
+import { detectActiveArea } from '@/lib/active-area';
+import { computeMaxCrop } from '@/lib/video-utils';
+import { getDatasetResolutions, pickResolutionForAspect } from '@/lib/resolutions';
+import { enqueueJob } from '@/lib/job-queue';
+
+// Longest black bar detection may take while a new video is being added
+const ACTIVE_AREA_TIMEOUT_MS = 15_000;
+
+/**
+ * Unique path under uploads/<datasetId>/ for a new source file, keeping the original extension
+ */
+export function getUploadPath(datasetId: number, filename: string): string {
+  const timestamp = Date.now();
+  const randomString = Math.random().toString(36).substring(2, 8);
+  const extension = filename.split('.').pop() || 'mp4';
+  return `uploads/${datasetId}/${timestamp}_${randomString}.${extension}`;
+}
+
+/**
+ * Add a video file that is already on disk to a dataset: probe it with ffprobe, find any black bars,
+ * frame the picture with the dataset preset closest to its aspect ratio and give it its first clip.
+ * Throws InvalidVideoError for files ffprobe can't use; if ffprobe itself fails the video is added
+ * with default metadata.
+ */
+export async function createVideoFromFile(
+  dataset: Dataset,
+  filename: string,
+  filepath: string,
+  { isExternal = false }: { isExternal?: boolean } = {}
+): Promise<Video & { clips: Clip[] }> {
+  // Extract real video metadata using ffprobe
+  let duration = 16.0; // Default fallback
+  let originalWidth = 1920; // Default fallback
+  let originalHeight = 1080; // Default fallback
+  let fps: number | undefined;
+  let frameCount: number | undefined;
+  let codec: string | undefined;
+  let needsProxy = false;
+  let activeArea: Video['activeArea'] = null;
+
+  try {
+    const metadata = await extractVideoMetadata(filepath);
+    duration = metadata.duration;
+    originalWidth = metadata.width;
+    originalHeight = metadata.height;
+    fps = metadata.fps;
+    frameCount = metadata.frameCount;
+    codec = metadata.codec;
+    needsProxy = needsPreviewProxy(filepath, metadata);
+
+    console.log(`Extracted metadata for ${filename}:`, {
+      duration,
+      originalWidth,
+      originalHeight,
+      fps,
+      frameCount,
+      codec,
+      needsProxy,
+      aspectRatio: originalWidth / originalHeight
+    });
+  } catch (error) {
+    if (error instanceof InvalidVideoError) throw error;
+    console.error(`Failed to extract metadata for ${filename}:`, error);
+    // Continue with default values as fallback
+  }
+
+  // Frame the picture rather than any black bars baked into it. Bounded, since uploads wait for
+  // it; a file too slow to decode in time is framed as if it had no bars.
+  try {
+    activeArea = await detectActiveArea(
+      filepath,
+      { duration, width: originalWidth, height: originalHeight },
+      AbortSignal.timeout(ACTIVE_AREA_TIMEOUT_MS)
+    );
+    console.log(`Active picture area for ${filename}:`, activeArea);
+  } catch (error) {
+    console.error(`Failed to detect black bars in ${filename}:`, error);
+  }
+
+  // Start with the dataset preset closest to the aspect ratio of the picture
+  const area = activeArea ?? { width: originalWidth, height: originalHeight };
+  const aspectRatio = area.width / area.height;
+  const resolution = pickResolutionForAspect(getDatasetResolutions(dataset), aspectRatio);
+
+  console.log(`Resolution assignment for ${filename}:`, {
+    aspectRatio,
+    resolution,
+    originalDimensions: `${originalWidth}x${originalHeight}`
+  });
+
+  // Largest crop for the chosen resolution, centered in the picture
+  const { x: cropX, y: cropY, width: cropWidth, height: cropHeight } = computeMaxCrop(
+    resolution,
+    { originalWidth, originalHeight, activeArea }
+  );
+
+  console.log(`Computed crop for ${filename}:`, {
+    cropWidth,
+    cropHeight,
+    cropX,
+    cropY
+  });
+
+  const [newVideo] = await db
+    .insert(videos)
+    .values({
+      datasetId: dataset.id,
+      filename,
+      filepath,
+      duration,
+      originalWidth,
+      originalHeight,
+      resolution,
+      cropX,
+      cropY,
+      cropWidth,
+      cropHeight,
+      fps,
+      frameCount,
+      codec,
+      // Browsers can't play it as is, so the editor waits for an H.264 proxy
+      proxyStatus: needsProxy ? 'pending' : 'none',
+      isExternal,
+      activeArea,
+      status: 'pending',
+    })
+    .returning();
+
+  // Every video starts with a single clip using the computed framing
+  const [firstClip] = await db
+    .insert(clips)
+    .values({
+      videoId: newVideo!.id,
+      resolution,
+      cropX,
+      cropY,
+      cropWidth,
+      cropHeight,
+    })
+    .returning();
+
+  return { ...newVideo!, clips: [firstClip!] };
+}
+
+/**
+ * Queue the background work for newly added videos: proxies first so the editor can play them
+ * soonest, then previews, duplicate fingerprints, scene cuts and motion energy
+ */
+export async function enqueueNewVideoJobs(datasetId: number, newVideos: Pick<Video, 'id' | 'proxyStatus'>[]) {
+  if (newVideos.length === 0) return;
+
+  const videoIds = newVideos.map(video => video.id);
+  const proxyVideoIds = newVideos.filter(video => video.proxyStatus === 'pending').map(video => video.id);
+  if (proxyVideoIds.length > 0) {
+    await enqueueJob('generate-proxy', datasetId, { videoIds: proxyVideoIds }, { totalCount: proxyVideoIds.length });
+  }
+  await enqueueJob('generate-previews', datasetId, { videoIds }, { totalCount: videoIds.length });
+  await enqueueJob('fingerprint-video', datasetId, { videoIds }, { totalCount: videoIds.length });
+  await enqueueJob('detect-scenes', datasetId, { videoIds }, { totalCount: videoIds.length });
+  await enqueueJob('analyze-motion', datasetId, { videoIds }, { totalCount: videoIds.length });
+}
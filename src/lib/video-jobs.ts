@@ -0,0 +1,75 @@
+import { db } from '@/db';
+import { videos, type Job, type NewVideo, type Video } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import type { JobContext } from '@/lib/job-queue';
+import { publishDatasetEvent } from '@/lib/dataset-events';
+
+interface VideoTask {
+  // Used in log messages, e.g. "Scene detection"
+  label: string;
+  // Returns the video columns to store (none for tasks that store their results elsewhere)
+  run: (video: Video, signal: AbortSignal) => Promise<Partial<NewVideo>>;
+  // Stored when the task fails, e.g. to mark the video's result as errored
+  failedUpdates?: Partial<NewVideo>;
+}
+
+/**
+ * Run a task for each video in a job's `videoIds` payload, storing what it returns on the video.
+ * Videos deleted in the meantime are skipped; failures are logged and counted without stopping the job.
+ */
+export async function runVideoTaskJob(job: Job, { signal, updateProgress }: JobContext, task: VideoTask) {
+  const videoIds = (job.payload.videoIds as number[] | undefined) ?? [];
+  let processedCount = 0;
+  let failedCount = 0;
+
+  await updateProgress({ totalCount: videoIds.length, processedCount, failedCount });
+
+  for (const videoId of videoIds) {
+    if (signal.aborted) break;
+
+    const video = await db.query.videos.findFirst({
+      where: eq(videos.id, videoId),
+    });
+
+    if (video) {
+      try {
+        const updates = await task.run(video, signal);
+        if (Object.keys(updates).length > 0) {
+          const [updatedVideo] = await db
+            .update(videos)
+            .set(updates)
+            .where(eq(videos.id, video.id))
+            .returning();
+
+          if (updatedVideo) {
+            publishDatasetEvent(updatedVideo.datasetId, { type: 'video', video: updatedVideo });
+          }
+        }
+        processedCount++;
+      } catch (error) {
+        if (signal.aborted) break;
+        console.error(`${task.label} failed for video ${video.id}:`, error);
+        if (task.failedUpdates) {
+          const [failedVideo] = await db
+            .update(videos)
+            .set(task.failedUpdates)
+            .where(eq(videos.id, video.id))
+            .returning();
+          if (failedVideo) {
+            publishDatasetEvent(failedVideo.datasetId, { type: 'video', video: failedVideo });
+          }
+        }
+        publishDatasetEvent(video.datasetId, {
+          type: 'log',
+          videoId: video.id,
+          line: `${task.label} failed for ${video.filename}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+        failedCount++;
+      }
+    } else {
+      processedCount++;
+    }
+
+    await updateProgress({ processedCount, failedCount });
+  }
+}
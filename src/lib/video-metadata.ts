@@ -1,15 +1,47 @@
+import { extname } from 'path';
+
 export interface VideoMetadata {
   duration: number;
   width: number;
   height: number;
   fps?: number;
   frameCount?: number;
+  // ffprobe codec_name / pix_fmt of the video stream, e.g. "h264", "yuv420p"
+  codec?: string;
+  pixelFormat?: string;
+}
+
+// What every mainstream browser can decode in a <video> element
+const BROWSER_CONTAINERS = ['.mp4', '.m4v', '.mov', '.webm'];
+const BROWSER_CODECS = ['h264', 'vp8', 'vp9', 'av1'];
+const BROWSER_PIXEL_FORMATS = ['yuv420p', 'yuvj420p'];
+
+/**
+ * Whether a video needs an H.264 proxy to be previewed in the browser. Videos whose codec
+ * could not be probed are assumed to play.
+ */
+export function needsPreviewProxy(filePath: string, metadata: Pick<VideoMetadata, 'codec' | 'pixelFormat'>): boolean {
+  if (!metadata.codec) return false;
+  return !BROWSER_CONTAINERS.includes(extname(filePath).toLowerCase())
+    || !BROWSER_CODECS.includes(metadata.codec)
+    || (metadata.pixelFormat !== undefined && !BROWSER_PIXEL_FORMATS.includes(metadata.pixelFormat));
+}
+
+/**
+ * Thrown when ffprobe ran but the file is not a usable video (unreadable, no video stream, no
+ * dimensions). Other failures, such as ffprobe not being installed, are not the file's fault.
+ */
+export class InvalidVideoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidVideoError';
+  }
 }
 
 export async function extractVideoMetadata(filePath: string): Promise<VideoMetadata> {
   const proc = Bun.spawn([
     'ffprobe',
-    '-v', 'quiet',
+    '-v', 'error',
     '-print_format', 'json',
     '-show_format',
     '-show_streams',
@@ -23,57 +55,60 @@ export async function extractVideoMetadata(filePath: string): Promise<VideoMetad
 
   if (exitCode !== 0) {
     const stderr = await new Response(proc.stderr).text();
-    throw new Error(`FFprobe failed with code ${exitCode}: ${stderr}`);
+    // ffprobe prefixes its messages with the file path, which means nothing to the uploader
+    const reason = stderr.trim().split('\n').pop()?.replace(`${filePath}: `, '');
+    throw new InvalidVideoError(reason ? `Not a readable video: ${reason}` : `FFprobe failed with code ${exitCode}`);
   }
 
+  let data: any;
   try {
-    const stdout = await new Response(proc.stdout).text();
-    const data = JSON.parse(stdout);
-    
-    // Find the video stream
-    const videoStream = data.streams?.find((stream: any) => stream.codec_type === 'video');
-    
-    if (!videoStream) {
-      throw new Error('No video stream found in file');
-    }
+    data = JSON.parse(await new Response(proc.stdout).text());
+  } catch (error) {
+    throw new Error(`Failed to parse FFprobe output: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
 
-    const duration = parseFloat(data.format?.duration || videoStream.duration || '0');
-    const width = parseInt(videoStream.width || '0');
-    const height = parseInt(videoStream.height || '0');
-    
-    // Calculate FPS and frame count if available
-    let fps: number | undefined;
-    let frameCount: number | undefined;
-    
-    if (videoStream.r_frame_rate) {
-      const [num, den] = videoStream.r_frame_rate.split('/').map(Number);
-      if (den && den !== 0) {
-        fps = num / den;
-      }
-    }
-    
-    if (fps && duration) {
-      frameCount = Math.round(fps * duration);
-    } else if (videoStream.nb_frames) {
-      frameCount = parseInt(videoStream.nb_frames);
-      if (frameCount && duration) {
-        fps = frameCount / duration;
-      }
-    }
+  // Find the video stream
+  const videoStream = data.streams?.find((stream: any) => stream.codec_type === 'video');
+
+  if (!videoStream) {
+    throw new InvalidVideoError('No video stream found in file');
+  }
 
-    if (!duration || !width || !height) {
-      throw new Error('Could not extract required video metadata (duration, width, height)');
+  const duration = parseFloat(data.format?.duration || videoStream.duration || '0');
+  const width = parseInt(videoStream.width || '0');
+  const height = parseInt(videoStream.height || '0');
+
+  // Calculate FPS and frame count if available
+  let fps: number | undefined;
+  let frameCount: number | undefined;
+
+  if (videoStream.r_frame_rate) {
+    const [num, den] = videoStream.r_frame_rate.split('/').map(Number);
+    if (den && den !== 0) {
+      fps = num / den;
     }
+  }
 
-    return {
-      duration,
-      width,
-      height,
-      fps: fps ? Math.round(fps * 100) / 100 : undefined, // Round to 2 decimal places
-      frameCount
-    };
+  if (fps && duration) {
+    frameCount = Math.round(fps * duration);
+  } else if (videoStream.nb_frames) {
+    frameCount = parseInt(videoStream.nb_frames);
+    if (frameCount && duration) {
+      fps = frameCount / duration;
+    }
+  }
 
-  } catch (error) {
-    throw new Error(`Failed to parse FFprobe output: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  if (!duration || !width || !height) {
+    throw new InvalidVideoError('Could not extract required video metadata (duration, width, height)');
   }
+
+  return {
+    duration,
+    width,
+    height,
+    fps: fps ? Math.round(fps * 100) / 100 : undefined, // Round to 2 decimal places
+    frameCount,
+    codec: videoStream.codec_name || undefined,
+    pixelFormat: videoStream.pix_fmt || undefined,
+  };
 }
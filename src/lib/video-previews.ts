@@ -0,0 +1,116 @@
+import { mkdir, rm } from 'fs/promises';
+import type { Job, Video } from '@/db/schema';
+import type { JobContext } from '@/lib/job-queue';
+import { runFfmpeg } from '@/lib/ffmpeg';
+import { runVideoTaskJob } from '@/lib/video-jobs';
+
+// Frames in a filmstrip, spread evenly over the whole video
+export const FILMSTRIP_FRAMES = 20;
+
+const THUMBNAIL_WIDTH = 320;
+const FILMSTRIP_FRAME_WIDTH = 160;
+// Proxies only need to be sharp enough to frame a crop
+const PROXY_MAX_WIDTH = 1280;
+
+/**
+ * Directory holding a video's thumbnail, filmstrip and proxy, served under /previews/*
+ */
+export function getPreviewDir(video: Pick<Video, 'id' | 'datasetId'>): string {
+  return `previews/${video.datasetId}/${video.id}`;
+}
+
+/**
+ * Write a poster thumbnail and a one-row sprite filmstrip for a video
+ */
+export async function generateVideoPreviews(
+  video: Pick<Video, 'id' | 'datasetId' | 'filepath' | 'duration'>,
+  signal?: AbortSignal
+): Promise<{ thumbnailPath: string; filmstripPath: string }> {
+  const previewDir = getPreviewDir(video);
+  const thumbnailPath = `${previewDir}/thumbnail.jpg`;
+  const filmstripPath = `${previewDir}/filmstrip.jpg`;
+  await mkdir(previewDir, { recursive: true });
+
+  // Skip the first second (often black) unless the video is shorter than that
+  const posterTime = Math.min(1, video.duration / 2);
+  await runFfmpeg([
+    '-y',
+    '-ss', posterTime.toString(),
+    '-i', video.filepath,
+    '-frames:v', '1',
+    '-vf', `scale=${THUMBNAIL_WIDTH}:-2`,
+    thumbnailPath,
+  ], { signal });
+
+  // Tile i covers [i, i + 1) * duration / FILMSTRIP_FRAMES, so the strip lines up with the scrubber
+  const frameRate = FILMSTRIP_FRAMES / Math.max(video.duration, 0.001);
+  await runFfmpeg([
+    '-y',
+    '-i', video.filepath,
+    '-an',
+    '-frames:v', '1',
+    '-vf', `fps=${frameRate},scale=${FILMSTRIP_FRAME_WIDTH}:-2,tile=${FILMSTRIP_FRAMES}x1`,
+    filmstripPath,
+  ], { signal });
+
+  return { thumbnailPath, filmstripPath };
+}
+
+/**
+ * Transcode a browser-playable H.264 copy of a video for the editor. Keeps the aspect ratio,
+ * so crop coordinates in original pixels still line up.
+ */
+export async function generatePreviewProxy(
+  video: Pick<Video, 'id' | 'datasetId' | 'filepath'>,
+  signal?: AbortSignal
+): Promise<string> {
+  const previewDir = getPreviewDir(video);
+  const proxyPath = `${previewDir}/proxy.mp4`;
+  await mkdir(previewDir, { recursive: true });
+
+  await runFfmpeg([
+    '-y',
+    '-i', video.filepath,
+    '-vf', `scale='min(${PROXY_MAX_WIDTH},iw)':-2`,
+    '-c:v', 'libx264',
+    '-preset', 'veryfast',
+    '-crf', '28',
+    '-pix_fmt', 'yuv420p',
+    // Short GOP so scrubbing lands on a keyframe quickly
+    '-g', '30',
+    '-c:a', 'aac',
+    '-b:a', '96k',
+    '-movflags', '+faststart',
+    proxyPath,
+  ], { signal });
+
+  return proxyPath;
+}
+
+/**
+ * Remove a video's preview images and proxy
+ */
+export async function deleteVideoPreviews(video: Pick<Video, 'id' | 'datasetId'>) {
+  await rm(getPreviewDir(video), { recursive: true, force: true });
+}
+
+/**
+ * Job handler for 'generate-previews' jobs. Stores the preview paths of each video in the payload.
+ */
+export async function runGeneratePreviewsJob(job: Job, context: JobContext) {
+  await runVideoTaskJob(job, context, {
+    label: 'Preview generation',
+    run: (video, signal) => generateVideoPreviews(video, signal),
+  });
+}
+
+/**
+ * Job handler for 'generate-proxy' jobs. Transcodes a preview proxy for each video in the payload.
+ */
+export async function runGenerateProxyJob(job: Job, context: JobContext) {
+  await runVideoTaskJob(job, context, {
+    label: 'Preview transcode',
+    run: async (video, signal) => ({ proxyStatus: 'ready', proxyPath: await generatePreviewProxy(video, signal) }),
+    failedUpdates: { proxyStatus: 'error', proxyPath: null },
+  });
+}
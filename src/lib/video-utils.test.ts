@@ -0,0 +1,60 @@
+import { describe, expect, test } from 'bun:test';
+import { getSceneRanges, suggestClipStart } from '@/lib/video-utils';
+
+// Two-second clip windows
+const CONFIG = { fps: 24, frameCount: 48 };
+
+describe('getSceneRanges', () => {
+  test('is the whole video without cuts, if it is long enough', () => {
+    expect(getSceneRanges([], 10, CONFIG)).toEqual([{ start: 0, end: 10 }]);
+    expect(getSceneRanges([], 1.5, CONFIG)).toEqual([]);
+  });
+
+  test('keeps shots at least one clip long, including one exactly that long', () => {
+    expect(getSceneRanges([1, 4, 4.5, 8], 10, CONFIG)).toEqual([
+      { start: 1, end: 4 },
+      { start: 4.5, end: 8 },
+      { start: 8, end: 10 },
+    ]);
+  });
+
+  test('ignores cuts on the first frame or past the end', () => {
+    expect(getSceneRanges([0, 5, 12], 10, CONFIG)).toEqual([
+      { start: 0, end: 5 },
+      { start: 5, end: 10 },
+    ]);
+  });
+
+  test('accepts a shot that is a clip long up to rounding', () => {
+    // 49 frames at 24fps, as detected cut times come out
+    expect(getSceneRanges([2.0415], 4, { fps: 24, frameCount: 49 })).toEqual([{ start: 0, end: 2.0415 }]);
+  });
+});
+
+describe('suggestClipStart', () => {
+  test('is null until motion is analysed or when no window fits', () => {
+    expect(suggestClipStart(null, null, 10, CONFIG)).toBeNull();
+    expect(suggestClipStart([], null, 10, CONFIG)).toBeNull();
+    expect(suggestClipStart([1], null, 1, CONFIG)).toBeNull();
+  });
+
+  test('picks the window with the most motion', () => {
+    expect(suggestClipStart([1, 1, 5, 5, 1, 1], null, 6, CONFIG)).toEqual({ startTime: 2, score: 5 });
+  });
+
+  test('prefers sustained motion over a single burst', () => {
+    expect(suggestClipStart([0, 9, 0, 4, 4, 0], null, 6, CONFIG)).toEqual({ startTime: 3, score: 4 });
+  });
+
+  test('skips windows crossing a cut and tries starting on each shot', () => {
+    expect(suggestClipStart([1, 1, 5, 5, 5, 1], [3.5], 6, CONFIG)).toEqual({ startTime: 3.5, score: 3 });
+  });
+
+  test('fits a video exactly one window long', () => {
+    expect(suggestClipStart([2, 3], null, 2, CONFIG)).toEqual({ startTime: 0, score: 2 });
+  });
+
+  test('is null when every window crosses a cut', () => {
+    expect(suggestClipStart([1, 1, 1], [1, 2], 3, CONFIG)).toBeNull();
+  });
+});
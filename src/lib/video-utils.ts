@@ -1,5 +1,6 @@
 import { CheckCircle, AlertCircle, Clock } from 'lucide-react';
-import type { Video } from '@/types';
+import type { ActiveArea, Video, Clip, ProcessingSettings } from '@/types';
+import { DEFAULT_PROCESSING_SETTINGS } from '@/lib/processing-settings';
 
 /**
  * Format time in seconds to MM:SS.MS format
@@ -20,6 +21,27 @@ export function formatDuration(seconds: number): string {
   return `${mins}:${secs.toString().padStart(2, '0')}`;
 }
 
+/**
+ * Format a remaining-time estimate, e.g. "45s" or "3m 12s"
+ */
+export function formatEta(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const mins = Math.floor(total / 60);
+  const secs = total % 60;
+  return mins > 0 ? `${mins}m ${secs}s` : `${secs}s`;
+}
+
+/**
+ * Format a byte count, e.g. "1.5 GB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.max(0, Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+}
+
 /**
  * Get status icon component for video status
  */
@@ -128,6 +150,27 @@ export function centerCrop(
   return { x, y };
 }
 
+/**
+ * Part of the frame that holds the picture: the detected active area, or the whole frame
+ */
+export function getActiveArea(video: Pick<Video, 'originalWidth' | 'originalHeight' | 'activeArea'>): ActiveArea {
+  return video.activeArea ?? { x: 0, y: 0, width: video.originalWidth, height: video.originalHeight };
+}
+
+/**
+ * Largest crop with the resolution's aspect ratio that stays clear of letterbox/pillarbox bars,
+ * centered in the picture
+ */
+export function computeMaxCrop(
+  resolution: Video['resolution'],
+  video: Pick<Video, 'originalWidth' | 'originalHeight' | 'activeArea'>
+): { x: number; y: number; width: number; height: number } {
+  const area = getActiveArea(video);
+  const { width, height } = computeCropSizeForResolution(resolution, area.width, area.height);
+  const { x, y } = centerCrop(width, height, area.width, area.height);
+  return { x: Math.round(area.x + x), y: Math.round(area.y + y), width, height };
+}
+
 /**
  * Constrain crop to stay within video bounds
  */
@@ -148,6 +191,44 @@ export function constrainCrop(
   };
 }
 
+/**
+ * Constrain a crop to the picture inside any letterbox/pillarbox bars. Crops larger than the
+ * picture can't avoid the bars, so they are only kept inside the frame.
+ */
+export function constrainCropToActiveArea(
+  cropX: number,
+  cropY: number,
+  cropWidth: number,
+  cropHeight: number,
+  video: Pick<Video, 'originalWidth' | 'originalHeight' | 'activeArea'>
+): { x: number; y: number } {
+  const area = getActiveArea(video);
+  const bounds = cropWidth <= area.width && cropHeight <= area.height
+    ? area
+    : { x: 0, y: 0, width: video.originalWidth, height: video.originalHeight };
+
+  const { x, y } = constrainCrop(cropX - bounds.x, cropY - bounds.y, cropWidth, cropHeight, bounds.width, bounds.height);
+  return { x: bounds.x + x, y: bounds.y + y };
+}
+
+/**
+ * Crop position that centers a crop in the picture (or in the frame when it is larger than the picture)
+ */
+export function centerCropInActiveArea(
+  cropWidth: number,
+  cropHeight: number,
+  video: Pick<Video, 'originalWidth' | 'originalHeight' | 'activeArea'>
+): { x: number; y: number } {
+  const area = getActiveArea(video);
+  return constrainCropToActiveArea(
+    Math.round(area.x + (area.width - cropWidth) / 2),
+    Math.round(area.y + (area.height - cropHeight) / 2),
+    cropWidth,
+    cropHeight,
+    video
+  );
+}
+
 /**
  * Check if a video is properly configured for processing
  */
@@ -161,7 +242,129 @@ export function isVideoConfigured(video: Video): boolean {
 }
 
 /**
- * Get video URL for the given video filepath
+ * Time (in seconds) at which a clip ends in its source video for the given processing settings
+ */
+export function getClipEndTime(
+  clip: Pick<Clip, 'startTime'>,
+  config: Pick<ProcessingSettings, 'fps' | 'frameCount'> = DEFAULT_PROCESSING_SETTINGS
+): number {
+  return clip.startTime + config.frameCount / config.fps;
+}
+
+/**
+ * Number of frames a clip can produce before its source video ends (at most frameCount)
+ */
+export function getAvailableFrameCount(
+  clip: Pick<Clip, 'startTime'>,
+  duration: number,
+  config: Pick<ProcessingSettings, 'fps' | 'frameCount'> = DEFAULT_PROCESSING_SETTINGS
+): number {
+  // Small tolerance so rounding in stored durations doesn't flag clips that end exactly at the end
+  const available = Math.floor((duration - clip.startTime) * config.fps + 1e-3);
+  return Math.max(0, Math.min(config.frameCount, available));
+}
+
+/**
+ * Whether a clip runs past the end of its source video, producing fewer frames than requested
+ */
+export function isClipTruncated(
+  clip: Pick<Clip, 'startTime'>,
+  duration: number,
+  config: Pick<ProcessingSettings, 'fps' | 'frameCount'> = DEFAULT_PROCESSING_SETTINGS
+): boolean {
+  return getAvailableFrameCount(clip, duration, config) < config.frameCount;
+}
+
+/**
+ * Scene cuts that fall inside a clip's window, i.e. cuts that would end up in the output
+ */
+export function getCrossedSceneCuts(
+  clip: Pick<Clip, 'startTime'>,
+  sceneCuts: number[] | null | undefined,
+  config: Pick<ProcessingSettings, 'fps' | 'frameCount'> = DEFAULT_PROCESSING_SETTINGS
+): number[] {
+  if (!sceneCuts) return [];
+  // A cut on the first frame starts the clip on the new shot, which is fine
+  const tolerance = 0.5 / config.fps;
+  const endTime = getClipEndTime(clip, config);
+  return sceneCuts.filter(cut => cut > clip.startTime + tolerance && cut < endTime - tolerance);
+}
+
+/**
+ * Shots between scene cuts that are long enough for a full clip (frameCount / fps seconds)
+ */
+export function getSceneRanges(
+  sceneCuts: number[],
+  duration: number,
+  config: Pick<ProcessingSettings, 'fps' | 'frameCount'> = DEFAULT_PROCESSING_SETTINGS
+): { start: number; end: number }[] {
+  const minLength = config.frameCount / config.fps;
+  const bounds = [0, ...sceneCuts.filter(cut => cut > 0 && cut < duration), duration];
+
+  const ranges: { start: number; end: number }[] = [];
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const start = bounds[i]!;
+    const end = bounds[i + 1]!;
+    // Same rounding tolerance as getAvailableFrameCount
+    if (end - start + 1e-3 >= minLength) {
+      ranges.push({ start, end });
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Start of the clip window (frameCount / fps seconds) with the most sustained motion that crosses
+ * no scene cut, scored from per-second motion energy. Null until motion has been analysed or when
+ * no window fits.
+ */
+export function suggestClipStart(
+  motionEnergy: number[] | null | undefined,
+  sceneCuts: number[] | null | undefined,
+  duration: number,
+  config: Pick<ProcessingSettings, 'fps' | 'frameCount'> = DEFAULT_PROCESSING_SETTINGS
+): { startTime: number; score: number } | null {
+  if (!motionEnergy || motionEnergy.length === 0) return null;
+
+  const length = config.frameCount / config.fps;
+  // Same rounding tolerance as getAvailableFrameCount
+  const latestStart = duration - length + 1e-3;
+  if (latestStart < 0) return null;
+
+  // Every whole second, plus the start of each shot
+  const candidates = [
+    ...Array.from({ length: Math.floor(latestStart) + 1 }, (_, second) => second),
+    ...(sceneCuts ?? []).filter(cut => cut <= latestStart),
+  ];
+
+  let best: { startTime: number; score: number } | null = null;
+  for (const startTime of candidates) {
+    if (getCrossedSceneCuts({ startTime }, sceneCuts, config).length > 0) continue;
+
+    const seconds = motionEnergy.slice(Math.floor(startTime), Math.ceil(startTime + length - 1e-3));
+    if (seconds.length === 0) continue;
+
+    // Sustained motion: score the calmer half of the window, so a single burst doesn't win
+    const calmerHalf = [...seconds].sort((a, b) => a - b).slice(0, Math.ceil(seconds.length / 2));
+    const score = calmerHalf.reduce((sum, value) => sum + value, 0) / calmerHalf.length;
+    if (!best || score > best.score) {
+      best = { startTime, score };
+    }
+  }
+  return best;
+}
+
+/**
+ * File the browser should play for a video: the H.264 proxy once it exists, else the original.
+ * Originals imported in place live outside uploads/, so they are streamed through the API.
+ */
+export function getPlaybackPath(video: Pick<Video, 'id' | 'filepath' | 'proxyPath' | 'isExternal'>): string {
+  if (video.proxyPath) return video.proxyPath;
+  return video.isExternal ? `api/videos/${video.id}/source` : video.filepath;
+}
+
+/**
+ * Get the URL of a file the server serves statically (uploaded videos, preview images)
  */
 export function getVideoUrl(filepath: string): string {
   return `http://localhost:3000/${filepath.replace(/^\/+/, '')}`;
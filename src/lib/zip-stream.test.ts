@@ -0,0 +1,101 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { checkZipLimits, createZipStream, getZipSize, type ZipEntry } from '@/lib/zip-stream';
+
+const tempDir = mkdtempSync(join(tmpdir(), 'zip-stream-test-'));
+afterAll(() => rmSync(tempDir, { recursive: true, force: true }));
+
+async function readArchive(entries: ZipEntry[]): Promise<Uint8Array> {
+  return new Uint8Array(await new Response(createZipStream(entries)).arrayBuffer());
+}
+
+function decodeName(archive: Uint8Array, start: number, length: number): string {
+  return new TextDecoder().decode(archive.subarray(start, start + length));
+}
+
+describe('createZipStream', () => {
+  const filepath = join(tempDir, 'clip.txt');
+  writeFileSync(filepath, '123456789');
+  const entries: ZipEntry[] = [
+    { name: 'captions/clip.txt', filepath },
+    { name: 'manifest.json', data: 'hello world' },
+  ];
+
+  test('writes local headers, data and data descriptors with the CRC-32 of each entry', async () => {
+    const archive = await readArchive(entries);
+    const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+
+    // First entry: stored, data descriptor + UTF-8 flags, name right after the 30-byte header
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(6, true)).toBe(0x0808);
+    expect(view.getUint16(8, true)).toBe(0);
+    expect(view.getUint16(26, true)).toBe('captions/clip.txt'.length);
+    expect(decodeName(archive, 30, 17)).toBe('captions/clip.txt');
+    expect(decodeName(archive, 47, 9)).toBe('123456789');
+
+    // The standard CRC-32 check value
+    const descriptor = 56;
+    expect(view.getUint32(descriptor, true)).toBe(0x08074b50);
+    expect(view.getUint32(descriptor + 4, true)).toBe(0xcbf43926);
+    expect(view.getUint32(descriptor + 8, true)).toBe(9);
+    expect(view.getUint32(descriptor + 12, true)).toBe(9);
+
+    const second = descriptor + 16;
+    expect(view.getUint32(second, true)).toBe(0x04034b50);
+    expect(decodeName(archive, second + 30, 13)).toBe('manifest.json');
+    const secondDescriptor = second + 30 + 13 + 11;
+    expect(view.getUint32(secondDescriptor + 4, true)).toBe(0x0d4a1185);
+  });
+
+  test('ends with a central directory pointing back at each local header', async () => {
+    const archive = await readArchive(entries);
+    const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+
+    const end = archive.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 8, true)).toBe(2);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralSize = view.getUint32(end + 12, true);
+    const centralStart = view.getUint32(end + 16, true);
+    expect(centralStart + centralSize).toBe(end);
+
+    const names: string[] = [];
+    let position = centralStart;
+    for (const expected of [{ crc: 0xcbf43926, size: 9 }, { crc: 0x0d4a1185, size: 11 }]) {
+      expect(view.getUint32(position, true)).toBe(0x02014b50);
+      expect(view.getUint32(position + 16, true)).toBe(expected.crc);
+      expect(view.getUint32(position + 20, true)).toBe(expected.size);
+      expect(view.getUint32(position + 24, true)).toBe(expected.size);
+
+      const nameLength = view.getUint16(position + 28, true);
+      const name = decodeName(archive, position + 46, nameLength);
+      const localOffset = view.getUint32(position + 42, true);
+      expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+      expect(decodeName(archive, localOffset + 30, nameLength)).toBe(name);
+
+      names.push(name);
+      position += 46 + nameLength;
+    }
+    expect(names).toEqual(['captions/clip.txt', 'manifest.json']);
+  });
+
+  test('getZipSize matches the bytes written, with multi-byte names', async () => {
+    const unicodeEntries: ZipEntry[] = [...entries, { name: 'légende.txt', data: 'ça va' }];
+    const archive = await readArchive(unicodeEntries);
+    expect(getZipSize(unicodeEntries)).toBe(archive.length);
+    expect(getZipSize([])).toBe(22);
+  });
+});
+
+describe('checkZipLimits', () => {
+  test('accepts archives within the limits', () => {
+    expect(checkZipLimits([{ name: 'a.txt', data: 'a' }])).toBeNull();
+  });
+
+  test('refuses more entries than a ZIP without ZIP64 can count', () => {
+    const entries = Array.from({ length: 0x10000 }, (_, i) => ({ name: `${i}.txt`, data: '' }));
+    expect(checkZipLimits(entries)).toContain('65535');
+  });
+});
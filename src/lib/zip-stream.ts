@@ -0,0 +1,189 @@
+export interface ZipEntry {
+  // Path inside the archive
+  name: string;
+  // Either a file on disk or in-memory content
+  filepath?: string;
+  data?: string | Uint8Array;
+}
+
+// Sizes and offsets are 32-bit and the entry count 16-bit without ZIP64
+const MAX_ZIP_SIZE = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+
+// Fixed parts of each entry: local header, data descriptor and central directory record
+const LOCAL_HEADER_SIZE = 30;
+const DATA_DESCRIPTOR_SIZE = 16;
+const CENTRAL_RECORD_SIZE = 46;
+const END_RECORD_SIZE = 22;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function updateCrc32(crc: number, chunk: Uint8Array): number {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < chunk.length; i++) {
+    c = CRC_TABLE[(c ^ chunk[i]!) & 0xff]! ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+interface CentralRecord {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+/**
+ * Size in bytes of the archive createZipStream writes for the given entries
+ */
+export function getZipSize(entries: ZipEntry[]): number {
+  const encoder = new TextEncoder();
+  return entries.reduce((total, entry) => {
+    const nameLength = encoder.encode(entry.name).length;
+    const dataLength = entry.filepath
+      ? Bun.file(entry.filepath).size
+      : typeof entry.data === 'string' ? encoder.encode(entry.data).length : entry.data?.length ?? 0;
+    return total + LOCAL_HEADER_SIZE + nameLength + dataLength + DATA_DESCRIPTOR_SIZE + CENTRAL_RECORD_SIZE + nameLength;
+  }, END_RECORD_SIZE);
+}
+
+/**
+ * Check that an archive of the given entries fits ZIP's 32-bit limits, before any of it is sent.
+ * Returns an error message, or null if it fits.
+ */
+export function checkZipLimits(entries: ZipEntry[]): string | null {
+  if (entries.length > MAX_ZIP_ENTRIES) {
+    return `Archive would hold ${entries.length} files, more than the ZIP limit of ${MAX_ZIP_ENTRIES}`;
+  }
+  const size = getZipSize(entries);
+  if (size > MAX_ZIP_SIZE) {
+    return `Archive would be ${(size / 1024 ** 3).toFixed(1)} GB, more than the 4 GB ZIP limit`;
+  }
+  return null;
+}
+
+/**
+ * Stream a ZIP archive of the given entries. Files are stored uncompressed (video is already
+ * compressed) and read one at a time, so memory use stays flat regardless of dataset size.
+ */
+export function createZipStream(entries: ZipEntry[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const timestamp = dosDateTime(new Date());
+  const records: CentralRecord[] = [];
+  let offset = 0;
+
+  async function* generate(): AsyncGenerator<Uint8Array> {
+    for (const entry of entries) {
+      const name = encoder.encode(entry.name);
+
+      // Local file header; CRC and sizes follow the data in a data descriptor (flag bit 3)
+      const header = new DataView(new ArrayBuffer(LOCAL_HEADER_SIZE));
+      header.setUint32(0, 0x04034b50, true);
+      header.setUint16(4, 20, true);
+      header.setUint16(6, 0x0808, true); // data descriptor + UTF-8 names
+      header.setUint16(8, 0, true); // stored
+      header.setUint16(10, timestamp.time, true);
+      header.setUint16(12, timestamp.date, true);
+      header.setUint16(26, name.length, true);
+      yield new Uint8Array(header.buffer);
+      yield name;
+
+      let crc = 0;
+      let size = 0;
+      if (entry.filepath) {
+        const reader = Bun.file(entry.filepath).stream().getReader();
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          crc = updateCrc32(crc, value);
+          size += value.length;
+          yield value;
+        }
+      } else {
+        const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data ?? new Uint8Array();
+        crc = updateCrc32(crc, data);
+        size = data.length;
+        yield data;
+      }
+
+      const descriptor = new DataView(new ArrayBuffer(DATA_DESCRIPTOR_SIZE));
+      descriptor.setUint32(0, 0x08074b50, true);
+      descriptor.setUint32(4, crc, true);
+      descriptor.setUint32(8, size, true);
+      descriptor.setUint32(12, size, true);
+      yield new Uint8Array(descriptor.buffer);
+
+      records.push({ name, crc, size, offset });
+      offset += LOCAL_HEADER_SIZE + name.length + size + DATA_DESCRIPTOR_SIZE;
+      // checkZipLimits runs first; this only catches files that grew while streaming
+      if (offset > MAX_ZIP_SIZE) {
+        throw new Error('Archive exceeds the 4 GB ZIP limit');
+      }
+    }
+
+    // Central directory
+    const centralStart = offset;
+    for (const record of records) {
+      const central = new DataView(new ArrayBuffer(CENTRAL_RECORD_SIZE));
+      central.setUint32(0, 0x02014b50, true);
+      central.setUint16(4, 20, true);
+      central.setUint16(6, 20, true);
+      central.setUint16(8, 0x0808, true);
+      central.setUint16(10, 0, true);
+      central.setUint16(12, timestamp.time, true);
+      central.setUint16(14, timestamp.date, true);
+      central.setUint32(16, record.crc, true);
+      central.setUint32(20, record.size, true);
+      central.setUint32(24, record.size, true);
+      central.setUint16(28, record.name.length, true);
+      central.setUint32(42, record.offset, true);
+      yield new Uint8Array(central.buffer);
+      yield record.name;
+      offset += CENTRAL_RECORD_SIZE + record.name.length;
+    }
+
+    const end = new DataView(new ArrayBuffer(END_RECORD_SIZE));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, records.length, true);
+    end.setUint16(10, records.length, true);
+    end.setUint32(12, offset - centralStart, true);
+    end.setUint32(16, centralStart, true);
+    yield new Uint8Array(end.buffer);
+  }
+
+  const chunks = generate();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
@@ -2,15 +2,22 @@ import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { VideoList } from '@/components/VideoList';
 import { VideoDetailPanel } from '@/components/VideoDetailPanel';
 import { ProcessingPanel } from '@/components/ProcessingPanel';
 import { VideoUploadZone } from '@/components/VideoUploadZone';
 import { Header } from '@/components/Header';
-import { ArrowLeft, Upload, Trash2, Video, Sparkles } from 'lucide-react';
-import { useDataset, useDeleteDataset, useUploadVideos } from '@/hooks/useQueries';
-import type { Video as VideoType } from '@/types';
+import { ArrowLeft, Upload, Trash2, Video, Sparkles, Download, Ratio, FolderInput, Focus } from 'lucide-react';
+import { useAutoCropDataset, useDataset, useDatasetDuplicates, useDatasetJobs, useDeleteDataset, useIgnoreDuplicate, useMergeDuplicate, useUpdateDataset, useUploadVideos } from '@/hooks/useQueries';
+import { ResolutionPresetsDialog } from '@/components/ResolutionPresetsDialog';
+import { ImportFolderDialog } from '@/components/ImportFolderDialog';
+import { getDatasetResolutions } from '@/lib/resolutions';
+import { resolveProcessingSettings } from '@/lib/processing-settings';
+import api from '@/services/api';
+import type { DuplicateMatch, UploadResult, Video as VideoType } from '@/types';
 
 export function DatasetDetailPage() {
   const { id, videoId } = useParams<{ id: string; videoId?: string }>();
@@ -18,11 +25,25 @@ export function DatasetDetailPage() {
   const [selectedVideo, setSelectedVideo] = useState<VideoType | null>(null);
   const [showUpload, setShowUpload] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [triggerWord, setTriggerWord] = useState('');
+  const [showResolutions, setShowResolutions] = useState(false);
+  const [showImportFolder, setShowImportFolder] = useState(false);
+  // Fraction of each file the server has received while an upload runs
+  const [uploadProgress, setUploadProgress] = useState<Map<File, number>>(new Map());
+  const [uploadResults, setUploadResults] = useState<Map<File, UploadResult>>(new Map());
 
   const datasetId = id ? parseInt(id) : 0;
   const { data: dataset, isLoading, error } = useDataset(datasetId);
   const deleteDatasetMutation = useDeleteDataset();
+  const updateDatasetMutation = useUpdateDataset();
   const uploadVideosMutation = useUploadVideos();
+  const { data: duplicates } = useDatasetDuplicates(datasetId);
+  const mergeDuplicateMutation = useMergeDuplicate();
+  const ignoreDuplicateMutation = useIgnoreDuplicate();
+  const autoCropMutation = useAutoCropDataset();
+  const { data: jobs = [] } = useDatasetJobs(datasetId);
+  // The ZIP is refused while processing rewrites the output files
+  const isProcessing = jobs.some(job => job.type === 'process-dataset' && (job.status === 'queued' || job.status === 'running'));
 
   // Handle video selection when dataset loads or videoId changes
   useEffect(() => {
@@ -43,6 +64,24 @@ export function DatasetDetailPage() {
     }
   }, [dataset, videoId, id, navigate]);
 
+  // Keep the trigger word field in sync with the stored value
+  useEffect(() => {
+    setTriggerWord(dataset?.triggerWord ?? '');
+  }, [dataset?.triggerWord]);
+
+  const handleTriggerWordSave = () => {
+    if (!dataset || triggerWord.trim() === (dataset.triggerWord ?? '')) return;
+    updateDatasetMutation.mutate({ id: dataset.id, data: { triggerWord } });
+  };
+
+  const handleResolutionsSave = (resolutions: string[]) => {
+    if (!dataset) return;
+    updateDatasetMutation.mutate(
+      { id: dataset.id, data: { resolutions } },
+      { onSuccess: () => setShowResolutions(false) }
+    );
+  };
+
   const handleVideoSelect = (video: VideoType) => {
     setSelectedVideo(video);
     navigate(`/dataset/${id}/video/${video.id}`, { replace: true });
@@ -73,19 +112,83 @@ export function DatasetDetailPage() {
   const handleVideoUpload = async (files: File[]) => {
     if (!dataset) return;
     
+    // Files sent again (retries) start from a clean slate; the others keep their outcome
+    const clearFiles = <T,>(previous: Map<File, T>) => {
+      const next = new Map(previous);
+      files.forEach(file => next.delete(file));
+      return next;
+    };
+    setUploadProgress(clearFiles);
+    setUploadResults(clearFiles);
+
     try {
-      const newVideos = await uploadVideosMutation.mutateAsync({ datasetId: dataset.id, files });
-      setShowUpload(false);
-      
+      const results = await uploadVideosMutation.mutateAsync({
+        datasetId: dataset.id,
+        files,
+        onProgress: (file, progress) => setUploadProgress(previous => new Map(previous).set(file, progress)),
+        onResult: (file, result) => setUploadResults(previous => new Map(previous).set(file, result)),
+      });
+
+      // Keep the dialog open when something failed so the failed files can be retried
+      if (results.some(result => result.status === 'rejected')) return;
+      handleUploadClose();
+
       // Navigate to the first uploaded video if any were uploaded
-      if (newVideos.length > 0) {
-        navigate(`/dataset/${id}/video/${newVideos[0]!.id}`, { replace: true });
+      const firstResult = results[0];
+      if (firstResult?.status === 'accepted') {
+        navigate(`/dataset/${id}/video/${firstResult.video.id}`, { replace: true });
       }
     } catch (error) {
       console.error('Failed to upload videos:', error);
     }
   };
 
+  const handleMergeDuplicate = async (video: VideoType, match: DuplicateMatch) => {
+    if (!dataset) return;
+    if (!confirm(`Delete "${video.filename}" and move its clips to "${match.filename}"?`)) return;
+
+    try {
+      await mergeDuplicateMutation.mutateAsync({ id: video.id, intoVideoId: match.videoId, datasetId: dataset.id });
+      if (selectedVideo?.id === video.id) {
+        navigate(`/dataset/${id}/video/${match.videoId}`, { replace: true });
+      }
+    } catch (error) {
+      console.error('Failed to merge duplicate:', error);
+      alert(error instanceof Error ? error.message : 'Failed to merge duplicate. Please try again.');
+    }
+  };
+
+  const handleIgnoreDuplicate = (video: VideoType, match: DuplicateMatch) => {
+    if (!dataset) return;
+    ignoreDuplicateMutation.mutate({ id: video.id, otherVideoId: match.videoId, datasetId: dataset.id });
+  };
+
+  const handleAutoCrop = async () => {
+    if (!dataset) return;
+    if (!confirm(`Move the crop of every clip in "${dataset.name}" onto its subject? Crop sizes and keyframed crops are kept.`)) return;
+
+    try {
+      await autoCropMutation.mutateAsync(dataset.id);
+    } catch (error) {
+      console.error('Failed to start auto-crop:', error);
+      alert(error instanceof Error ? error.message : 'Failed to start auto-crop. Please try again.');
+    }
+  };
+
+  const handleFolderImported = (results: UploadResult[]) => {
+    setShowImportFolder(false);
+    const firstResult = results[0];
+    if (firstResult?.status === 'accepted') {
+      navigate(`/dataset/${id}/video/${firstResult.video.id}`, { replace: true });
+    }
+  };
+
+  const handleUploadClose = () => {
+    setShowUpload(false);
+    setUploadProgress(new Map());
+    setUploadResults(new Map());
+  };
+
   const handleDatasetDelete = async () => {
     if (!dataset) return;
     
@@ -183,6 +286,35 @@ export function DatasetDetailPage() {
           <Trash2 className="mr-2 h-4 w-4" />
           Delete
         </Button>
+        <Button variant="outline" size="sm" onClick={() => setShowResolutions(true)}>
+          <Ratio className="mr-2 h-4 w-4" />
+          Resolutions
+        </Button>
+        {!isProcessing && dataset.videos?.some(video => video.status === 'processed') && (
+          <Button variant="outline" size="sm" asChild>
+            <a href={api.datasets.exportZipUrl(dataset.id)} download data-testid="download-zip">
+              <Download className="mr-2 h-4 w-4" />
+              Download ZIP
+            </a>
+          </Button>
+        )}
+        {(dataset.videos?.length ?? 0) > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleAutoCrop}
+            disabled={autoCropMutation.isPending}
+            title="Center every clip's crop on the moving or detailed part of its frames"
+            data-testid="auto-crop-all"
+          >
+            <Focus className="mr-2 h-4 w-4" />
+            Auto-crop All
+          </Button>
+        )}
+        <Button variant="outline" size="sm" onClick={() => setShowImportFolder(true)} data-testid="import-folder-button">
+          <FolderInput className="mr-2 h-4 w-4" />
+          Import Folder
+        </Button>
         <Button 
           onClick={() => setShowUpload(true)}
           className="bg-gradient-to-r from-primary to-primary/80 hover:from-primary/90 hover:to-primary/70"
@@ -205,6 +337,18 @@ export function DatasetDetailPage() {
                 {dataset.videos?.length || 0} video{(dataset.videos?.length || 0) !== 1 ? 's' : ''} in this dataset
               </p>
             </div>
+            <div className="ml-auto w-64 space-y-1">
+              <Label htmlFor="trigger-word" className="text-xs text-muted-foreground">Trigger word</Label>
+              <Input
+                id="trigger-word"
+                value={triggerWord}
+                onChange={(e) => setTriggerWord(e.target.value)}
+                onBlur={handleTriggerWordSave}
+                onKeyDown={(e) => e.key === 'Enter' && handleTriggerWordSave()}
+                placeholder="e.g. sks style"
+                data-testid="trigger-word-input"
+              />
+            </div>
           </div>
         </div>
 
@@ -224,8 +368,12 @@ export function DatasetDetailPage() {
               <CardContent className="p-0 max-h-[calc(100vh-280px)] overflow-y-auto">
                 <VideoList
                   videos={dataset.videos || []}
+                  processingSettings={resolveProcessingSettings(dataset.processingConfig)}
                   selectedVideo={selectedVideo}
                   onVideoSelect={handleVideoSelect}
+                  duplicates={duplicates}
+                  onMergeDuplicate={handleMergeDuplicate}
+                  onIgnoreDuplicate={handleIgnoreDuplicate}
                 />
               </CardContent>
             </Card>
@@ -236,6 +384,9 @@ export function DatasetDetailPage() {
             {selectedVideo ? (
               <VideoDetailPanel
                 video={selectedVideo}
+                triggerWord={dataset.triggerWord}
+                resolutions={getDatasetResolutions(dataset)}
+                processingSettings={resolveProcessingSettings(dataset.processingConfig)}
                 onVideoUpdate={handleVideoUpdate}
                 onVideoDelete={handleVideoDelete}
               />
@@ -256,6 +407,7 @@ export function DatasetDetailPage() {
             <ProcessingPanel
               datasetId={dataset.id}
               videos={dataset.videos || []}
+              processingConfig={dataset.processingConfig}
             />
           </div>
         </div>
@@ -264,10 +416,28 @@ export function DatasetDetailPage() {
       {showUpload && (
         <VideoUploadZone
           onUpload={handleVideoUpload}
-          onClose={() => setShowUpload(false)}
+          onClose={handleUploadClose}
+          progress={uploadProgress}
+          results={uploadResults}
+          isUploading={uploadVideosMutation.isPending}
         />
       )}
 
+      <ImportFolderDialog
+        open={showImportFolder}
+        datasetId={dataset.id}
+        onOpenChange={setShowImportFolder}
+        onImported={handleFolderImported}
+      />
+
+      <ResolutionPresetsDialog
+        open={showResolutions}
+        resolutions={getDatasetResolutions(dataset)}
+        isSaving={updateDatasetMutation.isPending}
+        onOpenChange={setShowResolutions}
+        onSave={handleResolutionsSave}
+      />
+
       <Dialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
         <DialogContent className="max-w-md">
           <DialogHeader>
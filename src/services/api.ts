@@ -1,4 +1,4 @@
-import type { Dataset, Video, ProcessingConfig } from '@/types';
+import type { Dataset, Video, Clip, ClipOutputPreview, ProcessingConfig, ProcessingPreset, ProcessingSettings, Job, ExportLayoutId, ExportLayoutInfo, ExportResult, FolderImportOptions, FolderScanResult, UploadResult, UploadStatus, VideoDuplicates } from '@/types';
 
 const API_BASE_URL = 'http://localhost:3000/api';
 
@@ -34,11 +34,35 @@ export const api = {
       return handleResponse(response);
     },
 
+    async update(id: number, updates: Partial<Pick<Dataset, 'triggerWord' | 'resolutions' | 'processingConfig'>>): Promise<Dataset> {
+      const response = await fetch(`${API_BASE_URL}/datasets/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates)
+      });
+      return handleResponse(response);
+    },
+
     async delete(id: number): Promise<void> {
       const response = await fetch(`${API_BASE_URL}/datasets/${id}`, {
         method: 'DELETE'
       });
       await handleResponse(response);
+    },
+
+    async duplicates(id: number): Promise<VideoDuplicates[]> {
+      const response = await fetch(`${API_BASE_URL}/datasets/${id}/duplicates`);
+      return handleResponse(response);
+    },
+
+    // ZIP of the processed clips, captions and a manifest (used as a download link)
+    exportZipUrl(id: number): string {
+      return `${API_BASE_URL}/datasets/${id}/export.zip`;
+    },
+
+    // Server-Sent Events stream of processing updates (consumed with EventSource)
+    eventsUrl(id: number): string {
+      return `${API_BASE_URL}/datasets/${id}/events`;
     }
   },
 
@@ -66,31 +90,249 @@ export const api = {
       await handleResponse(response);
     },
 
-    async upload(datasetId: number, files: File[]): Promise<Video[]> {
-      const formData = new FormData();
-      
-      // Add all files to form data
-      files.forEach(file => {
-        formData.append('files', file);
+    async splitScenes(id: number, replace = false): Promise<Clip[]> {
+      const response = await fetch(`${API_BASE_URL}/videos/${id}/split-scenes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ replace })
+      });
+      return handleResponse(response);
+    },
+
+    // Keep both videos although they look like duplicates
+    async ignoreDuplicate(id: number, otherVideoId: number): Promise<Video> {
+      const response = await fetch(`${API_BASE_URL}/videos/${id}/ignore-duplicate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ videoId: otherVideoId })
+      });
+      return handleResponse(response);
+    },
+
+    // Move a duplicate's clips to the video it duplicates and delete it; returns the kept video
+    async merge(id: number, intoVideoId: number): Promise<Video> {
+      const response = await fetch(`${API_BASE_URL}/videos/${id}/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ intoVideoId })
+      });
+      return handleResponse(response);
+    },
+
+    async detectScenes(id: number): Promise<Job> {
+      const response = await fetch(`${API_BASE_URL}/videos/${id}/scenes`, {
+        method: 'POST'
+      });
+      return handleResponse(response);
+    },
+
+    async analyzeMotion(id: number): Promise<Job> {
+      const response = await fetch(`${API_BASE_URL}/videos/${id}/motion`, {
+        method: 'POST'
+      });
+      return handleResponse(response);
+    },
+
+    async checkQuality(id: number): Promise<Job> {
+      const response = await fetch(`${API_BASE_URL}/videos/${id}/quality`, {
+        method: 'POST'
+      });
+      return handleResponse(response);
+    },
+
+    // Move the crop of each of the video's clips onto its subject
+    async autoCrop(id: number): Promise<Job> {
+      const response = await fetch(`${API_BASE_URL}/videos/${id}/auto-crop`, {
+        method: 'POST'
+      });
+      return handleResponse(response);
+    }
+  },
+
+  // Server folder import endpoints
+  imports: {
+    async scan(options: FolderImportOptions): Promise<FolderScanResult> {
+      const response = await fetch(`${API_BASE_URL}/import/scan`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(options)
+      });
+      return handleResponse(response);
+    },
+
+    async importFolder(datasetId: number, options: FolderImportOptions): Promise<UploadResult[]> {
+      const response = await fetch(`${API_BASE_URL}/datasets/${datasetId}/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(options)
+      });
+      return handleResponse(response);
+    }
+  },
+
+  // Chunked upload endpoints (init -> PUT chunks -> finalize)
+  uploads: {
+    async create(datasetId: number, file: Pick<File, 'name' | 'size'>): Promise<UploadStatus> {
+      const response = await fetch(`${API_BASE_URL}/datasets/${datasetId}/uploads`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ filename: file.name, size: file.size })
+      });
+      return handleResponse(response);
+    },
+
+    async get(id: number): Promise<UploadStatus | null> {
+      const response = await fetch(`${API_BASE_URL}/uploads/${id}`);
+      if (response.status === 404) return null;
+      return handleResponse(response);
+    },
+
+    async putChunk(id: number, offset: number, chunk: Blob, signal?: AbortSignal): Promise<UploadStatus> {
+      const response = await fetch(`${API_BASE_URL}/uploads/${id}/chunks?offset=${offset}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: chunk,
+        signal
+      });
+      return handleResponse(response);
+    },
+
+    async finalize(id: number): Promise<Video> {
+      const response = await fetch(`${API_BASE_URL}/uploads/${id}/finalize`, {
+        method: 'POST'
+      });
+      return handleResponse(response);
+    },
+
+    async cancel(id: number): Promise<void> {
+      const response = await fetch(`${API_BASE_URL}/uploads/${id}`, {
+        method: 'DELETE'
+      });
+      await handleResponse(response);
+    }
+  },
+
+  // Clip endpoints
+  clips: {
+    async create(videoId: number, data: Partial<Clip> = {}): Promise<Clip> {
+      const response = await fetch(`${API_BASE_URL}/videos/${videoId}/clips`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+      });
+      return handleResponse(response);
+    },
+
+    async update(id: number, updates: Partial<Clip>): Promise<Clip> {
+      const response = await fetch(`${API_BASE_URL}/clips/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates)
+      });
+      return handleResponse(response);
+    },
+
+    async delete(id: number): Promise<void> {
+      const response = await fetch(`${API_BASE_URL}/clips/${id}`, {
+        method: 'DELETE'
       });
+      await handleResponse(response);
+    },
 
-      const response = await fetch(`${API_BASE_URL}/datasets/${datasetId}/videos`, {
+    async output(id: number): Promise<ClipOutputPreview> {
+      const response = await fetch(`${API_BASE_URL}/clips/${id}/output`);
+      return handleResponse(response);
+    }
+  },
+
+  // Export endpoints
+  exports: {
+    async listLayouts(): Promise<ExportLayoutInfo[]> {
+      const response = await fetch(`${API_BASE_URL}/export-layouts`);
+      return handleResponse(response);
+    },
+
+    async exportDataset(datasetId: number, layout: ExportLayoutId): Promise<ExportResult> {
+      const response = await fetch(`${API_BASE_URL}/datasets/${datasetId}/export`, {
         method: 'POST',
-        body: formData // Don't set Content-Type header, let browser set it for multipart
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ layout })
       });
       return handleResponse(response);
     }
   },
 
+  // Processing preset endpoints
+  presets: {
+    async list(): Promise<ProcessingPreset[]> {
+      const response = await fetch(`${API_BASE_URL}/processing-presets`);
+      return handleResponse(response);
+    },
+
+    async create(name: string, settings: ProcessingSettings): Promise<ProcessingPreset> {
+      const response = await fetch(`${API_BASE_URL}/processing-presets`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, settings })
+      });
+      return handleResponse(response);
+    },
+
+    async delete(id: number): Promise<void> {
+      const response = await fetch(`${API_BASE_URL}/processing-presets/${id}`, {
+        method: 'DELETE'
+      });
+      await handleResponse(response);
+    }
+  },
+
   // Processing endpoints
   processing: {
-    async processDataset(datasetId: number, config: ProcessingConfig): Promise<void> {
+    async processDataset(datasetId: number, config: Partial<ProcessingConfig>): Promise<Job> {
       const response = await fetch(`${API_BASE_URL}/datasets/${datasetId}/process`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(config)
       });
-      await handleResponse(response);
+      return handleResponse(response);
+    },
+
+    // Check every clip of the dataset for black, frozen, blurry... footage
+    async checkQuality(datasetId: number): Promise<Job> {
+      const response = await fetch(`${API_BASE_URL}/datasets/${datasetId}/quality`, {
+        method: 'POST'
+      });
+      return handleResponse(response);
+    },
+
+    // Move every clip's crop onto its subject
+    async autoCrop(datasetId: number): Promise<Job> {
+      const response = await fetch(`${API_BASE_URL}/datasets/${datasetId}/auto-crop`, {
+        method: 'POST'
+      });
+      return handleResponse(response);
+    }
+  },
+
+  // Job endpoints
+  jobs: {
+    async list(datasetId?: number): Promise<Job[]> {
+      const query = datasetId !== undefined ? `?datasetId=${datasetId}` : '';
+      const response = await fetch(`${API_BASE_URL}/jobs${query}`);
+      return handleResponse(response);
+    },
+
+    async get(id: number): Promise<Job | null> {
+      const response = await fetch(`${API_BASE_URL}/jobs/${id}`);
+      if (response.status === 404) return null;
+      return handleResponse(response);
+    },
+
+    async cancel(id: number): Promise<Job> {
+      const response = await fetch(`${API_BASE_URL}/jobs/${id}/cancel`, {
+        method: 'POST'
+      });
+      return handleResponse(response);
     }
   }
 };
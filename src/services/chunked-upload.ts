@@ -0,0 +1,88 @@
+import api from '@/services/api';
+import type { UploadStatus, Video } from '@/types';
+
+// Attempts per chunk before giving up; the upload can still be resumed later
+const MAX_CHUNK_RETRIES = 5;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+interface ChunkedUploadOptions {
+  // Fraction of the file the server has received, 0-1
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+// Identifies the same file across page loads, so an interrupted upload picks up where it stopped
+function getResumeKey(datasetId: number, file: File): string {
+  return `upload:${datasetId}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+// The upload session started earlier for this file, if the server still has it
+async function findResumableUpload(key: string, file: File): Promise<UploadStatus | null> {
+  const savedId = Number(localStorage.getItem(key));
+  if (!savedId) return null;
+
+  const upload = await api.uploads.get(savedId).catch(() => null);
+  return upload && upload.size === file.size ? upload : null;
+}
+
+/**
+ * Upload a file in chunks and turn it into a video. Failed chunks are retried with backoff after
+ * asking the server how much it has, and an upload that still fails resumes on the next attempt.
+ */
+export async function uploadFileInChunks(
+  datasetId: number,
+  file: File,
+  { onProgress, signal }: ChunkedUploadOptions = {}
+): Promise<Video> {
+  const key = getResumeKey(datasetId, file);
+  let upload = await findResumableUpload(key, file);
+  if (!upload) {
+    upload = await api.uploads.create(datasetId, file);
+    localStorage.setItem(key, String(upload.id));
+  }
+
+  let receivedBytes = upload.receivedBytes;
+  let failures = 0;
+  onProgress?.(receivedBytes / file.size);
+
+  while (receivedBytes < file.size) {
+    signal?.throwIfAborted();
+    const chunk = file.slice(receivedBytes, receivedBytes + upload.chunkSize);
+
+    try {
+      receivedBytes = (await api.uploads.putChunk(upload.id, receivedBytes, chunk, signal)).receivedBytes;
+      failures = 0;
+      onProgress?.(receivedBytes / file.size);
+    } catch (error) {
+      signal?.throwIfAborted();
+      if (++failures > MAX_CHUNK_RETRIES) throw error;
+
+      await wait(Math.min(1000 * 2 ** failures, MAX_RETRY_DELAY_MS), signal);
+
+      // The chunk may have landed even though the response didn't, so resync with the server
+      const status = await api.uploads.get(upload.id).catch(() => undefined);
+      if (status === null) {
+        localStorage.removeItem(key);
+        throw new Error(`Upload of ${file.name} is no longer on the server (cancelled, or discarded after a day without progress), please try again`);
+      }
+      if (status) receivedBytes = status.receivedBytes;
+    }
+  }
+
+  // The server ends the upload session either way, so a rejected file starts over next time
+  try {
+    return await api.uploads.finalize(upload.id);
+  } finally {
+    localStorage.removeItem(key);
+  }
+}
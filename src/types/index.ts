@@ -1,11 +1,19 @@
 export interface Dataset {
   id: number;
   name: string;
+  triggerWord: string | null;
+  // Output resolution presets; null means the defaults (see getDatasetResolutions)
+  resolutions: string[] | null;
+  // Last saved processing settings; null until the dataset saves its own
+  processingConfig: ProcessingConfig | null;
   createdAt: string;
   videoCount?: number;
   videos?: Video[];
 }
 
+// "WIDTHxHEIGHT", one of the dataset's resolution presets
+export type Resolution = string;
+
 export interface Video {
   id: number;
   datasetId: number;
@@ -15,24 +23,267 @@ export interface Video {
   originalWidth: number;
   originalHeight: number;
   startTime: number;
-  resolution: '1280x720' | '720x1280' | '768x768';
+  resolution: Resolution;
   cropX: number;
   cropY: number;
   cropWidth: number;
   cropHeight: number;
   status: 'pending' | 'processed' | 'error';
+  progress: number;
+  etaSeconds: number | null;
+  // Hard-cut timestamps in seconds; null until scene detection has run
+  sceneCuts: number[] | null;
+  // Server paths of the preview images; null until generated
+  thumbnailPath: string | null;
+  filmstripPath: string | null;
+  codec: string | null;
+  // Browser preview transcode; 'none' when the original plays as is
+  proxyStatus: 'none' | 'pending' | 'ready' | 'error';
+  proxyPath: string | null;
+  // Referenced in place from a server folder (filepath is absolute and not served under /uploads)
+  isExternal: boolean;
+  // SHA-256 and per-frame pHashes used to find duplicates; null until fingerprinted
+  contentHash: string | null;
+  fingerprint: string[] | null;
+  // Videos kept alongside this one although they look like duplicates
+  ignoredDuplicateIds: number[] | null;
+  // Picture area inside baked-in letterbox/pillarbox bars; null if not detected (use the whole frame)
+  activeArea: ActiveArea | null;
+  // Mean frame difference for each second of the video; null until motion analysis has run
+  motionEnergy: number[] | null;
   fps?: number;
   frameCount?: number;
+  clips?: Clip[];
+}
+
+// Rectangle of the source frame, in original pixels
+export interface ActiveArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// How the crop moves from one keyframe to the next
+export type CropEasing = 'linear' | 'ease';
+
+// Crop position at a moment in a clip (time in seconds from the clip start)
+export interface CropKeyframe {
+  time: number;
+  x: number;
+  y: number;
+  easing: CropEasing;
+}
+
+// One training output cut from a video: its own start time, resolution and crop
+export interface Clip {
+  id: number;
+  videoId: number;
+  startTime: number;
+  resolution: Resolution;
+  cropX: number;
+  cropY: number;
+  cropWidth: number;
+  cropHeight: number;
+  // Animated crop position; null/empty keeps the crop fixed at cropX/cropY
+  cropKeyframes: CropKeyframe[] | null;
+  caption: string;
+  status: 'pending' | 'processed' | 'error';
+  progress: number;
+  etaSeconds: number | null;
+  // Exact settings the current output file was encoded with
+  outputSettings: ProcessingSettings | null;
+  // Base name of the output files, e.g. "vid_0001"; assigned when the clip is first processed
+  outputName: string | null;
+  // Result of the last quality check; null until checked or once the window or crop changes
+  quality: ClipQuality | null;
+  createdAt: string;
 }
 
-export interface ProcessingConfig {
+// Problems a quality check can find in a clip (see src/lib/quality-checks.ts)
+export type ClipQualityIssue = 'black' | 'frozen' | 'static' | 'interlaced' | 'blurry' | 'letterboxed' | 'low-bitrate';
+
+// Scores measured over a clip's window, inside its crop
+export interface ClipQualityScores {
+  // Share of the window (0-1) made of black frames / frozen frames
+  blackRatio: number;
+  frozenRatio: number;
+  // Mean luma change between consecutive frames (0-255)
+  motion: number;
+  // Share of frames detected as interlaced
+  interlacedRatio: number;
+  // Mean blurdetect score (higher is blurrier)
+  blur: number;
+  // Share of the crop taken up by black bars
+  letterboxRatio: number;
+  // Average bitrate of the source file per megapixel of its frame
+  bitrateKbpsPerMegapixel: number;
+}
+
+export interface ClipQuality extends ClipQualityScores {
+  // The window that was checked
+  startTime: number;
+  duration: number;
+  issues: ClipQualityIssue[];
+  checkedAt: string;
+}
+
+export type ExportLayoutId = 'musubi-tuner' | 'diffusion-pipe' | 'ai-toolkit' | 'jsonl';
+
+export interface ExportLayoutInfo {
+  id: ExportLayoutId;
+  name: string;
+  description: string;
+}
+
+export interface ExportResult {
+  layout: ExportLayoutId;
+  directory: string;
+  clipCount: number;
+  files: string[];
+}
+
+// Frame counts a target model accepts (see src/lib/frame-constraints.ts)
+export type FrameCountRule = '4n+1' | '8n+1' | 'power-of-two' | 'any';
+
+// Everything that determines how a clip is encoded
+export interface ProcessingSettings {
   fps: number;
   frameCount: number;
+  frameCountRule: FrameCountRule;
+  codec: 'libx264' | 'libx265';
+  crf: number;
+  preset: 'ultrafast' | 'superfast' | 'veryfast' | 'faster' | 'fast' | 'medium' | 'slow' | 'slower' | 'veryslow';
+  pixelFormat: 'yuv420p' | 'yuv444p' | 'yuv420p10le';
 }
 
+export interface ProcessingConfig extends ProcessingSettings {
+  // Trainer layout written once processing finishes (null for none)
+  exportLayout?: ExportLayoutId | null;
+  // Leave clips whose quality check found issues unprocessed
+  skipQualityIssues?: boolean;
+}
+
+// Named, reusable processing settings shared by all datasets
+export interface ProcessingPreset {
+  id: number;
+  name: string;
+  settings: ProcessingSettings;
+  createdAt: string;
+}
+
+export interface Job {
+  id: number;
+  datasetId: number;
+  type: 'process-dataset' | 'detect-scenes' | 'generate-previews' | 'generate-proxy' | 'fingerprint-video' | 'check-quality' | 'analyze-motion' | 'auto-crop';
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  payload: Record<string, unknown>;
+  totalCount: number;
+  processedCount: number;
+  failedCount: number;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+// A chunked upload in progress (POST /api/datasets/:id/uploads)
+export interface UploadStatus {
+  id: number;
+  datasetId: number;
+  filename: string;
+  size: number;
+  // Offset the next chunk must start at
+  receivedBytes: number;
+  // Largest chunk the server accepts
+  chunkSize: number;
+  createdAt: string;
+}
+
+// Outcome of one file in an upload; rejected files carry the reason (e.g. "No video stream found in file")
+export type UploadResult =
+  | { filename: string; status: 'accepted'; video: Video }
+  | { filename: string; status: 'rejected'; error: string };
+
+// reference: use the file where it is; copy / hardlink: place it in uploads/<datasetId> like an upload
+export type ImportMode = 'reference' | 'copy' | 'hardlink';
+
+// Body of POST /api/import/scan and POST /api/datasets/:id/import
+export interface FolderImportOptions {
+  path: string;
+  recursive?: boolean;
+  // e.g. [".mp4", ".mov"]; defaults to the formats the upload dialog accepts
+  extensions?: string[];
+  mode?: ImportMode;
+  // Paths relative to the folder; all scanned files when omitted
+  files?: string[];
+}
+
+// Returned by POST /api/import/scan
+export interface FolderScanResult {
+  // Absolute folder path on the server
+  path: string;
+  files: { path: string; relativePath: string; size: number }[];
+}
+
+// Another video that looks like a copy of this one (GET /api/datasets/:id/duplicates)
+export interface DuplicateMatch {
+  videoId: number;
+  datasetId: number;
+  datasetName: string;
+  filename: string;
+  // exact: identical bytes; near: same frames after re-encoding or rescaling
+  kind: 'exact' | 'near';
+  // Mean pHash distance of the sampled frames (0-64), 0 for exact copies
+  distance: number;
+}
+
+export interface VideoDuplicates {
+  videoId: number;
+  matches: DuplicateMatch[];
+}
+
+// Media properties of a clip's output file
+export interface OutputMediaInfo {
+  width: number;
+  height: number;
+  fps?: number;
+  frameCount?: number;
+}
+
+// Returned by GET /api/clips/:id/output
+export interface ClipOutputPreview {
+  name: string;
+  // Served from /output/<datasetId>/
+  url: string;
+  // What the clip was processed with
+  expected: Required<OutputMediaInfo>;
+  // Read back from the file with ffprobe; null if that failed
+  actual: OutputMediaInfo | null;
+  // Human-readable differences between expected and actual
+  mismatches: string[];
+}
+
+export interface ProcessingLogLine {
+  // Omitted for dataset-wide messages
+  videoId?: number;
+  clipId?: number;
+  line: string;
+}
+
+// Messages pushed by GET /api/datasets/:id/events
+export type DatasetEvent =
+  | { type: 'video'; video: Video }
+  | { type: 'clip'; clip: Clip }
+  | { type: 'clip-deleted'; clipId: number; videoId: number }
+  | { type: 'job'; job: Job }
+  | ({ type: 'log' } & ProcessingLogLine);
+
 export interface ProcessingProgress {
   videoId: number;
+  clipId: number;
   progress: number;
   status: 'idle' | 'processing' | 'completed' | 'error';
+  etaSeconds?: number | null;
   message?: string;
 }
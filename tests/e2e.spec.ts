@@ -1,5 +1,6 @@
 import { test, expect } from '@playwright/test';
-import { readFileSync } from 'fs';
+import { copyFileSync, existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
 import { join } from 'path';
 
 // Helper function to wait for network requests to settle
@@ -366,4 +367,1004 @@ test.describe('API Integration Tests', () => {
     // Should either succeed or give meaningful error
     expect([200, 201, 400, 422].includes(uploadResponse.status())).toBeTruthy();
   });
+
+  test('video updates ignore server-owned fields', async ({ request }) => {
+    const datasetResponse = await request.post('/api/datasets', {
+      data: { name: 'Video Update Test' }
+    });
+    const dataset = await datasetResponse.json();
+
+    try {
+      const uploadResponse = await request.post(`/api/datasets/${dataset.id}/videos`, {
+        multipart: {
+          files: { name: 'update.mp4', mimeType: 'video/mp4', buffer: readFileSync(TEST_VIDEO_PATH) },
+        },
+      });
+      const [{ video }] = await uploadResponse.json();
+
+      const updateResponse = await request.patch(`/api/videos/${video.id}`, {
+        data: { filepath: '/etc/passwd', isExternal: true, datasetId: dataset.id + 1, startTime: 1 }
+      });
+      expect(updateResponse.status()).toBe(200);
+      const updated = await updateResponse.json();
+      expect(updated.filepath).toBe(video.filepath);
+      expect(updated.isExternal).toBe(video.isExternal);
+      expect(updated.datasetId).toBe(dataset.id);
+      expect(updated.startTime).toBe(1);
+
+      const sourceResponse = await request.get(`/api/videos/${video.id}/source`);
+      expect(sourceResponse.status()).toBe(200);
+      expect((await sourceResponse.body()).length).toBe(readFileSync(TEST_VIDEO_PATH).length);
+    } finally {
+      await request.delete(`/api/datasets/${dataset.id}`);
+    }
+  });
+
+  test('processing jobs API', async ({ request }) => {
+    const datasetResponse = await request.post('/api/datasets', {
+      data: { name: 'Jobs API Test' }
+    });
+    const dataset = await datasetResponse.json();
+
+    // Invalid config is rejected before a job is queued
+    const invalidResponse = await request.post(`/api/datasets/${dataset.id}/process`, {
+      data: { fps: 0, frameCount: 81 }
+    });
+    expect(invalidResponse.status()).toBe(400);
+
+    // Processing returns a job immediately instead of blocking
+    const processResponse = await request.post(`/api/datasets/${dataset.id}/process`, {
+      data: { fps: 16, frameCount: 81 }
+    });
+    expect(processResponse.status()).toBe(202);
+
+    const job = await processResponse.json();
+    expect(job.datasetId).toBe(dataset.id);
+    expect(job.type).toBe('process-dataset');
+
+    // Inspect the job
+    const getResponse = await request.get(`/api/jobs/${job.id}`);
+    expect(getResponse.ok()).toBeTruthy();
+    expect((await getResponse.json()).id).toBe(job.id);
+
+    // List jobs for the dataset
+    const listResponse = await request.get(`/api/jobs?datasetId=${dataset.id}`);
+    expect(listResponse.ok()).toBeTruthy();
+    const jobs = await listResponse.json();
+    expect(jobs.some((j: any) => j.id === job.id)).toBeTruthy();
+
+    // Cancelling either succeeds or reports the job already finished
+    const cancelResponse = await request.post(`/api/jobs/${job.id}/cancel`);
+    expect([200, 409].includes(cancelResponse.status())).toBeTruthy();
+
+    const missingResponse = await request.get('/api/jobs/999999');
+    expect(missingResponse.status()).toBe(404);
+  });
+
+  test('dataset events stream', async ({ request, baseURL }) => {
+    const datasetResponse = await request.post('/api/datasets', {
+      data: { name: 'Events API Test' }
+    });
+    const dataset = await datasetResponse.json();
+
+    // The stream never ends on its own, so read the first event and disconnect
+    const controller = new AbortController();
+    const response = await fetch(`${baseURL}/api/datasets/${dataset.id}/events`, {
+      signal: controller.signal
+    });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+
+    const reader = response.body!.getReader();
+    const { value } = await reader.read();
+    expect(new TextDecoder().decode(value)).toContain('event: ready');
+    controller.abort();
+
+    const missingResponse = await request.get('/api/datasets/999999/events');
+    expect(missingResponse.status()).toBe(404);
+  });
+
+  test('clip edits are published on the events stream', async ({ request, baseURL }) => {
+    const datasetResponse = await request.post('/api/datasets', {
+      data: { name: 'Clip Events Test' }
+    });
+    const dataset = await datasetResponse.json();
+    const controller = new AbortController();
+
+    try {
+      const uploadResponse = await request.post(`/api/datasets/${dataset.id}/videos`, {
+        multipart: {
+          files: { name: 'events.mp4', mimeType: 'video/mp4', buffer: readFileSync(TEST_VIDEO_PATH) },
+        },
+      });
+      const [{ video }] = await uploadResponse.json();
+
+      const response = await fetch(`${baseURL}/api/datasets/${dataset.id}/events`, { signal: controller.signal });
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+      let received = '';
+      const readUntil = async (text: string) => {
+        while (!received.includes(text)) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          received += decoder.decode(value);
+        }
+        return received.includes(text);
+      };
+      expect(await readUntil('event: ready')).toBe(true);
+
+      await request.patch(`/api/clips/${video.clips[0].id}`, { data: { caption: 'from another tab' } });
+      expect(await readUntil('from another tab')).toBe(true);
+
+      const createResponse = await request.post(`/api/videos/${video.id}/clips`, { data: { startTime: 1 } });
+      const newClip = await createResponse.json();
+      expect(await readUntil(`"id":${newClip.id}`)).toBe(true);
+
+      await request.delete(`/api/clips/${newClip.id}`);
+      expect(await readUntil('event: clip-deleted')).toBe(true);
+    } finally {
+      controller.abort();
+      await request.delete(`/api/datasets/${dataset.id}`);
+    }
+  });
+
+  test('clips API', async ({ request }) => {
+    // Clips can only be added to existing videos
+    const createResponse = await request.post('/api/videos/999999/clips', {
+      data: { startTime: 1 }
+    });
+    expect(createResponse.status()).toBe(404);
+
+    const updateResponse = await request.patch('/api/clips/999999', {
+      data: { startTime: 2 }
+    });
+    expect(updateResponse.status()).toBe(404);
+
+    const deleteResponse = await request.delete('/api/clips/999999');
+    expect(deleteResponse.status()).toBe(404);
+
+    const invalidResponse = await request.patch('/api/clips/abc', {
+      data: { startTime: 2 }
+    });
+    expect(invalidResponse.status()).toBe(400);
+  });
+
+  test('dataset trigger word API', async ({ request }) => {
+    const datasetResponse = await request.post('/api/datasets', {
+      data: { name: 'Trigger Word Test' }
+    });
+    const dataset = await datasetResponse.json();
+    expect(dataset.triggerWord).toBeNull();
+
+    // Trigger word is trimmed and stored on the dataset
+    const updateResponse = await request.patch(`/api/datasets/${dataset.id}`, {
+      data: { triggerWord: '  sks style ' }
+    });
+    expect(updateResponse.ok()).toBeTruthy();
+    expect((await updateResponse.json()).triggerWord).toBe('sks style');
+
+    const getResponse = await request.get(`/api/datasets/${dataset.id}`);
+    expect((await getResponse.json()).triggerWord).toBe('sks style');
+
+    // Non-string values are rejected
+    const invalidResponse = await request.patch(`/api/datasets/${dataset.id}`, {
+      data: { triggerWord: 42 }
+    });
+    expect(invalidResponse.status()).toBe(400);
+
+    // An empty trigger word clears it
+    const clearResponse = await request.patch(`/api/datasets/${dataset.id}`, {
+      data: { triggerWord: '' }
+    });
+    expect((await clearResponse.json()).triggerWord).toBeNull();
+
+    const missingResponse = await request.patch('/api/datasets/999999', {
+      data: { triggerWord: 'sks' }
+    });
+    expect(missingResponse.status()).toBe(404);
+  });
+
+  test('export layouts API', async ({ request }) => {
+    const layoutsResponse = await request.get('/api/export-layouts');
+    expect(layoutsResponse.ok()).toBeTruthy();
+    const layouts = await layoutsResponse.json();
+    expect(layouts.map((l: any) => l.id)).toEqual(
+      expect.arrayContaining(['musubi-tuner', 'diffusion-pipe', 'ai-toolkit', 'jsonl'])
+    );
+
+    const datasetResponse = await request.post('/api/datasets', {
+      data: { name: 'Export Layout Test' }
+    });
+    const dataset = await datasetResponse.json();
+
+    // Unknown layouts are rejected both for export and as a processing option
+    const invalidExport = await request.post(`/api/datasets/${dataset.id}/export`, {
+      data: { layout: 'unknown' }
+    });
+    expect(invalidExport.status()).toBe(400);
+
+    const invalidProcess = await request.post(`/api/datasets/${dataset.id}/process`, {
+      data: { fps: 16, frameCount: 81, exportLayout: 'unknown' }
+    });
+    expect(invalidProcess.status()).toBe(400);
+
+    // A dataset without processed clips exports an empty layout
+    const exportResponse = await request.post(`/api/datasets/${dataset.id}/export`, {
+      data: { layout: 'diffusion-pipe' }
+    });
+    expect(exportResponse.ok()).toBeTruthy();
+    const result = await exportResponse.json();
+    expect(result.layout).toBe('diffusion-pipe');
+    expect(result.clipCount).toBe(0);
+    expect(result.files).toContain('dataset.toml');
+
+    const missingResponse = await request.post('/api/datasets/999999/export', {
+      data: { layout: 'jsonl' }
+    });
+    expect(missingResponse.status()).toBe(404);
+
+    await request.delete(`/api/datasets/${dataset.id}`);
+  });
+
+  test('dataset zip download', async ({ request }) => {
+    const datasetResponse = await request.post('/api/datasets', {
+      data: { name: 'Zip Download Test' }
+    });
+    const dataset = await datasetResponse.json();
+
+    // Nothing to download until clips have been processed
+    const emptyResponse = await request.get(`/api/datasets/${dataset.id}/export.zip`);
+    expect(emptyResponse.status()).toBe(404);
+
+    const missingResponse = await request.get('/api/datasets/999999/export.zip');
+    expect(missingResponse.status()).toBe(404);
+
+    const invalidResponse = await request.get('/api/datasets/abc/export.zip');
+    expect(invalidResponse.status()).toBe(400);
+  });
+
+  test('dataset resolution presets API', async ({ request }) => {
+    const datasetResponse = await request.post('/api/datasets', {
+      data: { name: 'Resolution Presets Test' }
+    });
+    const dataset = await datasetResponse.json();
+    // New datasets use the default presets
+    expect(dataset.resolutions).toBeNull();
+
+    const updateResponse = await request.patch(`/api/datasets/${dataset.id}`, {
+      data: { resolutions: ['832x480', '512x512', '960x544', '832x480'] }
+    });
+    expect(updateResponse.ok()).toBeTruthy();
+    expect((await updateResponse.json()).resolutions).toEqual(['832x480', '512x512', '960x544']);
+
+    // Dimensions must be divisible by 8
+    const unalignedResponse = await request.patch(`/api/datasets/${dataset.id}`, {
+      data: { resolutions: ['833x480'] }
+    });
+    expect(unalignedResponse.status()).toBe(400);
+
+    const malformedResponse = await request.patch(`/api/datasets/${dataset.id}`, {
+      data: { resolutions: ['wide'] }
+    });
+    expect(malformedResponse.status()).toBe(400);
+
+    const emptyResponse = await request.patch(`/api/datasets/${dataset.id}`, {
+      data: { resolutions: [] }
+    });
+    expect(emptyResponse.status()).toBe(400);
+
+    const getResponse = await request.get(`/api/datasets/${dataset.id}`);
+    expect((await getResponse.json()).resolutions).toEqual(['832x480', '512x512', '960x544']);
+  });
+
+  test('processing settings and presets API', async ({ request }) => {
+    const datasetResponse = await request.post('/api/datasets', {
+      data: { name: 'Processing Settings Test' }
+    });
+    const dataset = await datasetResponse.json();
+    expect(dataset.processingConfig).toBeNull();
+
+    // Missing settings are filled in from the defaults and saved on the dataset
+    const updateResponse = await request.patch(`/api/datasets/${dataset.id}`, {
+      data: { processingConfig: { fps: 24, frameCount: 129, crf: 18 } }
+    });
+    expect(updateResponse.ok()).toBeTruthy();
+    expect((await updateResponse.json()).processingConfig).toEqual({
+      fps: 24,
+      frameCount: 129,
+      frameCountRule: '4n+1',
+      codec: 'libx264',
+      crf: 18,
+      preset: 'medium',
+      pixelFormat: 'yuv420p',
+    });
+
+    const invalidResponse = await request.patch(`/api/datasets/${dataset.id}`, {
+      data: { processingConfig: { codec: 'mpeg2video' } }
+    });
+    expect(invalidResponse.status()).toBe(400);
+
+    // A run without settings uses the saved ones
+    const processResponse = await request.post(`/api/datasets/${dataset.id}/process`, { data: {} });
+    expect(processResponse.status()).toBe(202);
+    const job = await processResponse.json();
+    expect(job.payload.fps).toBe(24);
+    expect(job.payload.crf).toBe(18);
+
+    // Built-in presets are available
+    const presetsResponse = await request.get('/api/processing-presets');
+    expect(presetsResponse.ok()).toBeTruthy();
+    const presets = await presetsResponse.json();
+    expect(presets.map((preset: { name: string }) => preset.name)).toContain('Wan 2.1 16fps/81f');
+
+    const createResponse = await request.post('/api/processing-presets', {
+      data: { name: 'Test preset 12fps/49f', settings: { fps: 12, frameCount: 49, codec: 'libx265' } }
+    });
+    expect(createResponse.ok()).toBeTruthy();
+    const preset = await createResponse.json();
+    expect(preset.settings.codec).toBe('libx265');
+    expect(preset.settings.pixelFormat).toBe('yuv420p');
+
+    const duplicateResponse = await request.post('/api/processing-presets', {
+      data: { name: 'Test preset 12fps/49f', settings: { fps: 12 } }
+    });
+    expect(duplicateResponse.status()).toBe(409);
+
+    const invalidPresetResponse = await request.post('/api/processing-presets', {
+      data: { name: 'Broken', settings: { crf: 99 } }
+    });
+    expect(invalidPresetResponse.status()).toBe(400);
+
+    const deleteResponse = await request.delete(`/api/processing-presets/${preset.id}`);
+    expect(deleteResponse.ok()).toBeTruthy();
+    const missingResponse = await request.delete(`/api/processing-presets/${preset.id}`);
+    expect(missingResponse.status()).toBe(404);
+  });
+
+  test('frame count rules', async ({ request }) => {
+    const datasetResponse = await request.post('/api/datasets', {
+      data: { name: 'Frame Count Rule Test' }
+    });
+    const dataset = await datasetResponse.json();
+
+    // Wan/Hunyuan style counts are the default rule
+    const invalidResponse = await request.post(`/api/datasets/${dataset.id}/process`, {
+      data: { fps: 16, frameCount: 80 }
+    });
+    expect(invalidResponse.status()).toBe(400);
+    expect((await invalidResponse.json()).error).toContain('nearest is 81');
+
+    const eightResponse = await request.post(`/api/datasets/${dataset.id}/process`, {
+      data: { fps: 24, frameCount: 85, frameCountRule: '8n+1' }
+    });
+    expect(eightResponse.status()).toBe(400);
+
+    const powerResponse = await request.patch(`/api/datasets/${dataset.id}`, {
+      data: { processingConfig: { frameCount: 64, frameCountRule: 'power-of-two' } }
+    });
+    expect(powerResponse.ok()).toBeTruthy();
+
+    const unknownRuleResponse = await request.patch(`/api/datasets/${dataset.id}`, {
+      data: { processingConfig: { frameCountRule: '3n' } }
+    });
+    expect(unknownRuleResponse.status()).toBe(400);
+
+    const anyResponse = await request.post(`/api/datasets/${dataset.id}/process`, {
+      data: { frameCount: 50, frameCountRule: 'any' }
+    });
+    expect(anyResponse.status()).toBe(202);
+  });
+
+  test('clip crop keyframes validation', async ({ request }) => {
+    // Keyframes are checked before the clip is looked up
+    const negativeTimeResponse = await request.patch('/api/clips/999999', {
+      data: { cropKeyframes: [{ time: -1, x: 0, y: 0 }] }
+    });
+    expect(negativeTimeResponse.status()).toBe(400);
+
+    const easingResponse = await request.patch('/api/clips/999999', {
+      data: { cropKeyframes: [{ time: 0, x: 0, y: 0, easing: 'bounce' }] }
+    });
+    expect(easingResponse.status()).toBe(400);
+
+    const notArrayResponse = await request.patch('/api/clips/999999', {
+      data: { cropKeyframes: { time: 0, x: 0, y: 0 } }
+    });
+    expect(notArrayResponse.status()).toBe(400);
+
+    const validResponse = await request.patch('/api/clips/999999', {
+      data: { cropKeyframes: [{ time: 0, x: 10, y: 20 }, { time: 2, x: 40, y: 10, easing: 'ease' }] }
+    });
+    expect(validResponse.status()).toBe(404);
+  });
+
+  test('clip start time and crop validation', async ({ request }) => {
+    // Types are checked before the clip is looked up
+    for (const data of [{ startTime: 'soon' }, { startTime: -1 }, { cropX: '10' }, { cropWidth: 0 }, { cropY: -5 }]) {
+      const response = await request.patch('/api/clips/999999', { data });
+      expect(response.status()).toBe(400);
+    }
+
+    const datasetResponse = await request.post('/api/datasets', {
+      data: { name: 'Clip Validation Test' }
+    });
+    const dataset = await datasetResponse.json();
+
+    try {
+      const uploadResponse = await request.post(`/api/datasets/${dataset.id}/videos`, {
+        multipart: {
+          files: { name: 'validation.mp4', mimeType: 'video/mp4', buffer: readFileSync(TEST_VIDEO_PATH) },
+        },
+      });
+      const [{ video }] = await uploadResponse.json();
+      const clip = video.clips[0];
+
+      const pastEndResponse = await request.patch(`/api/clips/${clip.id}`, { data: { startTime: video.duration } });
+      expect(pastEndResponse.status()).toBe(400);
+
+      const outsideResponse = await request.patch(`/api/clips/${clip.id}`, {
+        data: { cropX: video.originalWidth - clip.cropWidth + 1 }
+      });
+      expect(outsideResponse.status()).toBe(400);
+
+      const keyframeOutsideResponse = await request.patch(`/api/clips/${clip.id}`, {
+        data: { cropKeyframes: [{ time: 0, x: 0, y: 0 }, { time: 1, x: video.originalWidth, y: 0 }] }
+      });
+      expect(keyframeOutsideResponse.status()).toBe(400);
+
+      const tooLargeResponse = await request.post(`/api/videos/${video.id}/clips`, {
+        data: { cropWidth: video.originalWidth + 2 }
+      });
+      expect(tooLargeResponse.status()).toBe(400);
+
+      // Crop values are rounded to whole pixels
+      const validResponse = await request.patch(`/api/clips/${clip.id}`, { data: { cropX: 0.4, startTime: 0.5 } });
+      expect(validResponse.status()).toBe(200);
+      const updated = await validResponse.json();
+      expect(updated.cropX).toBe(0);
+      expect(updated.startTime).toBe(0.5);
+    } finally {
+      await request.delete(`/api/datasets/${dataset.id}`);
+    }
+  });
+
+  test('scene detection API', async ({ request }) => {
+    const invalidResponse = await request.post('/api/videos/abc/scenes');
+    expect(invalidResponse.status()).toBe(400);
+
+    const missingResponse = await request.post('/api/videos/999999/scenes');
+    expect(missingResponse.status()).toBe(404);
+
+    const invalidSplitResponse = await request.post('/api/videos/abc/split-scenes');
+    expect(invalidSplitResponse.status()).toBe(400);
+
+    const missingSplitResponse = await request.post('/api/videos/999999/split-scenes', {
+      data: { replace: true }
+    });
+    expect(missingSplitResponse.status()).toBe(404);
+  });
+
+  test('split scenes queues scene detection instead of running it inline', async ({ request }) => {
+    const datasetResponse = await request.post('/api/datasets', {
+      data: { name: 'Split Scenes Test' }
+    });
+    const dataset = await datasetResponse.json();
+
+    try {
+      const uploadResponse = await request.post(`/api/datasets/${dataset.id}/videos`, {
+        multipart: {
+          files: { name: 'scenes.mp4', mimeType: 'video/mp4', buffer: readFileSync(TEST_VIDEO_PATH) },
+        },
+      });
+      const [{ video }] = await uploadResponse.json();
+
+      // Clears the stored cuts until the job finishes
+      await request.post(`/api/videos/${video.id}/scenes`);
+
+      const splitResponse = await request.post(`/api/videos/${video.id}/split-scenes`, {
+        data: { replace: true }
+      });
+      // Detection may already have finished and stored cuts, in which case the split runs
+      if (splitResponse.status() === 409) {
+        const body = await splitResponse.json();
+        expect(body.job.type).toBe('detect-scenes');
+        expect(body.job.payload.videoIds).toContain(video.id);
+      }
+    } finally {
+      await request.delete(`/api/datasets/${dataset.id}`);
+    }
+  });
+
+  test('preview images route', async ({ request }) => {
+    const missingResponse = await request.get('/previews/999999/999999/thumbnail.jpg');
+    expect(missingResponse.status()).toBe(404);
+  });
+
+  test('processed output route', async ({ request }) => {
+    const datasetResponse = await request.post('/api/datasets', {
+      data: { name: 'Output Route Test' }
+    });
+    const dataset = await datasetResponse.json();
+
+    const missingFileResponse = await request.get(`/output/${dataset.id}/vid_0001.mp4`);
+    expect(missingFileResponse.status()).toBe(404);
+
+    // Encoded ../ must not escape the dataset's output directory
+    const traversalResponse = await request.get(`/output/${dataset.id}/..%2F..%2Fpackage.json`);
+    expect(traversalResponse.status()).toBe(400);
+
+    const missingDatasetResponse = await request.get('/output/999999/vid_0001.mp4');
+    expect(missingDatasetResponse.status()).toBe(404);
+
+    const missingClipResponse = await request.get('/api/clips/999999/output');
+    expect(missingClipResponse.status()).toBe(404);
+  });
+
+  test('uploads route range and caching headers', async ({ request }) => {
+    const datasetResponse = await request.post('/api/datasets', {
+      data: { name: 'Range Request Test' }
+    });
+    const dataset = await datasetResponse.json();
+
+    const uploadResponse = await request.post(`/api/datasets/${dataset.id}/videos`, {
+      multipart: {
+        files: {
+          name: 'test-video.mp4',
+          mimeType: 'video/mp4',
+          buffer: readFileSync(TEST_VIDEO_PATH),
+        },
+      },
+    });
+    expect(uploadResponse.ok()).toBeTruthy();
+    const [{ video }] = await uploadResponse.json();
+    const videoUrl = `/${video.filepath}`;
+
+    const fullResponse = await request.get(videoUrl);
+    expect(fullResponse.status()).toBe(200);
+    expect(fullResponse.headers()['content-type']).toBe('video/mp4');
+    expect(fullResponse.headers()['accept-ranges']).toBe('bytes');
+    const etag = fullResponse.headers()['etag'] ?? '';
+    expect(etag).toBeTruthy();
+    expect(fullResponse.headers()['last-modified']).toBeTruthy();
+    const size = (await fullResponse.body()).length;
+
+    const rangeResponse = await request.get(videoUrl, { headers: { Range: 'bytes=100-199' } });
+    expect(rangeResponse.status()).toBe(206);
+    expect(rangeResponse.headers()['content-range']).toBe(`bytes 100-199/${size}`);
+    expect((await rangeResponse.body()).length).toBe(100);
+
+    const suffixResponse = await request.get(videoUrl, { headers: { Range: 'bytes=-50' } });
+    expect(suffixResponse.status()).toBe(206);
+    expect(suffixResponse.headers()['content-range']).toBe(`bytes ${size - 50}-${size - 1}/${size}`);
+
+    const unsatisfiableResponse = await request.get(videoUrl, { headers: { Range: `bytes=${size}-` } });
+    expect(unsatisfiableResponse.status()).toBe(416);
+    expect(unsatisfiableResponse.headers()['content-range']).toBe(`bytes */${size}`);
+
+    // Invalid ranges are ignored rather than refused
+    const invertedResponse = await request.get(videoUrl, { headers: { Range: 'bytes=5-3' } });
+    expect(invertedResponse.status()).toBe(200);
+    expect((await invertedResponse.body()).length).toBe(size);
+
+    // The ETag is weak, so If-Range only matches the Last-Modified date
+    const weakIfRangeResponse = await request.get(videoUrl, { headers: { Range: 'bytes=0-99', 'If-Range': etag } });
+    expect(weakIfRangeResponse.status()).toBe(200);
+    const dateIfRangeResponse = await request.get(videoUrl, {
+      headers: { Range: 'bytes=0-99', 'If-Range': fullResponse.headers()['last-modified'] ?? '' }
+    });
+    expect(dateIfRangeResponse.status()).toBe(206);
+
+    const cachedResponse = await request.get(videoUrl, { headers: { 'If-None-Match': etag } });
+    expect(cachedResponse.status()).toBe(304);
+
+    const traversalResponse = await request.get('/uploads/..%2Fpackage.json');
+    expect(traversalResponse.status()).toBe(400);
+
+    await request.delete(`/api/datasets/${dataset.id}`);
+  });
+
+  test('chunked resumable upload', async ({ request }) => {
+    const datasetResponse = await request.post('/api/datasets', {
+      data: { name: 'Chunked Upload Test' }
+    });
+    const dataset = await datasetResponse.json();
+    const fileBuffer = readFileSync(TEST_VIDEO_PATH);
+
+    const invalidResponse = await request.post(`/api/datasets/${dataset.id}/uploads`, {
+      data: { filename: 'test-video.mp4', size: 0 }
+    });
+    expect(invalidResponse.status()).toBe(400);
+
+    const initResponse = await request.post(`/api/datasets/${dataset.id}/uploads`, {
+      data: { filename: 'test-video.mp4', size: fileBuffer.length }
+    });
+    expect(initResponse.status()).toBe(201);
+    const upload = await initResponse.json();
+    expect(upload.receivedBytes).toBe(0);
+    expect(upload.chunkSize).toBeGreaterThan(0);
+    expect(upload.tempPath).toBeUndefined();
+
+    // Finalizing before every byte has arrived is refused
+    const earlyFinalizeResponse = await request.post(`/api/uploads/${upload.id}/finalize`);
+    expect(earlyFinalizeResponse.status()).toBe(409);
+
+    const half = Math.floor(fileBuffer.length / 2);
+    const firstChunkResponse = await request.put(`/api/uploads/${upload.id}/chunks?offset=0`, {
+      data: fileBuffer.subarray(0, half)
+    });
+    expect(firstChunkResponse.ok()).toBeTruthy();
+    expect((await firstChunkResponse.json()).receivedBytes).toBe(half);
+
+    // A resent chunk (e.g. after a lost response) is rejected with the position to resume from
+    const resentChunkResponse = await request.put(`/api/uploads/${upload.id}/chunks?offset=0`, {
+      data: fileBuffer.subarray(0, half)
+    });
+    expect(resentChunkResponse.status()).toBe(409);
+    expect((await resentChunkResponse.json()).receivedBytes).toBe(half);
+
+    const statusResponse = await request.get(`/api/uploads/${upload.id}`);
+    expect((await statusResponse.json()).receivedBytes).toBe(half);
+
+    const secondChunkResponse = await request.put(`/api/uploads/${upload.id}/chunks?offset=${half}`, {
+      data: fileBuffer.subarray(half)
+    });
+    expect((await secondChunkResponse.json()).receivedBytes).toBe(fileBuffer.length);
+
+    const finalizeResponse = await request.post(`/api/uploads/${upload.id}/finalize`);
+    expect(finalizeResponse.status()).toBe(201);
+    const video = await finalizeResponse.json();
+    expect(video.filename).toBe('test-video.mp4');
+    expect(video.clips).toHaveLength(1);
+
+    // The reassembled file is byte-for-byte the original
+    const fileResponse = await request.get(`/${video.filepath}`);
+    expect(Buffer.compare(await fileResponse.body(), fileBuffer)).toBe(0);
+
+    const finishedResponse = await request.get(`/api/uploads/${upload.id}`);
+    expect(finishedResponse.status()).toBe(404);
+
+    // Cancelling drops an unfinished upload
+    const cancelInitResponse = await request.post(`/api/datasets/${dataset.id}/uploads`, {
+      data: { filename: 'cancelled.mp4', size: 1000 }
+    });
+    const cancelled = await cancelInitResponse.json();
+    const cancelResponse = await request.delete(`/api/uploads/${cancelled.id}`);
+    expect(cancelResponse.ok()).toBeTruthy();
+    expect((await request.get(`/api/uploads/${cancelled.id}`)).status()).toBe(404);
+
+    await request.delete(`/api/datasets/${dataset.id}`);
+  });
+
+  test('upload reports a result per file', async ({ request }) => {
+    const datasetResponse = await request.post('/api/datasets', {
+      data: { name: 'Upload Results Test' }
+    });
+    const dataset = await datasetResponse.json();
+
+    const uploadResponse = await request.post(`/api/datasets/${dataset.id}/videos`, {
+      multipart: {
+        files: {
+          name: 'test-video.mp4',
+          mimeType: 'video/mp4',
+          buffer: readFileSync(TEST_VIDEO_PATH),
+        },
+      },
+    });
+    expect(uploadResponse.ok()).toBeTruthy();
+    const results = await uploadResponse.json();
+    expect(results).toHaveLength(1);
+    expect(results[0].filename).toBe('test-video.mp4');
+    expect(results[0].status).toBe('accepted');
+    expect(results[0].video.clips).toHaveLength(1);
+
+    // Without ffprobe the server can't tell a bad file apart and falls back to default metadata
+    const textUpload = await request.post(`/api/datasets/${dataset.id}/videos`, {
+      multipart: {
+        files: {
+          name: 'notes.mp4',
+          mimeType: 'video/mp4',
+          buffer: Buffer.from('not a video'),
+        },
+      },
+    });
+    expect(textUpload.ok()).toBeTruthy();
+    const [textResult] = await textUpload.json();
+    expect(['accepted', 'rejected']).toContain(textResult.status);
+    if (textResult.status === 'rejected') {
+      expect(textResult.error).toBeTruthy();
+      expect(textResult.video).toBeUndefined();
+    }
+
+    await request.delete(`/api/datasets/${dataset.id}`);
+  });
+
+  test('import videos from a server folder', async ({ request }) => {
+    const folder = mkdtempSync(join(tmpdir(), 'evt-import-'));
+    mkdirSync(join(folder, 'day2'));
+    copyFileSync(TEST_VIDEO_PATH, join(folder, 'a.mp4'));
+    copyFileSync(TEST_VIDEO_PATH, join(folder, 'day2', 'b.MOV'));
+    writeFileSync(join(folder, 'notes.txt'), 'not a video');
+
+    const datasetResponse = await request.post('/api/datasets', {
+      data: { name: 'Folder Import Test' }
+    });
+    const dataset = await datasetResponse.json();
+
+    try {
+      const missingResponse = await request.post('/api/import/scan', {
+        data: { path: join(folder, 'missing') }
+      });
+      expect(missingResponse.status()).toBe(400);
+
+      const scanResponse = await request.post('/api/import/scan', { data: { path: folder } });
+      expect(scanResponse.ok()).toBeTruthy();
+      const scan = await scanResponse.json();
+      expect(scan.files.map((file: any) => file.relativePath)).toEqual(['a.mp4', join('day2', 'b.MOV')]);
+
+      const flatScan = await (await request.post('/api/import/scan', {
+        data: { path: folder, recursive: false, extensions: ['mp4'] }
+      })).json();
+      expect(flatScan.files).toHaveLength(1);
+
+      const badModeResponse = await request.post(`/api/datasets/${dataset.id}/import`, {
+        data: { path: folder, mode: 'move' }
+      });
+      expect(badModeResponse.status()).toBe(400);
+
+      // Referenced files stay where they are and are streamed through the API
+      const referenceResponse = await request.post(`/api/datasets/${dataset.id}/import`, {
+        data: { path: folder, files: ['a.mp4'] }
+      });
+      expect(referenceResponse.ok()).toBeTruthy();
+      const [referenced] = await referenceResponse.json();
+      expect(referenced.status).toBe('accepted');
+      expect(referenced.video.isExternal).toBe(true);
+      expect(referenced.video.filepath).toBe(join(folder, 'a.mp4'));
+
+      const sourceResponse = await request.get(`/api/videos/${referenced.video.id}/source`, {
+        headers: { Range: 'bytes=0-99' }
+      });
+      expect(sourceResponse.status()).toBe(206);
+
+      // Deleting the video must not delete the user's file
+      await request.delete(`/api/videos/${referenced.video.id}`);
+      expect(existsSync(join(folder, 'a.mp4'))).toBe(true);
+
+      const copyResponse = await request.post(`/api/datasets/${dataset.id}/import`, {
+        data: { path: folder, mode: 'copy' }
+      });
+      const copied = await copyResponse.json();
+      expect(copied).toHaveLength(2);
+      expect(copied.every((result: any) => result.status === 'accepted')).toBe(true);
+      expect(copied[0].video.isExternal).toBe(false);
+      expect(copied[0].video.filepath).toMatch(new RegExp(`^uploads/${dataset.id}/`));
+    } finally {
+      await request.delete(`/api/datasets/${dataset.id}`);
+      expect(existsSync(join(folder, 'day2', 'b.MOV'))).toBe(true);
+      rmSync(folder, { recursive: true, force: true });
+    }
+  });
+
+  test('duplicate detection, ignore and merge', async ({ request }) => {
+    const datasetResponse = await request.post('/api/datasets', {
+      data: { name: 'Duplicates Test' }
+    });
+    const dataset = await datasetResponse.json();
+
+    try {
+      const upload = async (name: string) => {
+        const response = await request.post(`/api/datasets/${dataset.id}/videos`, {
+          multipart: {
+            files: { name, mimeType: 'video/mp4', buffer: readFileSync(TEST_VIDEO_PATH) },
+          },
+        });
+        const [result] = await response.json();
+        return result.video;
+      };
+      const original = await upload('original.mp4');
+      const copy = await upload('copy.mp4');
+
+      // The content hash comes from the fingerprint job, which works even without ffmpeg
+      const getDuplicates = async () =>
+        (await request.get(`/api/datasets/${dataset.id}/duplicates`)).json();
+      await expect.poll(async () => (await getDuplicates()).length, { timeout: 30000 }).toBe(2);
+
+      const duplicates = await getDuplicates();
+      const copyEntry = duplicates.find((entry: any) => entry.videoId === copy.id);
+      expect(copyEntry.matches).toEqual([
+        expect.objectContaining({ videoId: original.id, datasetId: dataset.id, kind: 'exact', distance: 0 }),
+      ]);
+
+      const selfResponse = await request.post(`/api/videos/${copy.id}/ignore-duplicate`, {
+        data: { videoId: copy.id }
+      });
+      expect(selfResponse.status()).toBe(400);
+
+      // Keeping both dismisses the pair from either side
+      const ignoreResponse = await request.post(`/api/videos/${copy.id}/ignore-duplicate`, {
+        data: { videoId: original.id }
+      });
+      expect(ignoreResponse.ok()).toBeTruthy();
+      expect(await getDuplicates()).toEqual([]);
+
+      // Merging moves clips that start elsewhere into the target and deletes the duplicate
+      await request.post(`/api/videos/${copy.id}/clips`, { data: { startTime: 1 } });
+      const mergeResponse = await request.post(`/api/videos/${copy.id}/merge`, {
+        data: { intoVideoId: original.id }
+      });
+      expect(mergeResponse.ok()).toBeTruthy();
+      const merged = await mergeResponse.json();
+      expect(merged.id).toBe(original.id);
+      expect(merged.clips.map((clip: any) => clip.startTime).sort()).toEqual([0, 1]);
+
+      const deletedResponse = await request.get(`/api/videos/${copy.id}`);
+      expect(deletedResponse.status()).toBe(404);
+    } finally {
+      await request.delete(`/api/datasets/${dataset.id}`);
+    }
+  });
+
+  test('clip quality check API', async ({ request }) => {
+    const datasetResponse = await request.post('/api/datasets', {
+      data: { name: 'Quality Check Test' }
+    });
+    const dataset = await datasetResponse.json();
+
+    try {
+      const emptyResponse = await request.post(`/api/datasets/${dataset.id}/quality`);
+      expect(emptyResponse.status()).toBe(400);
+
+      const uploadResponse = await request.post(`/api/datasets/${dataset.id}/videos`, {
+        multipart: {
+          files: { name: 'quality.mp4', mimeType: 'video/mp4', buffer: readFileSync(TEST_VIDEO_PATH) },
+        },
+      });
+      const [{ video }] = await uploadResponse.json();
+      expect(video.clips[0].quality).toBeNull();
+
+      const videoJobResponse = await request.post(`/api/videos/${video.id}/quality`);
+      expect(videoJobResponse.ok()).toBeTruthy();
+      const videoJob = await videoJobResponse.json();
+      expect(videoJob.type).toBe('check-quality');
+      expect(videoJob.payload.videoIds).toEqual([video.id]);
+
+      const missingResponse = await request.post('/api/videos/999999/quality');
+      expect(missingResponse.status()).toBe(404);
+
+      const datasetJobResponse = await request.post(`/api/datasets/${dataset.id}/quality`);
+      expect([202, 409]).toContain(datasetJobResponse.status());
+
+      // Skipping flagged clips is saved with the rest of the processing settings
+      const invalidResponse = await request.patch(`/api/datasets/${dataset.id}`, {
+        data: { processingConfig: { skipQualityIssues: 'yes' } }
+      });
+      expect(invalidResponse.status()).toBe(400);
+
+      const saveResponse = await request.patch(`/api/datasets/${dataset.id}`, {
+        data: { processingConfig: { skipQualityIssues: true } }
+      });
+      expect(saveResponse.ok()).toBeTruthy();
+      expect((await saveResponse.json()).processingConfig.skipQualityIssues).toBe(true);
+
+      // Moving the window clears the old result
+      const clipResponse = await request.patch(`/api/clips/${video.clips[0].id}`, {
+        data: { startTime: 1 }
+      });
+      expect((await clipResponse.json()).quality).toBeNull();
+
+      // Skipped clips are recorded on the job; unchecked clips aren't skipped
+      const processResponse = await request.post(`/api/datasets/${dataset.id}/process`, { data: {} });
+      expect(processResponse.status()).toBe(202);
+      const processJob = await processResponse.json();
+      expect(processJob.payload.skippedClipIds).toEqual([]);
+      expect(processJob.totalCount).toBe(1);
+    } finally {
+      await request.delete(`/api/datasets/${dataset.id}`);
+    }
+  });
+
+  test('initial crop fits inside the active picture area', async ({ request }) => {
+    const datasetResponse = await request.post('/api/datasets', {
+      data: { name: 'Active Area Test' }
+    });
+    const dataset = await datasetResponse.json();
+
+    try {
+      const uploadResponse = await request.post(`/api/datasets/${dataset.id}/videos`, {
+        multipart: {
+          files: { name: 'bars.mp4', mimeType: 'video/mp4', buffer: readFileSync(TEST_VIDEO_PATH) },
+        },
+      });
+      const [{ video }] = await uploadResponse.json();
+      const [clip] = video.clips;
+
+      // Without ffmpeg nothing is detected and the whole frame is the picture
+      const area = video.activeArea ?? { x: 0, y: 0, width: video.originalWidth, height: video.originalHeight };
+      expect(area.x + area.width).toBeLessThanOrEqual(video.originalWidth);
+      expect(area.y + area.height).toBeLessThanOrEqual(video.originalHeight);
+      expect(clip.cropX).toBeGreaterThanOrEqual(area.x);
+      expect(clip.cropY).toBeGreaterThanOrEqual(area.y);
+      expect(clip.cropX + clip.cropWidth).toBeLessThanOrEqual(area.x + area.width);
+      expect(clip.cropY + clip.cropHeight).toBeLessThanOrEqual(area.y + area.height);
+      // The crop fills the picture in at least one dimension
+      expect(clip.cropWidth === area.width || clip.cropHeight === area.height).toBe(true);
+    } finally {
+      await request.delete(`/api/datasets/${dataset.id}`);
+    }
+  });
+
+  test('motion analysis API', async ({ request }) => {
+    const datasetResponse = await request.post('/api/datasets', {
+      data: { name: 'Motion Analysis Test' }
+    });
+    const dataset = await datasetResponse.json();
+
+    try {
+      const uploadResponse = await request.post(`/api/datasets/${dataset.id}/videos`, {
+        multipart: {
+          files: { name: 'motion.mp4', mimeType: 'video/mp4', buffer: readFileSync(TEST_VIDEO_PATH) },
+        },
+      });
+      const [{ video }] = await uploadResponse.json();
+
+      const analyzeResponse = await request.post(`/api/videos/${video.id}/motion`);
+      expect(analyzeResponse.ok()).toBeTruthy();
+      const job = await analyzeResponse.json();
+      expect(job.type).toBe('analyze-motion');
+      expect(job.payload).toEqual({ videoIds: [video.id] });
+
+      // Queuing clears the energy, so there is nothing to suggest until the job finishes
+      const motionResponse = await request.get(`/api/videos/${video.id}/motion`);
+      expect(motionResponse.ok()).toBeTruthy();
+      const motion = await motionResponse.json();
+      expect(motion).toHaveProperty('sceneCuts');
+      if (motion.motionEnergy === null) {
+        expect(motion.suggestion).toBeNull();
+      }
+
+      const missingResponse = await request.get('/api/videos/999999/motion');
+      expect(missingResponse.status()).toBe(404);
+      const invalidResponse = await request.post('/api/videos/abc/motion');
+      expect(invalidResponse.status()).toBe(400);
+    } finally {
+      await request.delete(`/api/datasets/${dataset.id}`);
+    }
+  });
+
+  test('auto-crop API', async ({ request }) => {
+    const datasetResponse = await request.post('/api/datasets', {
+      data: { name: 'Auto-crop Test' }
+    });
+    const dataset = await datasetResponse.json();
+
+    try {
+      const emptyResponse = await request.post(`/api/datasets/${dataset.id}/auto-crop`);
+      expect(emptyResponse.status()).toBe(400);
+
+      const uploadResponse = await request.post(`/api/datasets/${dataset.id}/videos`, {
+        multipart: {
+          files: { name: 'subject.mp4', mimeType: 'video/mp4', buffer: readFileSync(TEST_VIDEO_PATH) },
+        },
+      });
+      const [{ video }] = await uploadResponse.json();
+
+      const videoJobResponse = await request.post(`/api/videos/${video.id}/auto-crop`);
+      expect(videoJobResponse.ok()).toBeTruthy();
+      const videoJob = await videoJobResponse.json();
+      expect(videoJob.type).toBe('auto-crop');
+      expect(videoJob.payload).toEqual({ videoIds: [video.id] });
+
+      const missingResponse = await request.post('/api/videos/999999/auto-crop');
+      expect(missingResponse.status()).toBe(404);
+
+      // The per-video job may still be queued or running
+      const datasetJobResponse = await request.post(`/api/datasets/${dataset.id}/auto-crop`);
+      expect([202, 409]).toContain(datasetJobResponse.status());
+
+      const invalidResponse = await request.post('/api/datasets/abc/auto-crop');
+      expect(invalidResponse.status()).toBe(400);
+    } finally {
+      await request.delete(`/api/datasets/${dataset.id}`);
+    }
+  });
 });